@@ -0,0 +1,46 @@
+/**
+ * Download a batch
+ * GET /api/batches/[batchId]/download returns a zip with every finished article
+ * (markdown and JSON-LD) and summary.csv listing all jobs with their status
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatch, getBatchJobs, isCompletedStatus } from '@/lib/queue';
+import { buildBatchZip } from '@/lib/batch';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  const { batchId } = params;
+
+  try {
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found', batchId }, { status: 404 });
+    }
+
+    const jobs = await getBatchJobs(batchId);
+    if (!jobs.some((job) => isCompletedStatus(job.status) && job.result)) {
+      return NextResponse.json({ error: 'No completed jobs in this batch yet', batchId }, { status: 400 });
+    }
+
+    const zip = await buildBatchZip(batch, jobs);
+
+    // Convert Buffer to Uint8Array for NextResponse
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="seo-content-${batchId}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Batch] Error building the batch download:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build the batch download' },
+      { status: 500 }
+    );
+  }
+}
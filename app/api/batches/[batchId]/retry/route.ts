@@ -0,0 +1,46 @@
+/**
+ * Retry a batch's failed jobs
+ * POST /api/batches/[batchId]/retry requeues only the failed jobs; each resumes
+ * from its checkpoints. Completed, running and cancelled jobs are left alone
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatch, retryFailedBatchJobs } from '@/lib/queue';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  const { batchId } = params;
+
+  try {
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found', batchId }, { status: 404 });
+    }
+
+    const jobIds = await retryFailedBatchJobs(batchId);
+
+    if (jobIds.length > 0) {
+      // Don't await - the cron picks the jobs up if the trigger fails
+      const { autoTriggerWorkerServer } = await import('@/lib/worker-trigger');
+      autoTriggerWorkerServer().catch((error) => {
+        console.error('[Batch] Worker auto-trigger failed:', error);
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      batchId,
+      retried: jobIds.length,
+      jobIds,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Batch] Retry failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', batchId },
+      { status: 500 }
+    );
+  }
+}
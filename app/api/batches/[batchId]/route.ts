@@ -0,0 +1,47 @@
+/**
+ * Batch status
+ * GET /api/batches/[batchId] returns the batch, its progress counts and every job
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatch, getBatchJobs } from '@/lib/queue';
+import { isBatchFinished, summarizeBatch, toBatchJobSummary } from '@/lib/batch';
+import type { BatchDetails } from '@/lib/typing';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  const { batchId } = params;
+
+  try {
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found', batchId }, { status: 404 });
+    }
+
+    const jobs = await getBatchJobs(batchId);
+    const counts: Record<string, number> = {};
+    for (const job of jobs) {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+    }
+    const progress = summarizeBatch(counts);
+
+    const details: BatchDetails & { finished: boolean } = {
+      ...batch,
+      progress,
+      finished: isBatchFinished(progress),
+      jobs: jobs.map(toBatchJobSummary),
+    };
+
+    return NextResponse.json(details, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('[Batch] Failed to get batch:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', batchId },
+      { status: 500 }
+    );
+  }
+}
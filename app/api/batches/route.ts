@@ -0,0 +1,114 @@
+/**
+ * Bulk generation
+ * POST /api/batches creates one job per CSV/JSON row, grouped in a batch;
+ * GET /api/batches lists recent batches with their progress
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createBatch, getClientKey, isValidApiKey } from '@/lib/queue';
+import { getJobStore } from '@/lib/job-store';
+import { parseBatchRows, summarizeBatch } from '@/lib/batch';
+
+const BatchSchema = z.object({
+  name: z.string().max(120).optional(),
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1).max(2_000_000),
+  provider: z.enum(['anthropic', 'openai', 'fixture']).optional(),
+  priority: z.number().int().min(-10).max(10).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = BatchSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input',
+          details: validation.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, format, content, provider, priority } = validation.data;
+
+    // Only configured API clients may move their jobs up or down the queue
+    const apiKey = request.headers.get('x-api-key');
+    if (priority && !isValidApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Setting a priority requires a valid x-api-key header' }, { status: 403 });
+    }
+
+    let parsed;
+    try {
+      parsed = parseBatchRows(content, format);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the rows' },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rows', details: parsed.errors }, { status: 400 });
+    }
+
+    const inputs = parsed.inputs.map((input) => ({ ...input, provider }));
+    const batchName = name?.trim() || `Batch of ${inputs.length} (${new Date().toISOString().slice(0, 16).replace('T', ' ')})`;
+    // With a configured API key every row counts against that one client;
+    // otherwise each row counts against its own site's domain
+    const { batchId, jobIds } = await createBatch(batchName, inputs, {
+      priority,
+      clientKey: isValidApiKey(apiKey) ? getClientKey(undefined, apiKey) : undefined,
+    });
+
+    console.log(`[Batch] Created batch ${batchId} "${batchName}" with ${jobIds.length} jobs`);
+
+    // Don't await - the cron picks the jobs up if the trigger fails
+    const { autoTriggerWorkerServer } = await import('@/lib/worker-trigger');
+    autoTriggerWorkerServer().catch((error) => {
+      console.error('[Batch] Worker auto-trigger failed:', error);
+    });
+
+    return NextResponse.json({
+      batchId,
+      name: batchName,
+      jobIds,
+      message: `Batch created with ${jobIds.length} jobs. Use /api/batches/${batchId} to follow its progress.`,
+    });
+  } catch (error) {
+    console.error('[Batch] Unexpected error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const limit = Math.min(50, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '20', 10) || 20));
+
+  try {
+    const store = getJobStore();
+    const batches = await store.listBatches(limit);
+
+    const withProgress = await Promise.all(
+      batches.map(async (batch) => ({
+        ...batch,
+        progress: summarizeBatch(await store.countByStatus({ batchId: batch.id })),
+      }))
+    );
+
+    return NextResponse.json({ batches: withProgress });
+  } catch (error) {
+    console.error('[Batch] Failed to list batches:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,33 @@
 /**
- * DEBUG ENDPOINT - Shows all jobs directly from Supabase
+ * DEBUG ENDPOINT - Shows all jobs directly from the job store
  * Use this to bypass any caching and see what's actually in the database
  */
 
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, jobToRow, JobStatus } from '@/lib/job-store';
 
 export async function GET() {
   try {
-    const client = getSupabase();
+    const store = getJobStore();
 
     // Get ALL jobs (not filtered) to see what exists
-    const { data: allJobs, error: allError } = await client
-      .from('jobs')
-      .select('id, status, created_at, updated_at')
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    if (allError) {
-      return NextResponse.json({ error: allError.message }, { status: 500 });
-    }
+    const allJobs = await store.list({ limit: 10 });
 
     // Get pending jobs specifically
-    const { data: pendingJobs, error: pendingError } = await client
-      .from('jobs')
-      .select('*')
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true });
-
-    if (pendingError) {
-      return NextResponse.json({ error: pendingError.message }, { status: 500 });
-    }
+    const pendingJobs = await store.list({ statuses: [JobStatus.PENDING], ascending: true });
 
     return NextResponse.json({
       timestamp: new Date().toISOString(),
-      allJobsCount: allJobs?.length || 0,
-      pendingJobsCount: pendingJobs?.length || 0,
-      recentJobs: allJobs,
-      pendingJobs: pendingJobs,
+      store: store.name,
+      allJobsCount: allJobs.length,
+      pendingJobsCount: pendingJobs.length,
+      recentJobs: allJobs.map((job) => ({
+        id: job.id,
+        status: job.status,
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+      })),
+      pendingJobs: pendingJobs.map(jobToRow),
     });
   } catch (error) {
     console.error('Debug endpoint error:', error);
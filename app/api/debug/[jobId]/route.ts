@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, jobToRow } from '@/lib/job-store';
 
 export async function GET(
   request: NextRequest,
@@ -12,22 +12,15 @@ export async function GET(
 ) {
   try {
     const { jobId } = params;
-    const client = getSupabase();
+    const job = await getJobStore().get(jobId);
 
-    // Get raw database row
-    const { data, error } = await client
-      .from('jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
-
-    if (error) {
-      return NextResponse.json(
-        { error: error.message, code: error.code },
-        { status: 404 }
-      );
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
+    // Show the job as its stored row
+    const data = jobToRow(job);
+
     // Return raw database data with analysis
     return NextResponse.json({
       jobId,
@@ -4,7 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { isCompletedStatus } from '@/lib/queue';
+import { getJobStore, JobStatus, PROCESSING_STATUSES, type Job } from '@/lib/job-store';
 
 export const maxDuration = 30;
 
@@ -30,17 +31,13 @@ export async function GET(request: NextRequest) {
     const analyzeAll = searchParams.get('analyzeAll') === 'true';
     const limit = parseInt(searchParams.get('limit') || '10', 10);
 
-    const supabase = getSupabase();
+    const store = getJobStore();
 
     if (jobId) {
       // Analyze specific job
-      const { data: job, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .eq('id', jobId)
-        .single();
+      const job = await store.get(jobId);
 
-      if (error || !job) {
+      if (!job) {
         return NextResponse.json({ error: 'Job not found' }, { status: 404 });
       }
 
@@ -48,26 +45,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ job: analysis });
     }
 
-    // Analyze recent jobs
-    const query = supabase
-      .from('jobs')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (!analyzeAll) {
-      // Only analyze failed or stuck jobs
-      query.or('status.eq.failed,status.in.(pending,crawling,generating,parsing)');
-    }
-
-    const { data: jobs, error } = await query;
-
-    if (error) {
-      console.error('[Job Analyzer] Error fetching jobs:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    // Analyze recent jobs - only failed or stuck ones unless analyzeAll is set
+    const jobs = await store.list({
+      statuses: analyzeAll ? undefined : [JobStatus.FAILED, JobStatus.PENDING, ...PROCESSING_STATUSES],
+      limit,
+    });
 
-    const analyses = jobs?.map((job) => analyzeJob(job)) || [];
+    const analyses = jobs.map((job) => analyzeJob(job));
 
     // Group by issue type
     const issueGroups = groupByIssue(analyses);
@@ -79,7 +63,7 @@ export async function GET(request: NextRequest) {
       summary: {
         stuck: analyses.filter((a) => a.stuckPhase).length,
         failed: analyses.filter((a) => a.status === 'failed').length,
-        slow: analyses.filter((a) => a.totalDuration > 300000 && a.status !== 'completed').length,
+        slow: analyses.filter((a) => a.totalDuration > 300000 && !isCompletedStatus(a.status)).length,
         issueBreakdown: issueGroups,
       },
       recommendations: generateGlobalRecommendations(analyses),
@@ -95,10 +79,10 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function analyzeJob(job: any): JobAnalysis {
+function analyzeJob(job: Job): JobAnalysis {
   const now = Date.now();
-  const createdAt = new Date(job.created_at).getTime();
-  const updatedAt = new Date(job.updated_at).getTime();
+  const createdAt = job.createdAt;
+  const updatedAt = job.updatedAt;
   const totalDuration = now - createdAt;
   const timeSinceUpdate = now - updatedAt;
 
@@ -125,7 +109,7 @@ function analyzeJob(job: any): JobAnalysis {
   } else if (job.status === 'crawling' && timeSinceUpdate > 60000) {
     analysis.stuckPhase = 'crawling';
     analysis.likelyIssue = 'Website crawling timeout or slow response';
-    analysis.recommendations.push(`Check if ${job.input_url} is accessible`);
+    analysis.recommendations.push(`Check if ${job.input.url} is accessible`);
     analysis.recommendations.push('Consider reducing maxPages or adding timeout');
     analysis.recommendations.push('Check for rate limiting or blocking');
   } else if (job.status === 'generating' && timeSinceUpdate > 45000) {
@@ -147,7 +131,7 @@ function analyzeJob(job: any): JobAnalysis {
   }
 
   // Check for extremely long duration
-  if (totalDuration > 600000 && job.status !== 'completed') {
+  if (totalDuration > 600000 && !isCompletedStatus(job.status)) {
     // > 10 minutes
     analysis.recommendations.push(
       'Job running for over 10 minutes - likely stuck, consider force reset'
@@ -219,7 +203,7 @@ function generateGlobalRecommendations(analyses: JobAnalysis[]): string[] {
   }
 
   // Check average duration
-  const completedJobs = analyses.filter((a) => a.status === 'completed');
+  const completedJobs = analyses.filter((a) => isCompletedStatus(a.status));
   if (completedJobs.length > 0) {
     const avgDuration =
       completedJobs.reduce((sum, a) => sum + a.totalDuration, 0) / completedJobs.length;
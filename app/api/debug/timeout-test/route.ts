@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore } from '@/lib/job-store';
 import Anthropic from '@anthropic-ai/sdk';
 
 export const maxDuration = 60;
@@ -20,19 +20,14 @@ interface TestResult {
 async function testDatabase(): Promise<TestResult> {
   const start = Date.now();
   try {
-    const supabase = getSupabase();
-    const { data, error } = await supabase
-      .from('jobs')
-      .select('id, status')
-      .limit(1);
-
-    if (error) throw error;
+    const store = getJobStore();
+    const jobs = await store.list({ limit: 1 });
 
     return {
       component: 'database',
       success: true,
       duration: Date.now() - start,
-      details: { recordCount: data?.length || 0 },
+      details: { store: store.name, recordCount: jobs.length },
     };
   } catch (error) {
     return {
@@ -3,7 +3,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getJob } from '@/lib/queue';
+import { getJob, isCompletedStatus } from '@/lib/queue';
+import { parseFaq } from '@/lib/faq';
 import { Document, Paragraph, TextRun, HeadingLevel, AlignmentType, convertInchesToTwip } from 'docx';
 
 export async function GET(
@@ -20,11 +21,12 @@ export async function GET(
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
-    if (job.status !== 'completed' || !job.result) {
+    if (!isCompletedStatus(job.status) || !job.result) {
       return NextResponse.json({ error: 'Job not completed yet' }, { status: 400 });
     }
 
     const { metaTitle, metaDescription, contentMarkdown, faqRaw } = job.result;
+    const faq = job.result.faq ?? parseFaq(faqRaw); // Older jobs only have the raw text
 
     // Parse markdown content into paragraphs
     const lines = contentMarkdown.split('\n');
@@ -142,7 +144,7 @@ export async function GET(
     }
 
     // Add FAQ section if available
-    if (faqRaw && faqRaw.trim()) {
+    if (faq.length > 0) {
       docChildren.push(
         new Paragraph({
           text: 'Frequently Asked Questions',
@@ -151,28 +153,22 @@ export async function GET(
         })
       );
 
-      const faqLines = faqRaw.split('\n');
-      for (const line of faqLines) {
-        if (!line.trim()) continue;
-
-        if (line.startsWith('Q:')) {
-          docChildren.push(
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Q: ', bold: true }),
-                new TextRun({ text: line.substring(2).trim() }),
-              ],
-              spacing: { before: 200, after: 100 },
-            })
-          );
-        } else if (line.startsWith('A:')) {
-          docChildren.push(
-            new Paragraph({
-              text: line.substring(2).trim(),
-              spacing: { after: 200 },
-            })
-          );
-        }
+      for (const item of faq) {
+        docChildren.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: 'Q: ', bold: true }),
+              new TextRun({ text: item.question }),
+            ],
+            spacing: { before: 200, after: 100 },
+          })
+        );
+        docChildren.push(
+          new Paragraph({
+            text: item.answer,
+            spacing: { after: 200 },
+          })
+        );
       }
     }
 
@@ -5,18 +5,35 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createJob } from '@/lib/queue';
+import { createJob, getClientKey, isValidApiKey } from '@/lib/queue';
 import { normalizeUrl, splitKeywords } from '@/lib/normalize';
+import { extractSourceText } from '@/lib/sources';
+import type { SourceDocument } from '@/lib/typing';
 
-// Input validation schema
-const GenerateSchema = z.object({
-  url: z.string().url().startsWith('https'),
-  topic: z.string().min(3).max(140),
-  keywords: z.string().min(1),
-  length: z.number().int().min(300).max(3000),
-  additionalNotes: z.string().max(500).optional(),
+// Uploaded/pasted source material (docx and pdf content is base64)
+const SourceSchema = z.object({
+  name: z.string().min(1).max(200),
+  type: z.enum(['text', 'markdown', 'docx', 'pdf', 'html']),
+  content: z.string().min(1).max(8_000_000),
 });
 
+// Input validation schema - a website URL, source documents, or both
+const GenerateSchema = z
+  .object({
+    url: z.string().url().startsWith('https').optional(),
+    topic: z.string().min(3).max(140),
+    keywords: z.string().min(1),
+    length: z.number().int().min(300).max(5000),
+    additionalNotes: z.string().max(500).optional(),
+    sources: z.array(SourceSchema).max(10).optional(),
+    provider: z.enum(['anthropic', 'openai', 'fixture']).optional(),
+    priority: z.number().int().min(-10).max(10).optional(),
+  })
+  .refine((data) => !!data.url || (data.sources?.length ?? 0) > 0, {
+    message: 'Provide a website URL or at least one source document',
+    path: ['url'],
+  });
+
 export async function POST(request: NextRequest) {
   try {
     // Parse and validate input
@@ -33,10 +50,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { url, topic, keywords: keywordsRaw, length, additionalNotes } = validation.data;
+    const { url, topic, keywords: keywordsRaw, length, additionalNotes, sources: uploads, provider, priority } =
+      validation.data;
+
+    // Only configured API clients may move their jobs up or down the queue
+    const apiKey = request.headers.get('x-api-key');
+    if (priority && !isValidApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Setting a priority requires a valid x-api-key header' }, { status: 403 });
+    }
 
     // Normalize inputs
-    const normalizedUrl = normalizeUrl(url);
+    const normalizedUrl = url ? normalizeUrl(url) : undefined;
     const keywords = splitKeywords(keywordsRaw);
 
     if (keywords.length === 0) {
@@ -60,16 +84,38 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create job in queue
-    const jobId = await createJob({
-      url: normalizedUrl,
-      topic,
-      keywords,
-      length,
-      additionalNotes,
-    });
+    // Extract text from source documents now so the job stores plain text only
+    const sources: SourceDocument[] = [];
+    for (const upload of uploads || []) {
+      try {
+        sources.push(await extractSourceText(upload));
+      } catch (error) {
+        console.error(`[API] Failed to read source "${upload.name}":`, error);
+        return NextResponse.json(
+          {
+            error: `Could not read source "${upload.name}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Create job in queue; jobs made with the same configured API key (or for the
+    // same site) share one turn when the queue rotates between clients
+    const jobId = await createJob(
+      {
+        url: normalizedUrl,
+        topic,
+        keywords,
+        length,
+        additionalNotes,
+        sources: sources.length > 0 ? sources : undefined,
+        provider,
+      },
+      { priority, clientKey: getClientKey(normalizedUrl, apiKey) }
+    );
 
-    console.log(`[API] Created job ${jobId} for ${normalizedUrl}`);
+    console.log(`[API] Created job ${jobId} for ${normalizedUrl || 'source documents only'} (${sources.length} source(s))`);
 
     // Auto-trigger worker to process the job immediately
     // This ensures jobs are processed even without cron (useful for local dev)
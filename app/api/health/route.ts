@@ -4,7 +4,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, JobStatus, PROCESSING_STATUSES } from '@/lib/job-store';
 
 export async function GET() {
   const now = Date.now();
@@ -12,6 +12,7 @@ export async function GET() {
     timestamp: new Date(now).toISOString(),
     environment: {
       nodeEnv: process.env.NODE_ENV,
+      jobStore: process.env.JOB_STORE || 'supabase',
       hasSupabaseUrl: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
       hasSupabaseKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
       hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
@@ -45,118 +46,75 @@ export async function GET() {
   };
 
   try {
-    const supabase = getSupabase();
+    const store = getJobStore();
 
     // Test database connectivity by fetching recent jobs
-    // Use timestamp filter to bust Supabase query cache
-    const { data: recentJobs, error: recentError } = await supabase
-      .from('jobs')
-      .select('id, status, created_at, updated_at, attempts, progress, message, input_url, input_topic')
-      .lt('created_at', now + 1000) // Cache-busting: will match all jobs created before now+1s
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    if (recentError) {
-      diagnostics.database.error = recentError.message;
-      diagnostics.database.connected = false;
-    } else {
-      diagnostics.database.connected = true;
-
-      // Get status counts
-      const statusCounts: Record<string, number> = {};
-      recentJobs?.forEach((job) => {
-        statusCounts[job.status] = (statusCounts[job.status] || 0) + 1;
-      });
-
-      // Get all jobs count and status distribution
-      // Cache-busting: use timestamp filter
-      const { data: allJobs, error: allJobsError } = await supabase
-        .from('jobs')
-        .select('status')
-        .lt('created_at', now + 1000);
-
-      if (!allJobsError && allJobs) {
-        const fullStatusCounts: Record<string, number> = {};
-        allJobs.forEach((job) => {
-          fullStatusCounts[job.status] = (fullStatusCounts[job.status] || 0) + 1;
-        });
-
-        diagnostics.queue.pending = fullStatusCounts.pending || 0;
-        diagnostics.queue.crawling = fullStatusCounts.crawling || 0;
-        diagnostics.queue.generating = fullStatusCounts.generating || 0;
-        diagnostics.queue.parsing = fullStatusCounts.parsing || 0;
-        diagnostics.queue.completed = fullStatusCounts.completed || 0;
-        diagnostics.queue.failed = fullStatusCounts.failed || 0;
-        diagnostics.queue.total = allJobs.length;
-      }
-
-      // Find stuck jobs (in progress states for >5 minutes)
-      // Cache-busting: the .lt('updated_at', fiveMinutesAgo) already provides dynamic filtering
-      const fiveMinutesAgo = now - 5 * 60 * 1000;
-      const { data: stuckJobs, error: stuckError } = await supabase
-        .from('jobs')
-        .select('id, status, created_at, updated_at, attempts, progress, message')
-        .in('status', ['pending', 'crawling', 'generating', 'parsing'])
-        .lt('updated_at', fiveMinutesAgo)
-        .lt('created_at', now + 1000); // Additional cache-busting
-
-      if (!stuckError && stuckJobs) {
-        diagnostics.jobs.stuck = stuckJobs.map((job) => ({
-          id: job.id,
-          status: job.status,
-          progress: job.progress,
-          message: job.message,
-          stuckForMinutes: Math.floor((now - job.updated_at) / 60000),
-          attempts: job.attempts,
-          createdAt: new Date(job.created_at).toISOString(),
-          updatedAt: new Date(job.updated_at).toISOString(),
-        }));
-      }
-
-      // Get oldest pending job
-      // Cache-busting: use timestamp filter
-      const { data: oldestPending, error: oldestError } = await supabase
-        .from('jobs')
-        .select('id, created_at, updated_at, attempts, input_url')
-        .eq('status', 'pending')
-        .lt('created_at', now + 1000)
-        .order('created_at', { ascending: true })
-        .limit(1)
-        .maybeSingle();
-
-      if (!oldestError && oldestPending) {
-        diagnostics.jobs.oldestPending = {
-          id: oldestPending.id,
-          createdAt: new Date(oldestPending.created_at).toISOString(),
-          waitingForMinutes: Math.floor((now - oldestPending.created_at) / 60000),
-          attempts: oldestPending.attempts,
-          url: oldestPending.input_url,
-        };
-      }
-
-      // Format recent jobs
-      diagnostics.jobs.recent = recentJobs?.slice(0, 5).map((job) => ({
-        id: job.id,
-        status: job.status,
-        progress: job.progress,
-        message: job.message,
-        ageMinutes: Math.floor((now - job.created_at) / 60000),
-        attempts: job.attempts,
-        url: job.input_url,
-        createdAt: new Date(job.created_at).toISOString(),
-        updatedAt: new Date(job.updated_at).toISOString(),
-      })) || [];
+    const recentJobs = await store.list({ limit: 10 });
+    diagnostics.database.connected = true;
+
+    // Get all jobs count and status distribution
+    const fullStatusCounts = await store.countByStatus();
+    diagnostics.queue.pending = fullStatusCounts.pending || 0;
+    diagnostics.queue.crawling = fullStatusCounts.crawling || 0;
+    diagnostics.queue.generating = fullStatusCounts.generating || 0;
+    diagnostics.queue.parsing = fullStatusCounts.parsing || 0;
+    diagnostics.queue.completed = fullStatusCounts.completed || 0;
+    diagnostics.queue.failed = fullStatusCounts.failed || 0;
+    diagnostics.queue.total = Object.values(fullStatusCounts).reduce((sum, count) => sum + count, 0);
+
+    // Find stuck jobs (in progress states for >5 minutes)
+    const fiveMinutesAgo = now - 5 * 60 * 1000;
+    const stuckJobs = await store.list({
+      statuses: [JobStatus.PENDING, ...PROCESSING_STATUSES],
+      updatedBefore: fiveMinutesAgo,
+    });
+
+    diagnostics.jobs.stuck = stuckJobs.map((job) => ({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      message: job.message,
+      stuckForMinutes: Math.floor((now - job.updatedAt) / 60000),
+      attempts: job.attempts,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+    }));
+
+    // Get oldest pending job
+    const [oldestPending] = await store.list({ statuses: [JobStatus.PENDING], ascending: true, limit: 1 });
+
+    if (oldestPending) {
+      diagnostics.jobs.oldestPending = {
+        id: oldestPending.id,
+        createdAt: new Date(oldestPending.createdAt).toISOString(),
+        waitingForMinutes: Math.floor((now - oldestPending.createdAt) / 60000),
+        attempts: oldestPending.attempts,
+        url: oldestPending.input.url,
+      };
     }
+
+    // Format recent jobs
+    diagnostics.jobs.recent = recentJobs.slice(0, 5).map((job) => ({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      message: job.message,
+      ageMinutes: Math.floor((now - job.createdAt) / 60000),
+      attempts: job.attempts,
+      url: job.input.url,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+    }));
   } catch (error) {
     diagnostics.database.error = error instanceof Error ? error.message : 'Unknown error';
     diagnostics.database.connected = false;
   }
 
-  // Determine overall health status
+  // Determine overall health status - Supabase credentials only matter for the Supabase store
+  const needsSupabase = diagnostics.environment.jobStore === 'supabase';
   const isHealthy =
     diagnostics.database.connected &&
-    diagnostics.environment.hasSupabaseUrl &&
-    diagnostics.environment.hasSupabaseKey &&
+    (!needsSupabase || (diagnostics.environment.hasSupabaseUrl && diagnostics.environment.hasSupabaseKey)) &&
     diagnostics.environment.hasAnthropicKey &&
     diagnostics.jobs.stuck.length === 0;
 
@@ -0,0 +1,74 @@
+/**
+ * Cancel a job
+ * POST /api/jobs/[jobId]/cancel marks a pending or running job cancelled. A running
+ * worker notices within a few seconds, aborts its in-flight model request and
+ * records the stage it stopped in; finished stages stay checkpointed, so
+ * /api/jobs/[jobId]/rerun can pick the job up again later
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, updateJob, isCompletedStatus, JobStatus } from '@/lib/queue';
+import { PROCESSING_STATUSES } from '@/lib/job-store';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const { jobId } = params;
+
+  try {
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found', jobId }, { status: 404 });
+    }
+
+    if (isCompletedStatus(job.status) || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED) {
+      return NextResponse.json(
+        { error: `Job already finished (${job.status})`, jobId, status: job.status },
+        { status: 409 }
+      );
+    }
+
+    const running = PROCESSING_STATUSES.includes(job.status);
+
+    // Conditional on the status still being cancellable, so a job that finishes
+    // between the read and the write is not marked cancelled. The lease is left
+    // to the worker, which releases it once it has stopped
+    const cancelled = await updateJob(
+      jobId,
+      {
+        status: JobStatus.CANCELLED,
+        message: running
+          ? `Cancelled while ${job.status} (${job.progress}%) - stopping the worker...`
+          : 'Cancelled before processing started',
+      },
+      { statuses: [JobStatus.PENDING, ...PROCESSING_STATUSES] }
+    );
+
+    if (!cancelled) {
+      const current = await getJob(jobId);
+      return NextResponse.json(
+        { error: `Job already finished (${current?.status ?? 'deleted'})`, jobId, status: current?.status },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Cancel] Job ${jobId} cancelled (was ${job.status} at ${job.progress}%)`);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      previousStatus: job.status,
+      progress: job.progress,
+      finishedStages: Object.keys(job.checkpoints || {}),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Cancel] Unexpected error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', jobId },
+      { status: 500 }
+    );
+  }
+}
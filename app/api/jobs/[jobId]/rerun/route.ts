@@ -0,0 +1,102 @@
+/**
+ * Re-run a job from a chosen stage
+ * POST /api/jobs/[jobId]/rerun?from=parse drops the checkpoints of that stage and
+ * every later one, requeues the job and triggers the worker; earlier stages are
+ * reused, so e.g. from=parse re-parses the saved model text without regenerating
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, updateJob, JobStatus } from '@/lib/queue';
+import { PROCESSING_STATUSES } from '@/lib/job-store';
+import { checkpointsBefore, firstIncompleteStage, isJobStage, JOB_STAGES } from '@/lib/checkpoints';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const { jobId } = params;
+  const from = request.nextUrl.searchParams.get('from') || 'crawl';
+
+  if (!isJobStage(from)) {
+    return NextResponse.json(
+      { error: `from must be one of: ${JOB_STAGES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found', jobId }, { status: 404 });
+    }
+
+    // A worker still holding a live lease would keep writing to the job; a cancelled
+    // job keeps its lease until the worker has noticed and stopped
+    const leased = PROCESSING_STATUSES.includes(job.status) || job.status === JobStatus.CANCELLED;
+    if (leased && job.leaseOwner && (job.leaseExpiresAt || 0) >= Date.now()) {
+      return NextResponse.json(
+        { error: 'Job is being processed - wait for it to finish before re-running it', jobId },
+        { status: 409 }
+      );
+    }
+
+    const checkpoints = checkpointsBefore(job.checkpoints, from);
+    const resumesFrom = firstIncompleteStage(checkpoints);
+
+    // Conditional on the status and lease seen above, so a job a worker claims
+    // between the read and the write is not requeued under it
+    const requeued = await updateJob(
+      jobId,
+      {
+        status: JobStatus.PENDING,
+        progress: 0,
+        message: `Queued to re-run from the ${resumesFrom} stage`,
+        attempts: 0,
+        error: '',
+        partialContent: '',
+        leaseOwner: '',
+        rerun: true,
+        checkpoints,
+        // The previous run's output must not be served while the job runs again
+        result: null,
+        warnings: [],
+        revisions: [],
+        // The sectioned pipeline's own checkpoint would otherwise skip regeneration
+        ...(checkpoints.generate ? {} : { generationState: null }),
+      },
+      { statuses: [job.status], leaseOwner: job.leaseOwner ?? null }
+    );
+
+    if (!requeued) {
+      const current = await getJob(jobId);
+      return NextResponse.json(
+        { error: `Job changed while re-running it (now ${current?.status ?? 'deleted'}) - try again`, jobId, status: current?.status },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Rerun] Job ${jobId} requeued from ${resumesFrom} (requested: ${from})`);
+
+    // Don't await - the cron picks the job up if the trigger fails
+    const { autoTriggerWorkerServer } = await import('@/lib/worker-trigger');
+    autoTriggerWorkerServer().catch((error) => {
+      console.error('[Rerun] Worker auto-trigger failed:', error);
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      from,
+      resumesFrom,
+      previousStatus: job.status,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Rerun] Unexpected error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', jobId },
+      { status: 500 }
+    );
+  }
+}
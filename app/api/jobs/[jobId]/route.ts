@@ -10,7 +10,8 @@ export const fetchCache = 'force-no-store';
 
 import { unstable_noStore as noStore } from 'next/cache';
 import { NextRequest, NextResponse } from 'next/server';
-import { getJob } from '@/lib/queue';
+import { getJob, toPublicJob } from '@/lib/queue';
+import { getJobUsage } from '@/lib/usage';
 
 const noStoreHeaders = {
   'Cache-Control': 'private, no-store, no-cache, max-age=0, must-revalidate',
@@ -37,7 +38,14 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(job, { headers: noStoreHeaders });
+    // Usage is informational - a failing job_calls read must not break polling
+    const usage = await getJobUsage(jobId).catch((error) => {
+      console.error('Error fetching job usage:', error);
+      return null;
+    });
+
+    // Only the public fields - checkpoints and sources are on /api/jobs/debug/[jobId]
+    return NextResponse.json({ ...toPublicJob(job), usage }, { headers: noStoreHeaders });
   } catch (error) {
     console.error('Error fetching job:', error);
     return NextResponse.json(
@@ -0,0 +1,103 @@
+/**
+ * Server-Sent Events stream of job progress
+ * Events: "progress" (status, progress, message, partial content when it changed),
+ * "done" (the finished job's public fields: completed - possibly with warnings -, failed or cancelled)
+ * and "stream-error"
+ * The worker runs in another invocation, so the job's progress is re-read every
+ * second; the full job is only loaded once it has finished
+ */
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+import { NextRequest } from 'next/server';
+import { getJob, getJobProgress, isCompletedStatus, JobStatus, toPublicJob } from '@/lib/queue';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_STREAM_MS = 280000; // Close before maxDuration; EventSource reconnects by itself
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const { jobId } = params;
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Reconnect quickly if the connection drops
+      controller.enqueue(encoder.encode('retry: 2000\n\n'));
+
+      const startedAt = Date.now();
+      let lastUpdatedAt = -1;
+      let lastPartial: string | undefined;
+
+      try {
+        while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+          const job = await getJobProgress(jobId);
+          if (!job) {
+            send('stream-error', { error: 'Job not found' });
+            break;
+          }
+
+          if (isCompletedStatus(job.status) || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED) {
+            const finished = await getJob(jobId);
+            if (finished) {
+              const { partialContent: _partialContent, ...done } = toPublicJob(finished);
+              send('done', done);
+            } else {
+              send('stream-error', { error: 'Job not found' });
+            }
+            break;
+          }
+
+          if (job.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = job.updatedAt;
+            const partialChanged = job.partialContent !== lastPartial;
+            lastPartial = job.partialContent;
+
+            send('progress', {
+              status: job.status,
+              progress: job.progress,
+              message: job.message,
+              // Only resend the partial text when it changed
+              ...(partialChanged ? { partialContent: job.partialContent || '' } : {}),
+            });
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error(`[Stream] Error streaming job ${jobId}:`, error);
+        if (!closed) {
+          send('stream-error', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      if (!closed) {
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering
+    },
+  });
+}
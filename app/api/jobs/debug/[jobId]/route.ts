@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, jobToRow } from '@/lib/job-store';
 
 export async function GET(
   request: Request,
@@ -10,28 +10,17 @@ export async function GET(
   console.log(`[Debug] Fetching details for job: ${jobId}`);
 
   try {
-    const supabase = getSupabase();
-    const { data: job, error } = await supabase
-      .from('jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const stored = await getJobStore().get(jobId);
 
-    if (error) {
-      console.error('[Debug] Error fetching job:', error);
-      return NextResponse.json({
-        error: error.message,
-        details: error
-      }, { status: 500 });
-    }
-
-    if (!job) {
+    if (!stored) {
       return NextResponse.json({
         error: 'Job not found',
         jobId
       }, { status: 404 });
     }
 
+    const job = jobToRow(stored);
+
     const now = Date.now();
     const createdAt = new Date(job.created_at).getTime();
     const updatedAt = new Date(job.updated_at).getTime();
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, isJobStatus } from '@/lib/job-store';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -7,42 +7,24 @@ export async function GET(request: Request) {
   const limit = parseInt(searchParams.get('limit') || '50', 10);
 
   try {
-    const supabase = getSupabase();
-
-    // Use timestamp filter to bust Supabase query cache
-    // PostgREST caches queries with identical parameters, so adding a dynamic timestamp ensures fresh results
-    const now = Date.now();
-
-    let query = supabase
-      .from('jobs')
-      .select('id, status, created_at, updated_at, attempts, input_url, input_topic')
-      .lt('created_at', now + 1000) // Cache-busting: will match all jobs created before now+1s
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (status) {
-      query = query.eq('status', status);
+    const statuses = status ? [status].filter(isJobStatus) : undefined;
+    if (statuses && statuses.length === 0) {
+      return NextResponse.json({ error: `Unknown status '${status}'` }, { status: 400 });
     }
 
-    const { data: jobs, error } = await query;
-
-    if (error) {
-      console.error('[List] Error fetching jobs:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    const now = Date.now();
+    const jobs = await getJobStore().list({ statuses, limit });
 
-    const jobsWithDetails = jobs?.map((job) => ({
+    const jobsWithDetails = jobs.map((job) => ({
       id: job.id,
       status: job.status,
-      createdAt: new Date(job.created_at).toISOString(),
-      updatedAt: new Date(job.updated_at).toISOString(),
-      ageMinutes: Math.floor((now - new Date(job.created_at).getTime()) / 60000),
-      lastUpdateMinutes: Math.floor(
-        (now - new Date(job.updated_at).getTime()) / 60000
-      ),
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+      ageMinutes: Math.floor((now - job.createdAt) / 60000),
+      lastUpdateMinutes: Math.floor((now - job.updatedAt) / 60000),
       attempts: job.attempts,
-      url: job.input_url,
-      topic: job.input_topic,
+      url: job.input.url || null,
+      topic: job.input.topic,
     }));
 
     return NextResponse.json({
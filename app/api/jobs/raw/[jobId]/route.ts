@@ -3,7 +3,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, jobToRow } from '@/lib/job-store';
 
 export async function GET(
   request: NextRequest,
@@ -12,32 +12,9 @@ export async function GET(
   const { jobId } = params;
 
   try {
-    const supabase = getSupabase();
+    const job = await getJobStore().get(jobId);
 
-    // Force fresh query with timestamp cache-busting
-    const now = Date.now();
-    const { data, error } = await supabase
-      .from('jobs')
-      .select('*')
-      .eq('id', jobId)
-      .lt('created_at', now + 1000)
-      .maybeSingle();
-
-    if (error) {
-      return NextResponse.json(
-        { error: error.message, code: error.code },
-        {
-          status: 500,
-          headers: {
-            'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
-            'Pragma': 'no-cache',
-            'Expires': '0',
-          }
-        }
-      );
-    }
-
-    if (!data) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         {
@@ -51,7 +28,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(data, {
+    return NextResponse.json(jobToRow(job), {
       headers: {
         'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
         'Pragma': 'no-cache',
@@ -1,5 +1,14 @@
+/**
+ * Reset a job to pending
+ * POST /api/jobs/reset/[jobId] requeues the job. A failed or cancelled job resumes
+ * from its checkpoints; a completed job keeps only its crawl, so the content is
+ * generated again instead of reproducing the old result. Use
+ * /api/jobs/[jobId]/rerun to choose the stage.
+ */
+
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJob, updateJob, isCompletedStatus, JobStatus } from '@/lib/queue';
+import { checkpointsBefore } from '@/lib/checkpoints';
 
 export async function POST(
   request: Request,
@@ -10,16 +19,10 @@ export async function POST(
   console.log(`[Reset] Resetting job: ${jobId}`);
 
   try {
-    const supabase = getSupabase();
-
     // First, check if job exists
-    const { data: job, error: fetchError } = await supabase
-      .from('jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await getJob(jobId);
 
-    if (fetchError || !job) {
+    if (!job) {
       return NextResponse.json(
         {
           error: 'Job not found',
@@ -29,26 +32,37 @@ export async function POST(
       );
     }
 
-    // Reset the job to pending status
-    const { error: updateError } = await supabase
-      .from('jobs')
-      .update({
-        status: 'pending',
+    const regenerate = isCompletedStatus(job.status);
+
+    // Reset the job to pending status, conditional on the status and lease seen
+    // above so a job claimed in the meantime is left to its worker
+    const reset = await updateJob(
+      jobId,
+      {
+        status: JobStatus.PENDING,
         progress: 0,
         message: 'Job reset - queued for retry',
         attempts: 0, // Reset attempts counter
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', jobId);
+        leaseOwner: '', // Release any claim so the next worker run can pick it up
+        rerun: true, // Requeues a cancelled job too
+        result: null, // The previous result is replaced once the job completes again
+        warnings: [],
+        ...(regenerate
+          ? { checkpoints: checkpointsBefore(job.checkpoints, 'generate'), generationState: null, revisions: [] }
+          : {}),
+      },
+      { statuses: [job.status], leaseOwner: job.leaseOwner ?? null }
+    );
 
-    if (updateError) {
-      console.error('[Reset] Error resetting job:', updateError);
+    if (!reset) {
+      const current = await getJob(jobId);
       return NextResponse.json(
         {
-          error: updateError.message,
+          error: `Job changed while resetting it (now ${current?.status ?? 'deleted'}) - try again`,
           jobId,
+          status: current?.status,
         },
-        { status: 500 }
+        { status: 409 }
       );
     }
 
@@ -57,7 +71,7 @@ export async function POST(
     return NextResponse.json({
       success: true,
       jobId,
-      message: 'Job reset to pending status',
+      message: regenerate ? 'Job reset to pending status; content will be regenerated' : 'Job reset to pending status',
       previousStatus: job.status,
       timestamp: new Date().toISOString(),
     });
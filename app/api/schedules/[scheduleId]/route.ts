@@ -0,0 +1,92 @@
+/**
+ * One schedule
+ * GET returns the schedule and the latest jobs it created, PATCH { enabled }
+ * pauses or resumes it and DELETE removes it (the jobs it created are kept)
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getJobStore } from '@/lib/job-store';
+import { setScheduleEnabled } from '@/lib/schedules';
+import { toBatchJobSummary } from '@/lib/batch';
+
+const PatchSchema = z.object({ enabled: z.boolean() });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { scheduleId: string } }
+) {
+  const { scheduleId } = params;
+
+  try {
+    const store = getJobStore();
+    const schedule = await store.getSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found', scheduleId }, { status: 404 });
+    }
+
+    const jobs = await store.list({ scheduleId, limit: 20 });
+    return NextResponse.json(
+      { ...schedule, jobs: jobs.map(toBatchJobSummary) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[Schedules] Failed to get schedule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', scheduleId },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { scheduleId: string } }
+) {
+  const { scheduleId } = params;
+
+  try {
+    const validation = PatchSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Send { "enabled": true | false }' }, { status: 400 });
+    }
+
+    const schedule = await getJobStore().getSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found', scheduleId }, { status: 404 });
+    }
+
+    const updated = await setScheduleEnabled(schedule, validation.data.enabled);
+    return NextResponse.json({ success: true, schedule: updated });
+  } catch (error) {
+    console.error('[Schedules] Failed to update schedule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', scheduleId },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { scheduleId: string } }
+) {
+  const { scheduleId } = params;
+
+  try {
+    if (!(await getJobStore().deleteSchedule(scheduleId))) {
+      return NextResponse.json({ error: 'Schedule not found', scheduleId }, { status: 404 });
+    }
+
+    console.log(`[Schedules] Deleted schedule ${scheduleId}`);
+    return NextResponse.json({ success: true, scheduleId });
+  } catch (error) {
+    console.error('[Schedules] Failed to delete schedule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', scheduleId },
+      { status: 500 }
+    );
+  }
+}
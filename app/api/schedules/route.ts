@@ -0,0 +1,160 @@
+/**
+ * Scheduled and recurring generation
+ * POST /api/schedules creates a one-off schedule (runAt) or a recurring one (cron,
+ * UTC); each run queues jobs for topics from its list
+ * GET /api/schedules lists schedules, newest first
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getClientKey, isValidApiKey } from '@/lib/queue';
+import { getJobStore } from '@/lib/job-store';
+import { normalizeUrl, splitKeywords } from '@/lib/normalize';
+import { nextCronRun, parseCron } from '@/lib/cron';
+import { createSchedule, type ScheduleTopic } from '@/lib/schedules';
+
+// Keywords as a comma-separated string or an array
+const KeywordsSchema = z.union([z.string(), z.array(z.string())]);
+
+const ScheduleSchema = z
+  .object({
+    name: z.string().max(120).optional(),
+    url: z.string().url().startsWith('https'),
+    topics: z
+      .array(z.union([z.string(), z.object({ topic: z.string(), keywords: KeywordsSchema.optional() })]))
+      .min(1)
+      .max(100),
+    keywords: KeywordsSchema.optional(), // Default for topics without their own
+    length: z.number().int().min(300).max(5000).default(1500),
+    additionalNotes: z.string().max(500).optional(),
+    provider: z.enum(['anthropic', 'openai', 'fixture']).optional(),
+    priority: z.number().int().min(-10).max(10).optional(),
+    cron: z.string().max(100).optional(),
+    runAt: z.union([z.string().datetime({ offset: true }), z.number().int()]).optional(),
+    loopTopics: z.boolean().optional(),
+  })
+  .refine((data) => !data.cron !== !data.runAt, {
+    message: 'Provide either cron (recurring) or runAt (one-off)',
+    path: ['cron'],
+  });
+
+function toKeywords(keywords: z.infer<typeof KeywordsSchema> | undefined): string[] {
+  if (keywords === undefined) return [];
+  return Array.isArray(keywords) ? keywords.map((keyword) => keyword.trim()).filter(Boolean) : splitKeywords(keywords);
+}
+
+/**
+ * Problems with the keywords a run would use, by topic (same limits as /api/generate)
+ */
+function keywordErrors(topics: ScheduleTopic[], defaults: string[]): string[] {
+  const errors: string[] = [];
+  topics.forEach(({ topic, keywords }, index) => {
+    const used = keywords?.length ? keywords : defaults;
+    const label = `topics.${index} ("${topic}")`;
+    if (topic.length < 3 || topic.length > 140) errors.push(`${label}: topic must be 3-140 characters`);
+    if (used.length === 0) errors.push(`${label}: at least one keyword is required (set keywords on the topic or the schedule)`);
+    if (used.length > 12) errors.push(`${label}: maximum 12 keywords allowed`);
+    if (used.some((keyword) => keyword.length > 60)) errors.push(`${label}: keywords must be at most 60 characters`);
+  });
+  return errors;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = ScheduleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input',
+          details: validation.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+
+    // Only configured API clients may move their jobs up or down the queue
+    const apiKey = request.headers.get('x-api-key');
+    if (data.priority && !isValidApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Setting a priority requires a valid x-api-key header' }, { status: 403 });
+    }
+    const keywords = toKeywords(data.keywords);
+    const topics: ScheduleTopic[] = data.topics.map((item) =>
+      typeof item === 'string'
+        ? { topic: item.trim() }
+        : { topic: item.topic.trim(), keywords: item.keywords === undefined ? undefined : toKeywords(item.keywords) }
+    );
+
+    const errors = keywordErrors(topics, keywords);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid topics', details: errors }, { status: 400 });
+    }
+
+    if (data.cron) {
+      try {
+        if (nextCronRun(parseCron(data.cron), Date.now()) === null) {
+          throw new Error(`Cron expression "${data.cron}" never matches`);
+        }
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid cron expression' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const runAt = data.runAt === undefined ? undefined : new Date(data.runAt).getTime();
+    if (runAt !== undefined && runAt < Date.now() - 60000) {
+      return NextResponse.json({ error: 'runAt is in the past' }, { status: 400 });
+    }
+
+    const url = normalizeUrl(data.url);
+    const schedule = await createSchedule({
+      name: data.name?.trim() || `${data.cron ? 'Recurring' : 'One-off'}: ${topics[0].topic}`,
+      cron: data.cron?.trim(),
+      runAt,
+      input: {
+        url,
+        keywords,
+        length: data.length,
+        additionalNotes: data.additionalNotes,
+        provider: data.provider,
+      },
+      topics,
+      loopTopics: data.loopTopics,
+      priority: data.priority,
+      clientKey: getClientKey(url, apiKey),
+    });
+
+    return NextResponse.json({
+      schedule,
+      message: `Schedule created. First run at ${new Date(schedule.nextRunAt!).toISOString()}.`,
+    });
+  } catch (error) {
+    console.error('[Schedules] Unexpected error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const limit = Math.min(100, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50));
+
+  try {
+    const schedules = await getJobStore().listSchedules({ limit });
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('[Schedules] Failed to list schedules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
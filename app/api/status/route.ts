@@ -4,42 +4,39 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { isCompletedStatus } from '@/lib/queue';
+import { getJobStore, PROCESSING_STATUSES } from '@/lib/job-store';
 
 export async function GET() {
   try {
-    const client = getSupabase();
     const now = Date.now();
     const oneHourAgo = now - 3600000; // 1 hour
 
     // Get job statistics for the last hour
-    const { data: recentJobs, error } = await client
-      .from('jobs')
-      .select('id, status, created_at, updated_at, attempts')
-      .gte('created_at', oneHourAgo);
-
-    if (error) {
+    let recentJobs;
+    try {
+      recentJobs = await getJobStore().list({ createdAfter: oneHourAgo });
+    } catch (error) {
       return NextResponse.json(
-        { error: 'Failed to fetch job statistics', details: error.message },
+        { error: 'Failed to fetch job statistics', details: error instanceof Error ? error.message : 'Unknown error' },
         { status: 500 }
       );
     }
 
     // Group jobs by status
-    const statusCounts = recentJobs?.reduce((acc, job) => {
+    const statusCounts = recentJobs.reduce((acc, job) => {
       acc[job.status] = (acc[job.status] || 0) + 1;
       return acc;
-    }, {} as Record<string, number>) || {};
+    }, {} as Record<string, number>);
 
-    // Find stuck jobs (processing for more than 10 minutes)
-    const stuckThreshold = now - 600000; // 10 minutes
-    const stuckJobs = recentJobs?.filter(job =>
-      ['crawling', 'generating', 'parsing'].includes(job.status) &&
-      job.updated_at < stuckThreshold
-    ) || [];
+    // Find stuck jobs (processing, but the worker's lease expired without a heartbeat)
+    const stuckJobs = recentJobs.filter(job =>
+      PROCESSING_STATUSES.includes(job.status) &&
+      (!job.leaseExpiresAt || job.leaseExpiresAt < now)
+    );
 
     // Find failed jobs
-    const failedJobs = recentJobs?.filter(job => job.status === 'failed') || [];
+    const failedJobs = recentJobs.filter(job => job.status === 'failed');
 
     // Environment check
     const envCheck = {
@@ -48,24 +45,27 @@ export async function GET() {
       hasSupabaseKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
       hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
       nodeEnv: process.env.NODE_ENV,
+      jobStore: process.env.JOB_STORE || 'supabase',
       vercelUrlSet: process.env.VERCEL_URL ? 'configured' : 'not set',
     };
 
     // Calculate average processing time for completed jobs
-    const completedJobs = recentJobs?.filter(job => job.status === 'completed') || [];
+    const completedJobs = recentJobs.filter(job => isCompletedStatus(job.status));
     const avgProcessingTime = completedJobs.length > 0
-      ? completedJobs.reduce((sum, job) => sum + (job.updated_at - job.created_at), 0) / completedJobs.length
+      ? completedJobs.reduce((sum, job) => sum + (job.updatedAt - job.createdAt), 0) / completedJobs.length
       : 0;
 
     return NextResponse.json({
       timestamp: now,
       lastHourStats: {
-        total: recentJobs?.length || 0,
+        total: recentJobs.length,
         byStatus: statusCounts,
         pending: statusCounts['pending'] || 0,
         processing: (statusCounts['crawling'] || 0) + (statusCounts['generating'] || 0) + (statusCounts['parsing'] || 0),
-        completed: statusCounts['completed'] || 0,
+        completed: (statusCounts['completed'] || 0) + (statusCounts['completed_with_warnings'] || 0),
+        completedWithWarnings: statusCounts['completed_with_warnings'] || 0,
         failed: statusCounts['failed'] || 0,
+        cancelled: statusCounts['cancelled'] || 0,
       },
       health: {
         stuckJobs: stuckJobs.length,
@@ -82,7 +82,7 @@ export async function GET() {
         recommendation: stuckJobs.length > 0
           ? 'Stuck jobs detected - check worker logs'
           : failedJobs.length > 3
-          ? 'Multiple failures - check API keys and Supabase connection'
+          ? 'Multiple failures - check API keys and the job store connection'
           : 'System healthy'
       }
     });
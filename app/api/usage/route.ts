@@ -0,0 +1,58 @@
+/**
+ * Token usage and cost summary
+ * GET /api/usage?from=2025-01-01&to=2025-01-31 (UTC days, inclusive)
+ * or /api/usage?days=30 (default: last 30 days)
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getUsageSummary } from '@/lib/usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD day as UTC midnight
+ */
+function parseDay(value: string | null): number | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  const fromDay = parseDay(fromParam);
+  const toDay = parseDay(toParam);
+  if ((fromParam && fromDay === null) || (toParam && toDay === null)) {
+    return NextResponse.json({ error: 'from and to must be dates in YYYY-MM-DD format' }, { status: 400 });
+  }
+
+  const days = parseInt(searchParams.get('days') || '30', 10);
+  if (Number.isNaN(days) || days < 1 || days > 366) {
+    return NextResponse.json({ error: 'days must be between 1 and 366' }, { status: 400 });
+  }
+
+  // "to" is inclusive, so the window ends at the start of the following day
+  const to = toDay !== null ? toDay + DAY_MS : Date.now();
+  const from = fromDay !== null ? fromDay : to - days * DAY_MS;
+
+  try {
+    const summary = await getUsageSummary(from, to);
+
+    return NextResponse.json({
+      ...summary,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+    });
+  } catch (error) {
+    console.error('[Usage] Error building usage summary:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
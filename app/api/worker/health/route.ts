@@ -1,106 +1,69 @@
 import { NextResponse } from 'next/server';
-import { getSupabase } from '@/lib/queue';
+import { getJobStore, JobStatus } from '@/lib/job-store';
 
 export async function GET() {
   const now = Date.now();
 
   try {
-    const supabase = getSupabase();
+    const store = getJobStore();
 
     // Get pending jobs
-    const { data: pendingJobs, error: pendingError } = await supabase
-      .from('jobs')
-      .select('id, created_at, updated_at, attempts, status')
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true });
-
-    if (pendingError) {
-      console.error('[Health] Error fetching pending jobs:', pendingError);
-    }
+    const pendingJobs = await store.list({ statuses: [JobStatus.PENDING], ascending: true });
 
     // Get recent jobs (last 10)
-    const { data: recentJobs, error: recentError } = await supabase
-      .from('jobs')
-      .select('id, status, created_at, updated_at, attempts')
-      .order('updated_at', { ascending: false })
-      .limit(10);
-
-    if (recentError) {
-      console.error('[Health] Error fetching recent jobs:', recentError);
-    }
+    const recentJobs = await store.list({ orderBy: 'updatedAt', limit: 10 });
 
     // Get stuck jobs (pending or crawling for >5 mins)
-    const fiveMinutesAgo = new Date(now - 5 * 60 * 1000).toISOString();
-    const { data: stuckJobs, error: stuckError } = await supabase
-      .from('jobs')
-      .select('id, status, created_at, updated_at, attempts')
-      .in('status', ['pending', 'crawling'])
-      .lt('updated_at', fiveMinutesAgo);
-
-    if (stuckError) {
-      console.error('[Health] Error fetching stuck jobs:', stuckError);
-    }
+    const stuckJobs = await store.list({
+      statuses: [JobStatus.PENDING, JobStatus.CRAWLING],
+      updatedBefore: now - 5 * 60 * 1000,
+    });
 
     // Get jobs by status
-    const { data: statusCounts, error: statusError } = await supabase
-      .from('jobs')
-      .select('status');
-
-    const statusDistribution: Record<string, number> = {};
-    if (statusCounts && !statusError) {
-      statusCounts.forEach((job) => {
-        statusDistribution[job.status] = (statusDistribution[job.status] || 0) + 1;
-      });
-    }
+    const statusDistribution = await store.countByStatus();
 
-    const lastRunTime = recentJobs?.[0]?.updated_at
-      ? new Date(recentJobs[0].updated_at).toISOString()
-      : null;
+    const lastRunTime = recentJobs[0] ? new Date(recentJobs[0].updatedAt).toISOString() : null;
 
-    const oldestPendingJob = pendingJobs?.[0];
-    const oldestPendingAge = oldestPendingJob
-      ? now - new Date(oldestPendingJob.created_at).getTime()
-      : null;
+    const oldestPendingJob = pendingJobs[0];
+    const oldestPendingAge = oldestPendingJob ? now - oldestPendingJob.createdAt : null;
 
     return NextResponse.json({
       health: {
-        status: (stuckJobs?.length || 0) > 0 ? '⚠️ WARNING' : '✅ HEALTHY',
+        status: stuckJobs.length > 0 ? '⚠️ WARNING' : '✅ HEALTHY',
         timestamp: new Date(now).toISOString(),
       },
       queue: {
-        pendingCount: pendingJobs?.length || 0,
-        stuckCount: stuckJobs?.length || 0,
+        pendingCount: pendingJobs.length,
+        stuckCount: stuckJobs.length,
         oldestPendingJob: oldestPendingJob
           ? {
               id: oldestPendingJob.id,
-              createdAt: new Date(oldestPendingJob.created_at).toISOString(),
+              createdAt: new Date(oldestPendingJob.createdAt).toISOString(),
               ageMinutes: Math.floor((oldestPendingAge || 0) / 60000),
               attempts: oldestPendingJob.attempts,
             }
           : null,
       },
       jobs: {
-        pending: pendingJobs?.map((job) => ({
+        pending: pendingJobs.map((job) => ({
           id: job.id,
-          createdAt: new Date(job.created_at).toISOString(),
-          updatedAt: new Date(job.updated_at).toISOString(),
-          ageMinutes: Math.floor((now - new Date(job.created_at).getTime()) / 60000),
+          createdAt: new Date(job.createdAt).toISOString(),
+          updatedAt: new Date(job.updatedAt).toISOString(),
+          ageMinutes: Math.floor((now - job.createdAt) / 60000),
           attempts: job.attempts,
         })),
-        stuck: stuckJobs?.map((job) => ({
+        stuck: stuckJobs.map((job) => ({
           id: job.id,
           status: job.status,
-          createdAt: new Date(job.created_at).toISOString(),
-          updatedAt: new Date(job.updated_at).toISOString(),
-          stuckForMinutes: Math.floor(
-            (now - new Date(job.updated_at).getTime()) / 60000
-          ),
+          createdAt: new Date(job.createdAt).toISOString(),
+          updatedAt: new Date(job.updatedAt).toISOString(),
+          stuckForMinutes: Math.floor((now - job.updatedAt) / 60000),
           attempts: job.attempts,
         })),
-        recent: recentJobs?.slice(0, 5).map((job) => ({
+        recent: recentJobs.slice(0, 5).map((job) => ({
           id: job.id,
           status: job.status,
-          updatedAt: new Date(job.updated_at).toISOString(),
+          updatedAt: new Date(job.updatedAt).toISOString(),
           attempts: job.attempts,
         })),
       },
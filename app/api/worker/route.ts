@@ -3,21 +3,55 @@
  * Can be called manually or via cron job
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  getNextPendingJob,
+  claimJob,
+  getJob,
+  startLeaseHeartbeat,
   updateJob,
   completeJob,
   failJob,
-  incrementJobAttempt,
   resetStuckJobs,
   cleanupOldJobs,
   hasPendingJobs,
+  createPartialContentWriter,
+  isJobCancelled,
+  watchForCancellation,
   JobStatus,
 } from '@/lib/queue';
 import { crawl } from '@/lib/scrape';
-import { generateWithRefinement } from '@/lib/ai';
-import { parseSections } from '@/lib/parse';
+import { buildRankedContext } from '@/lib/retrieval';
+import { getCrawlCache } from '@/lib/crawl-cache';
+import {
+  generateSectioned,
+  generateWithRefinement,
+  isGenerationPaused,
+  parseWithRecovery,
+  reviseUntilAccepted,
+  type GenerationResult,
+} from '@/lib/ai';
+import { getSectionedThreshold } from '@/lib/outline';
+import { getContentProvider } from '@/lib/providers';
+import { isModelError } from '@/lib/providers/errors';
+import { domainFromUrl, recordModelCall } from '@/lib/usage';
+import { applySiteFactsToSchema, emptySiteFacts, formatSiteFacts, hasSiteFacts } from '@/lib/facts';
+import { formatFaq, mergeFaqPageSchema } from '@/lib/faq';
+import { validateSchema } from '@/lib/schema-validation';
+import { scoreSeo } from '@/lib/seo-score';
+import { checkGrounding } from '@/lib/grounding';
+import { sourceToPage } from '@/lib/sources';
+import { wordCount } from '@/lib/normalize';
+import { checkpointsBefore, firstIncompleteStage, JOB_STAGES } from '@/lib/checkpoints';
+import { runDueSchedules } from '@/lib/schedules';
+import type {
+  AcceptanceFailure,
+  CrawlResult,
+  JobCheckpoints,
+  JobStage,
+  ParsedSections,
+  Passage,
+} from '@/lib/typing';
 
 export const maxDuration = 300; // 5 minutes for worker
 
@@ -54,7 +88,7 @@ export async function POST(request: NextRequest) {
     console.log('='.repeat(60));
 
     // Perform maintenance tasks before processing
-    const stuckCount = await resetStuckJobs(600000); // Reset jobs stuck for 10+ minutes
+    const stuckCount = await resetStuckJobs(); // Requeue jobs whose worker stopped sending heartbeats
     const cleanedCount = await cleanupOldJobs(86400000); // Cleanup jobs older than 24 hours
 
     if (stuckCount > 0) {
@@ -64,111 +98,348 @@ export async function POST(request: NextRequest) {
       console.log(`[Worker] Cleaned up ${cleanedCount} old jobs`);
     }
 
-    // Get next job from queue (or use forced job)
-    let jobId: string | null;
+    // Queue the jobs of schedules that are due (the per-minute cron keeps them on time)
+    try {
+      const scheduledJobIds = await runDueSchedules();
+      if (scheduledJobIds.length > 0) {
+        console.log(`[Worker] Queued ${scheduledJobIds.length} scheduled job(s)`);
+      }
+    } catch (error) {
+      console.warn('[Worker] Running due schedules failed:', error);
+    }
 
+    // Drop crawl cache entries that have not been revalidated for a week
+    try {
+      const prunedCount = (await getCrawlCache()?.prune(7 * 86400000)) || 0;
+      if (prunedCount > 0) {
+        console.log(`[Worker] Pruned ${prunedCount} crawl cache entries`);
+      }
+    } catch (error) {
+      console.warn('[Worker] Crawl cache prune failed:', error);
+    }
+
+    // Claim the next job from the queue (or the forced one); the claim is atomic,
+    // so a job triggered by cron, auto-trigger and a manual call runs only once
+    const workerId = randomUUID();
     if (finalForceJobId) {
-      // Force process specific job
-      console.log(`[Worker] FORCE MODE: Processing specific job: ${finalForceJobId}`);
-      jobId = finalForceJobId;
-    } else {
-      // Normal queue processing
-      jobId = await getNextPendingJob();
+      console.log(`[Worker] FORCE MODE: Claiming specific job: ${finalForceJobId}`);
     }
+    const job = await claimJob(workerId, finalForceJobId || undefined);
 
-    if (!jobId) {
-      console.log('[Worker] No pending jobs in queue');
+    if (!job) {
+      const message = finalForceJobId
+        ? 'Job is not pending or is already claimed by another worker'
+        : (await hasPendingJobs())
+          ? 'Pending jobs are waiting for a free slot on their domain (DOMAIN_CONCURRENCY)'
+          : 'No pending jobs';
+      console.log(`[Worker] ${message}`);
       return NextResponse.json({
-        message: 'No pending jobs',
+        message,
         timestamp: new Date().toISOString()
       });
     }
 
-    console.log(`[Worker] Processing job ${jobId} (forced: ${!!finalForceJobId})`);
+    const jobId = job.id;
+    const { url, topic, keywords, length, additionalNotes, sources } = job.input;
 
-    // Get job details
-    const { getJob } = await import('@/lib/queue');
-    const job = await getJob(jobId);
+    console.log(`[Worker] Job ${jobId}: Attempt ${job.attempts}, Processing... (forced: ${!!finalForceJobId})`);
 
-    if (!job) {
-      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
-    }
-
-    const { url, topic, keywords, length, additionalNotes } = job.input;
+    // Keep the lease alive through long crawls and model calls
+    const heartbeat = startLeaseHeartbeat(jobId, workerId);
 
-    // Increment attempt counter
-    await incrementJobAttempt(jobId);
+    // Cancelling the job aborts the in-flight model request; between stages the
+    // status is checked directly, so a cancelled crawl stops before generating
+    const cancellation = new AbortController();
+    const cancelWatch = watchForCancellation(jobId, () => cancellation.abort());
+    const throwIfCancelled = async () => {
+      if (cancellation.signal.aborted || (await isJobCancelled(jobId))) {
+        cancellation.abort();
+        throw new Error('Job cancelled');
+      }
+    };
 
-    console.log(`[Worker] Job ${jobId}: Attempt ${job.attempts + 1}, Processing...`);
+    // Stages that finished on an earlier run are skipped and their output is read
+    // from the checkpoint; every stage saves its own checkpoint when it finishes
+    const resumeFrom = firstIncompleteStage(job.checkpoints);
+    const checkpoints: JobCheckpoints = resumeFrom ? checkpointsBefore(job.checkpoints, resumeFrom) : { ...job.checkpoints };
+    let stage: JobStage | 'complete' = 'crawl';
 
     try {
-      // Stage 1: Analyzing Homepage
-      await updateJob(jobId, {
-        status: JobStatus.CRAWLING,
-        progress: 10,
-        message: `Analyzing homepage: ${url}`,
-      });
+      const provider = getContentProvider(job.input.provider);
 
-      const maxPages = parseInt(process.env.SCRAPE_MAX_PAGES || '5', 10);
-      const concurrency = parseInt(process.env.SCRAPE_CONCURRENCY || '3', 10);
-      const timeoutMs = parseInt(process.env.SCRAPE_TIMEOUT_MS || '8000', 10);
+      if (resumeFrom !== 'crawl') {
+        console.log(`[Worker] Job ${jobId}: Resuming after checkpoints for ${Object.keys(checkpoints).join(', ')}`);
+      }
+      const saveCheckpoint = <K extends JobStage>(stage: K, value: JobCheckpoints[K]) => {
+        checkpoints[stage] = value;
+        return updateJob(jobId, { checkpoints });
+      };
 
-      const crawlResult = await crawl(url, maxPages, concurrency, timeoutMs);
-      const crawlDuration = Date.now() - startTime;
+      // Stage 1: Crawling website (skipped when the job only has source documents)
+      let crawlResult: CrawlResult = { pages: [], documents: [], facts: emptySiteFacts() };
 
-      console.log(`[Worker] Job ${jobId}: Homepage analyzed in ${crawlDuration}ms`);
+      if (checkpoints.crawl) {
+        crawlResult = checkpoints.crawl.result;
+        if (url) {
+          console.log(`[Worker] Job ${jobId}: Reusing ${crawlResult.documents.length} crawled page(s) from the checkpoint`);
+        }
+      } else if (url) {
+        await updateJob(jobId, {
+          status: JobStatus.CRAWLING,
+          progress: 10,
+          message: `Crawling website: ${url}`,
+        });
 
-      await updateJob(jobId, {
-        status: JobStatus.CRAWLING,
-        progress: 30,
-        message: `Homepage analyzed successfully`,
-      });
+        const maxPages = parseInt(process.env.SCRAPE_MAX_PAGES || '5', 10);
+        const concurrency = parseInt(process.env.SCRAPE_CONCURRENCY || '3', 10);
+        const timeoutMs = parseInt(process.env.SCRAPE_TIMEOUT_MS || '8000', 10);
 
-      // Stage 2: AI Generation
-      await updateJob(jobId, {
-        status: JobStatus.GENERATING,
-        progress: 40,
-        message: 'Generating SEO content with AI...',
-      });
+        crawlResult = await crawl(url, maxPages, concurrency, timeoutMs);
+        const crawlDuration = Date.now() - startTime;
 
-      // Use homepage context directly (already optimized in scrape.ts)
-      const context = crawlResult.context;
-      console.log(`[Worker] Job ${jobId}: Homepage context length: ${context.length} characters (~${Math.round(context.length / 5)} words)`);
+        const cachedCount = crawlResult.documents.filter((page) => page.fromCache).length;
+        console.log(`[Worker] Job ${jobId}: Crawled ${crawlResult.documents.length} pages (${cachedCount} from cache) in ${crawlDuration}ms`);
 
-      const finalText = await generateWithRefinement(
-        context,
+        await updateJob(jobId, {
+          status: JobStatus.CRAWLING,
+          progress: 30,
+          message: `Crawled ${crawlResult.documents.length} page(s) successfully${cachedCount > 0 ? ` (${cachedCount} from cache)` : ''}`,
+        });
+      }
+      if (!checkpoints.crawl) {
+        await saveCheckpoint('crawl', { result: crawlResult, at: Date.now() });
+      }
+
+      // Client-supplied sources are ranked together with the crawled pages
+      const sourcePages = (sources || []).map(sourceToPage);
+      if (sourcePages.length > 0) {
+        console.log(`[Worker] Job ${jobId}: Adding ${sourcePages.length} source document(s) to the context`);
+      }
+
+      // Rank scraped passages against the topic and keywords within the token budget
+      const tokenBudget = parseInt(process.env.CONTEXT_TOKEN_BUDGET || '6000', 10);
+      const ranked = buildRankedContext(
+        [...crawlResult.documents, ...sourcePages],
         topic,
         keywords,
-        length,
-        additionalNotes
+        tokenBudget
       );
+      const context = ranked.context;
+      console.log(`[Worker] Job ${jobId}: Site context length: ${context.length} characters (~${Math.round(context.length / 5)} words)`);
+
+      // Stage 2: AI Generation (the raw model text is checkpointed, so a retry only re-parses)
+      const sectioned = length >= getSectionedThreshold();
+      const timeBudgetMs = parseInt(process.env.WORKER_TIME_BUDGET_MS || '240000', 10);
+      let generation: GenerationResult;
+
+      stage = 'generate';
+      await throwIfCancelled();
+      if (checkpoints.generate) {
+        const { text, model, fallback, parsed } = checkpoints.generate;
+        generation = { text, model, fallback, parsed };
+        console.log(`[Worker] Job ${jobId}: Reusing generated text from the checkpoint (${model})`);
+      } else {
+        await updateJob(jobId, {
+          status: JobStatus.GENERATING,
+          progress: 40,
+          message: `Generating SEO content with ${provider.model}...`,
+        });
 
-      const genDuration = Date.now() - startTime;
-      console.log(`[Worker] Job ${jobId}: AI generation completed in ${genDuration}ms`);
+        // Persist streamed text periodically so the UI can show the article as it is written
+        const partialWriter = createPartialContentWriter(
+          jobId,
+          (text) => {
+            const words = wordCount(text);
+            return {
+              progress: 40 + Math.min(39, Math.floor((words / length) * 39)),
+              message: `Writing content with ${provider.model}... (${words} words so far)`,
+            };
+          },
+          parseInt(process.env.STREAM_PERSIST_INTERVAL_MS || '1500', 10)
+        );
+
+        // Long articles are written outline-first, one section per call, with a
+        // checkpoint after every stage so a later run can resume where this one stopped
+        if (sectioned && job.generationState) {
+          console.log(`[Worker] Job ${jobId}: Resuming sectioned generation with ${job.generationState.sections.length} finished section(s)`);
+        }
+
+        try {
+          generation = await (sectioned ? generateSectioned : generateWithRefinement)(
+            context,
+            topic,
+            keywords,
+            length,
+            additionalNotes,
+            crawlResult.facts,
+            {
+              provider,
+              onCall: (call) => recordModelCall(jobId, domainFromUrl(url), call),
+              onText: partialWriter.push,
+              state: job.generationState,
+              onCheckpoint: async (state) => {
+                await updateJob(jobId, {
+                  generationState: state,
+                  message: state.outline
+                    ? `Wrote ${state.sections.length}/${state.outline.sections.length + 1} sections`
+                    : 'Outline ready',
+                });
+              },
+              deadlineAt: startTime + timeBudgetMs,
+              signal: cancellation.signal,
+            }
+          );
+        } finally {
+          await partialWriter.stop();
+        }
+        const genDuration = Date.now() - startTime;
+        console.log(`[Worker] Job ${jobId}: AI generation completed in ${genDuration}ms with ${generation.model}`);
+
+        await saveCheckpoint('generate', {
+          text: generation.text,
+          model: generation.model,
+          fallback: generation.fallback,
+          parsed: generation.parsed,
+          at: Date.now(),
+        });
+      }
+      const finalText = generation.text;
+      const modelNote = generation.fallback
+        ? `${generation.model} (fallback from ${provider.model})`
+        : generation.model;
 
       await updateJob(jobId, {
         status: JobStatus.GENERATING,
         progress: 80,
-        message: 'Content generated successfully',
+        message: `Content generated successfully with ${modelNote}`,
       });
 
       // Stage 3: Parsing
+      stage = 'parse';
+      await throwIfCancelled();
       await updateJob(jobId, {
         status: JobStatus.PARSING,
         progress: 90,
         message: 'Parsing and formatting content...',
       });
 
-      const parsed = parseSections(finalText);
+      // Structured output is already validated; marker text is parsed in recovery mode,
+      // regenerating only the sections that are missing
+      let parsed: ParsedSections;
+      let warnings: string[] = [];
+      if (checkpoints.parse) {
+        parsed = checkpoints.parse.parsed;
+        warnings = [...checkpoints.parse.warnings];
+      } else {
+        try {
+          if (generation.parsed) {
+            parsed = generation.parsed;
+          } else {
+            ({ parsed, warnings } = await parseWithRecovery(finalText, topic, keywords, crawlResult.facts, {
+              provider,
+              onCall: (call) => recordModelCall(jobId, domainFromUrl(url), call),
+              signal: cancellation.signal,
+            }));
+          }
+        } catch (error) {
+          // Let the retry redo only the meta/FAQ/schema stage instead of the whole article
+          const state = generation.state || (sectioned ? job.generationState : undefined);
+          if (state) {
+            delete checkpoints.generate;
+            await updateJob(jobId, { generationState: { ...state, assembly: undefined }, checkpoints });
+          }
+          throw error;
+        }
+        await saveCheckpoint('parse', { parsed, warnings: [...warnings], at: Date.now() });
+      }
+
+      // Acceptance checks (length, meta lengths, keywords, forbidden topics); failing
+      // aspects get a bounded number of targeted revisions, the rest ship as warnings
+      let unresolved: AcceptanceFailure[];
+      stage = 'revise';
+      await throwIfCancelled();
+      if (checkpoints.revise) {
+        ({ parsed, unresolved } = checkpoints.revise);
+      } else {
+        const revision = await reviseUntilAccepted(
+          parsed,
+          context,
+          { keywords, targetLength: length, additionalNotes },
+          crawlResult.facts,
+          {
+            provider,
+            onCall: (call) => recordModelCall(jobId, domainFromUrl(url), call),
+            deadlineAt: startTime + timeBudgetMs,
+            signal: cancellation.signal,
+            onRevision: async (revisions) => {
+              await updateJob(jobId, {
+                revisions,
+                message: `Revision ${revisions.length}: ${revisions[revisions.length - 1].remaining.length === 0 ? 'all checks pass' : 'checks still failing'}`,
+              });
+            },
+          }
+        );
+        ({ parsed, unresolved } = revision);
+        if (unresolved.length > 0) {
+          console.warn(`[Worker] Job ${jobId}: Acceptance checks still failing after ${revision.attempts.length} revision(s)`);
+        }
+        await saveCheckpoint('revise', { parsed, unresolved, at: Date.now() });
+      }
+      warnings.push(...unresolved.map((failure) => `acceptance check failed: ${failure.message}`));
+      stage = 'complete';
+
+      // Replace guessed business details in the schema with extracted site facts, and
+      // the model's FAQPage with one built from the parsed pairs so both always match
+      const factSchema = hasSiteFacts(crawlResult.facts)
+        ? applySiteFactsToSchema(parsed.schemaJson, crawlResult.facts)
+        : parsed.schemaJson;
+      const schemaJson = mergeFaqPageSchema(factSchema, parsed.faq);
+      const schemaJsonString = JSON.stringify(schemaJson, null, 2);
+
+      const schemaReport = validateSchema(schemaJson);
+      if (!schemaReport.valid) {
+        console.warn(`[Worker] Job ${jobId}: Schema has ${schemaReport.errorCount} error(s), ${schemaReport.warningCount} warning(s)`);
+      }
+
+      const seoReport = scoreSeo(parsed, keywords, length);
+      console.log(`[Worker] Job ${jobId}: SEO score ${seoReport.score}/100`);
+
+      // Check the article's claims against what the model was given: the ranked
+      // passages, the site facts block and the job's own brief
+      const groundingSources: Passage[] = [...ranked.passages];
+      if (hasSiteFacts(crawlResult.facts)) {
+        groundingSources.push({
+          id: groundingSources.length,
+          url: url || '',
+          title: 'Site facts',
+          text: formatSiteFacts(crawlResult.facts),
+          position: 0,
+        });
+      }
+      groundingSources.push({
+        id: groundingSources.length,
+        url: '',
+        title: topic,
+        text: [keywords.join(', '), additionalNotes || ''].join('\n'),
+        position: 0,
+      });
+      const groundingReport = checkGrounding(parsed.contentMarkdown, groundingSources);
+      if (groundingReport.unsupported + groundingReport.contradicted > 0) {
+        console.warn(`[Worker] Job ${jobId}: ${groundingReport.unsupported} unsupported and ${groundingReport.contradicted} contradicted claim(s) of ${groundingReport.claimCount}`);
+      }
 
       // Complete job
       const resultData = {
         metaTitle: parsed.metaTitle,
         metaDescription: parsed.metaDescription,
         contentMarkdown: parsed.contentMarkdown,
-        faqRaw: parsed.faqRaw,
-        schemaJsonString: parsed.schemaJsonString,
-        pages: crawlResult.pages,
+        faqRaw: formatFaq(parsed.faq),
+        faq: parsed.faq,
+        schemaJsonString,
+        schemaReport,
+        seoReport,
+        groundingReport,
+        pages: ranked.pages,
       };
 
       console.log(`[Worker] Job ${jobId}: Completing with result data:`, {
@@ -182,7 +453,35 @@ export async function POST(request: NextRequest) {
         contentLength: resultData.contentMarkdown?.length || 0,
       });
 
-      await completeJob(jobId, resultData);
+      if (warnings.length > 0) {
+        console.warn(`[Worker] Job ${jobId}: Output needed repairs: ${warnings.join('; ')}`);
+      }
+      if (heartbeat.lost()) {
+        throw new Error('Lease lost - another worker took over this job');
+      }
+      await throwIfCancelled();
+      const completed = await completeJob(
+        jobId,
+        resultData,
+        warnings.length > 0
+          ? `Content generation completed with ${warnings.length} warning(s) using ${modelNote}`
+          : `Content generation completed successfully with ${modelNote}`,
+        warnings,
+        { leaseOwner: workerId }
+      );
+      if (!completed) {
+        // Cancelled or taken over between the last check and the write - the result is dropped
+        console.warn(`[Worker] Job ${jobId}: Result not saved (cancelled or lease lost)`);
+        return NextResponse.json(
+          {
+            success: false,
+            jobId,
+            error: 'Job was cancelled or taken over before the result was saved',
+            willRetry: false,
+          },
+          { status: 409 }
+        );
+      }
 
       const totalDuration = Date.now() - startTime;
       console.log(`[Worker] Job ${jobId}: Completed in ${totalDuration}ms`);
@@ -193,6 +492,69 @@ export async function POST(request: NextRequest) {
         duration: totalDuration,
       });
     } catch (error) {
+      // The job was requeued or reclaimed after our lease expired - it isn't ours to update
+      if (heartbeat.lost()) {
+        console.warn(`[Worker] Job ${jobId}: Lease lost, leaving the job to its new owner`);
+        return NextResponse.json(
+          {
+            success: false,
+            jobId,
+            error: 'Lease lost - another worker took over this job',
+            willRetry: false,
+          },
+          { status: 409 }
+        );
+      }
+
+      // Cancelled: record how far the job got and release the lease; finished stages
+      // stay checkpointed for a rerun (read back, as writes after the cancel were dropped)
+      if (cancellation.signal.aborted) {
+        const saved = (await getJob(jobId))?.checkpoints || {};
+        const finishedStages = JOB_STAGES.filter((name) => saved[name]);
+        const reached = stage === 'complete' ? 'before the result was saved' : `during the ${stage} stage`;
+        await updateJob(jobId, {
+          status: JobStatus.CANCELLED,
+          message: `Cancelled ${reached}${finishedStages.length > 0 ? ` (finished: ${finishedStages.join(', ')})` : ''}`,
+          leaseOwner: '',
+        });
+
+        console.log(`[Worker] Job ${jobId}: Cancelled ${reached}`);
+
+        return NextResponse.json({
+          success: true,
+          jobId,
+          cancelled: true,
+          stage,
+          finishedStages,
+          duration: Date.now() - startTime,
+        });
+      }
+
+      // Out of time mid-pipeline: progress is checkpointed, so requeue without using up a retry
+      if (isGenerationPaused(error)) {
+        const message = error instanceof Error ? error.message : 'Paused';
+        // Only while this worker still holds the job; a cancelled job stays cancelled
+        const requeued = await updateJob(
+          jobId,
+          {
+            status: JobStatus.PENDING,
+            attempts: job.attempts - 1,
+            message: `${message} - resuming on the next worker run`,
+            leaseOwner: '',
+          },
+          { leaseOwner: workerId }
+        );
+
+        console.log(`[Worker] Job ${jobId}: ${message}; ${requeued ? 'requeued' : 'not requeued (cancelled or lease lost)'}`);
+
+        return NextResponse.json({
+          success: true,
+          jobId,
+          paused: true,
+          duration: Date.now() - startTime,
+        });
+      }
+
       console.error(`[Worker] Job ${jobId} failed:`, error);
 
       // Build detailed error message
@@ -203,36 +565,71 @@ export async function POST(request: NextRequest) {
         console.error(`[Worker] Job ${jobId} error stack:`, error.stack);
       }
 
-      // Check if we should retry
+      // Check if we should retry - fatal model errors (bad key, invalid request) never recover
       const MAX_RETRIES = 3;
-      if (job.attempts + 1 < MAX_RETRIES) {
-        // Reset to pending for retry
-        await updateJob(jobId, {
-          status: JobStatus.PENDING,
-          progress: 0,
-          message: `Retry attempt ${job.attempts + 2}/${MAX_RETRIES} - Error: ${errorMessage.substring(0, 100)}`,
-        });
+      const fatal = isModelError(error) && error.kind === 'fatal';
+      if (fatal) {
+        const failed = await failJob(jobId, errorMessage, { leaseOwner: workerId });
+
+        console.log(
+          failed
+            ? `[Worker] Job ${jobId}: Failed with a non-retryable error`
+            : `[Worker] Job ${jobId}: Not marked failed (cancelled or lease lost)`
+        );
+
+        return NextResponse.json(
+          {
+            success: false,
+            jobId,
+            error: errorMessage,
+            willRetry: false,
+          },
+          { status: 500 }
+        );
+      } else if (job.attempts < MAX_RETRIES) {
+        // Reset to pending for retry - only while this worker still holds the job,
+        // so a job cancelled while the attempt was failing isn't requeued
+        const requeued = await updateJob(
+          jobId,
+          {
+            status: JobStatus.PENDING,
+            progress: 0,
+            partialContent: '',
+            message: `Retry attempt ${job.attempts + 1}/${MAX_RETRIES} - Error: ${errorMessage.substring(0, 100)}`,
+            leaseOwner: '',
+          },
+          { leaseOwner: workerId }
+        );
 
-        console.log(`[Worker] Job ${jobId}: Queued for retry (attempt ${job.attempts + 2}/${MAX_RETRIES})`);
+        console.log(
+          requeued
+            ? `[Worker] Job ${jobId}: Queued for retry (attempt ${job.attempts + 1}/${MAX_RETRIES})`
+            : `[Worker] Job ${jobId}: Not retried (cancelled or lease lost)`
+        );
 
         return NextResponse.json(
           {
             success: false,
             jobId,
             error: errorMessage,
-            willRetry: true,
-            nextAttempt: job.attempts + 2,
+            willRetry: requeued,
+            nextAttempt: job.attempts + 1,
           },
           { status: 500 }
         );
       } else {
         // Max retries reached, mark as failed
-        await failJob(
+        const failed = await failJob(
           jobId,
-          `Failed after ${MAX_RETRIES} attempts. Last error: ${errorMessage}`
+          `Failed after ${MAX_RETRIES} attempts. Last error: ${errorMessage}`,
+          { leaseOwner: workerId }
         );
 
-        console.log(`[Worker] Job ${jobId}: Failed after ${MAX_RETRIES} attempts`);
+        console.log(
+          failed
+            ? `[Worker] Job ${jobId}: Failed after ${MAX_RETRIES} attempts`
+            : `[Worker] Job ${jobId}: Not marked failed (cancelled or lease lost)`
+        );
 
         return NextResponse.json(
           {
@@ -244,6 +641,9 @@ export async function POST(request: NextRequest) {
           { status: 500 }
         );
       }
+    } finally {
+      heartbeat.stop();
+      cancelWatch.stop();
     }
   } catch (error) {
     console.error('[Worker] Unexpected error:', error);
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import BatchForm from '@/components/BatchForm';
+import BatchView from '@/components/BatchView';
+import type { BatchProgress } from '@/lib/typing';
+
+interface BatchListItem {
+  id: string;
+  name: string;
+  createdAt: number;
+  jobCount: number;
+  progress: BatchProgress;
+}
+
+export default function BatchPage() {
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batches, setBatches] = useState<BatchListItem[]>([]);
+
+  // Recent batches, refreshed whenever one is created or opened
+  useEffect(() => {
+    fetch('/api/batches', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data) => setBatches(data.batches || []))
+      .catch((error) => console.error('[Batch] Failed to list batches:', error));
+  }, [batchId]);
+
+  return (
+    <main className="container">
+      <header className="header">
+        <h1>Bulk Generation</h1>
+        <p className="subtitle">
+          One article per CSV or JSON row, run through the job queue - <a href="/">back to single articles</a>
+        </p>
+      </header>
+
+      <BatchForm onCreated={setBatchId} />
+
+      {batchId && <BatchView key={batchId} batchId={batchId} />}
+
+      {batches.length > 0 && (
+        <div className="batch-list">
+          <h2 className="section-heading">Recent Batches</h2>
+          <ul>
+            {batches.map((batch) => (
+              <li key={batch.id}>
+                <button type="button" className="batch-list-item" onClick={() => setBatchId(batch.id)}>
+                  <strong>{batch.name}</strong> - {batch.progress.done}/{batch.jobCount} done
+                  {batch.progress.failed > 0 ? `, ${batch.progress.failed} failed` : ''}
+                  {batch.progress.queued + batch.progress.running > 0 ? ', in progress' : ''}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -13,6 +13,7 @@ export default function Home() {
   const [result, setResult] = useState<GenerateResponse | null>(null);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
+  const [partialContent, setPartialContent] = useState('');
 
   const handleSuccess = (data: GenerateResponse) => {
     setResult(data);
@@ -36,6 +37,9 @@ export default function Home() {
         <p className="subtitle">
           Generate optimized content using your website context and Anthropic Claude
         </p>
+        <p className="header-link">
+          Writing many pages? <a href="/batch">Generate in bulk from a CSV or JSON file</a>
+        </p>
       </header>
 
       <Form
@@ -43,6 +47,7 @@ export default function Home() {
         onError={handleError}
         onLoadingChange={setLoading}
         onProgressUpdate={handleProgressUpdate}
+        onPartialContent={setPartialContent}
       />
 
       {error && (
@@ -51,7 +56,7 @@ export default function Home() {
         </div>
       )}
 
-      {loading && <Loading progress={progress} message={progressMessage} />}
+      {loading && <Loading progress={progress} message={progressMessage} partialContent={partialContent} />}
 
       {result && !loading && (
         <ResultView
@@ -60,8 +65,14 @@ export default function Home() {
           metaDescription={result.metaDescription}
           contentMarkdown={result.contentMarkdown}
           faqRaw={result.faqRaw}
+          faq={result.faq}
           schemaJsonString={result.schemaJsonString}
+          schemaReport={result.schemaReport}
+          seoReport={result.seoReport}
+          groundingReport={result.groundingReport}
           sources={result.pages}
+          warnings={result.warnings}
+          revisions={result.revisions}
         />
       )}
 
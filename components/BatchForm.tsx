@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProviderName } from '@/lib/typing';
+
+interface BatchFormProps {
+  onCreated: (batchId: string) => void;
+}
+
+/**
+ * Upload or paste batch rows (CSV with a header row, or a JSON array)
+ */
+export default function BatchForm({ onCreated }: BatchFormProps) {
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [content, setContent] = useState('');
+  const [provider, setProvider] = useState<ProviderName | ''>('');
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Load a .csv or .json file into the textarea; the extension picks the format
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setContent(await file.text());
+    if (!name) {
+      setName(file.name.replace(/\.(csv|json)$/i, ''));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) {
+      setErrors(['Add a CSV or JSON file, or paste the rows']);
+      return;
+    }
+
+    setSubmitting(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name || undefined,
+          format,
+          content,
+          provider: provider || undefined,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setErrors([data.error || 'Failed to create batch', ...(data.details || [])]);
+        return;
+      }
+
+      console.log(`[BatchForm] Batch created: ${data.batchId} (${data.jobIds?.length || 0} jobs)`);
+      setContent('');
+      setName('');
+      onCreated(data.batchId);
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'An unexpected error occurred']);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="form">
+      <div className="form-group">
+        <label htmlFor="batchName">Batch Name (Optional)</label>
+        <input
+          id="batchName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Acme Roofing - service pages"
+          disabled={submitting}
+          maxLength={120}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="batchFile">Rows File</label>
+        <input id="batchFile" type="file" accept=".csv,.json" onChange={handleFile} disabled={submitting} />
+        <small className="form-hint">
+          CSV with a header row, or a JSON array of objects. Columns: url, topic, keywords (comma-separated - quote the
+          field in CSV), length (default 1500) and notes. Up to 100 rows.
+        </small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="batchContent">
+          Rows <span className="required">*</span>
+        </label>
+        <select
+          id="batchFormat"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as 'csv' | 'json')}
+          disabled={submitting}
+          aria-label="Rows format"
+        >
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <textarea
+          id="batchContent"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder={'url,topic,keywords,length,notes\nhttps://example.com,Roof repair in Austin,"roof repair, austin roofer",1500,'}
+          disabled={submitting}
+          rows={8}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="batchProvider">Model Provider</label>
+        <select
+          id="batchProvider"
+          value={provider}
+          onChange={(e) => setProvider(e.target.value as ProviderName | '')}
+          disabled={submitting}
+        >
+          <option value="">Server default</option>
+          <option value="anthropic">Anthropic Claude</option>
+          <option value="openai">OpenAI-compatible endpoint</option>
+        </select>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="error-message" role="alert">
+          <strong>Error:</strong> {errors[0]}
+          {errors.length > 1 && (
+            <ul className="batch-errors">
+              {errors.slice(1).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button type="submit" disabled={submitting} className="submit-button">
+        {submitting ? 'Creating batch...' : 'Create Batch'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { BatchDetails } from '@/lib/typing';
+
+interface BatchViewProps {
+  batchId: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Live progress of one batch with its jobs, retry-failed and download-all actions
+ * Polls the batch until nothing is queued or running
+ */
+export default function BatchView({ batchId }: BatchViewProps) {
+  const [batch, setBatch] = useState<(BatchDetails & { finished: boolean }) | null>(null);
+  const [error, setError] = useState('');
+  const [retrying, setRetrying] = useState(false);
+  const [pollKey, setPollKey] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/batches/${batchId}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load batch');
+        return null;
+      }
+      setError('');
+      setBatch(data);
+      return data as BatchDetails & { finished: boolean };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load batch');
+      return null;
+    }
+  }, [batchId]);
+
+  useEffect(() => {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const data = await load();
+      if (!stopped && !data?.finished) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [load, pollKey]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const response = await fetch(`/api/batches/${batchId}/retry`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to retry');
+      } else {
+        // Poll again now that jobs are queued
+        setPollKey((key) => key + 1);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (!batch) {
+    return error ? (
+      <div className="error-message" role="alert">
+        <strong>Error:</strong> {error}
+      </div>
+    ) : (
+      <p className="loading-text">Loading batch...</p>
+    );
+  }
+
+  const { progress } = batch;
+  const stopped = progress.done + progress.failed + progress.cancelled;
+  const percent = progress.total > 0 ? Math.round((stopped / progress.total) * 100) : 0;
+
+  return (
+    <div className="batch-view">
+      <div className="section-heading-wrapper">
+        <h2 className="section-heading">{batch.name}</h2>
+        <div className="batch-actions">
+          <button
+            type="button"
+            className="export-word-button"
+            onClick={handleRetry}
+            disabled={retrying || progress.failed === 0}
+          >
+            {retrying ? 'Retrying...' : `Retry failed (${progress.failed})`}
+          </button>
+          <button
+            type="button"
+            className="export-word-button"
+            onClick={() => window.open(`/api/batches/${batchId}/download`, '_blank')}
+            disabled={progress.done === 0}
+          >
+            Download all (.zip)
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message" role="alert">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <div className="batch-counts">
+        <span>Queued: {progress.queued}</span>
+        <span>Running: {progress.running}</span>
+        <span>Done: {progress.done}</span>
+        <span>Failed: {progress.failed}</span>
+        {progress.cancelled > 0 && <span>Cancelled: {progress.cancelled}</span>}
+      </div>
+
+      <div className="progress-bar-container">
+        <div className="progress-bar" style={{ width: `${percent}%` }}>
+          <span className="progress-text">{percent}%</span>
+        </div>
+      </div>
+
+      {progress.total < batch.jobCount && (
+        <p className="form-hint">
+          {batch.jobCount - progress.total} of {batch.jobCount} jobs were removed by the daily cleanup of finished jobs
+        </p>
+      )}
+
+      <table className="batch-jobs">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Topic</th>
+            <th>URL</th>
+            <th>Status</th>
+            <th>SEO</th>
+          </tr>
+        </thead>
+        <tbody>
+          {batch.jobs.map((job, index) => (
+            <tr key={job.id} className={`batch-job-${job.status}`}>
+              <td>{index + 1}</td>
+              <td>{job.topic}</td>
+              <td>{job.url}</td>
+              <td title={job.error || job.message}>
+                {job.status}
+                {job.status !== 'pending' && job.progress > 0 && job.progress < 100 ? ` (${job.progress}%)` : ''}
+              </td>
+              <td>{job.seoScore ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,33 +1,150 @@
 'use client';
 
 import { useState } from 'react';
-import type { GenerateResponse } from '@/lib/typing';
+import type { GenerateResponse, ProviderName, SourceDocumentType, SourceUpload } from '@/lib/typing';
+
+// File extension to source type for uploads
+const SOURCE_TYPES: Record<string, SourceDocumentType> = {
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  docx: 'docx',
+  pdf: 'pdf',
+  html: 'html',
+  htm: 'html',
+};
+
+// Give up watching a job after this long without any progress (buffer for the worker timeout)
+const IDLE_TIMEOUT_MS = 360000;
+const IDLE_TIMEOUT_MESSAGE = 'No progress for 6 minutes. The job may still be processing - check back in a moment.';
+
+/**
+ * Read an uploaded file as a source - binary formats are sent as base64
+ */
+async function readSourceFile(file: File): Promise<SourceUpload> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const type = SOURCE_TYPES[extension];
+  if (!type) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+
+  if (type === 'docx' || type === 'pdf') {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+      reader.readAsDataURL(file);
+    });
+    return { name: file.name, type, content: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+  }
+
+  return { name: file.name, type, content: await file.text() };
+}
 
 interface FormProps {
   onSuccess: (result: GenerateResponse) => void;
   onError: (error: string) => void;
   onLoadingChange: (loading: boolean) => void;
   onProgressUpdate?: (progress: number, message: string) => void;
+  onPartialContent?: (text: string) => void;
 }
 
-export default function Form({ onSuccess, onError, onLoadingChange, onProgressUpdate }: FormProps) {
+export default function Form({ onSuccess, onError, onLoadingChange, onProgressUpdate, onPartialContent }: FormProps) {
   const [url, setUrl] = useState('');
   const [topic, setTopic] = useState('');
   const [keywords, setKeywords] = useState('');
   const [length, setLength] = useState(1500);
   const [additionalNotes, setAdditionalNotes] = useState('');
+  const [sourceFiles, setSourceFiles] = useState<SourceUpload[]>([]);
+  const [pastedSource, setPastedSource] = useState('');
+  const [pastedSourceType, setPastedSourceType] = useState<'text' | 'html'>('text');
+  const [provider, setProvider] = useState<ProviderName | ''>('');
   const [loading, setLoading] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  const handleSourceFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    try {
+      const uploads = await Promise.all(files.map(readSourceFile));
+      setSourceFiles((current) => [...current, ...uploads].slice(0, 10));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const removeSourceFile = (index: number) => {
+    setSourceFiles((current) => current.filter((_, i) => i !== index));
+  };
+
+  // Uploaded files plus the pasted text/HTML, as sent to /api/generate
+  const buildSources = (): SourceUpload[] => {
+    const sources = [...sourceFiles];
+    if (pastedSource.trim()) {
+      sources.push({
+        name: pastedSourceType === 'html' ? 'Pasted HTML' : 'Pasted notes',
+        type: pastedSourceType,
+        content: pastedSource,
+      });
+    }
+    return sources;
+  };
+
+  // Hand a finished job to the page; returns false while the job is still running
+  const finishJob = (jobId: string, job: any): boolean => {
+    // Check if completed
+    if (job.status === 'completed' || job.status === 'completed_with_warnings') {
+      console.log(`[Form] Job ${jobId} COMPLETED! HasResult: ${!!job.result}, ResultKeys: ${job.result ? Object.keys(job.result).join(',') : 'none'}`);
+
+      if (!job.result) {
+        console.error(`[Form] ERROR: Job ${jobId} completed but no result! Status: ${job.status}, Progress: ${job.progress}`);
+        throw new Error('Job completed but no result returned');
+      }
+
+      console.log(`[Form] SUCCESS: Calling onSuccess for job ${jobId}`);
+
+      // Transform result to match GenerateResponse interface
+      onSuccess({
+        jobId,
+        metaTitle: job.result.metaTitle,
+        metaDescription: job.result.metaDescription,
+        contentMarkdown: job.result.contentMarkdown,
+        faqRaw: job.result.faqRaw,
+        faq: job.result.faq,
+        schemaReport: job.result.schemaReport,
+        seoReport: job.result.seoReport,
+        groundingReport: job.result.groundingReport,
+        schemaJsonString: job.result.schemaJsonString,
+        pages: job.result.pages,
+        warnings: job.warnings,
+        revisions: job.revisions,
+      });
+      return true;
+    }
+
+    // Check if failed
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Job failed');
+    }
+
+    // Cancelled through the Cancel button (the message says how far it got)
+    if (job.status === 'cancelled') {
+      throw new Error(job.message || 'Job cancelled');
+    }
+
+    return false;
+  };
 
-  // Poll job status
+  // Poll job status; gives up once the job has made no progress for IDLE_TIMEOUT_MS
   const pollJobStatus = async (jobId: string) => {
-    const maxAttempts = 180; // 6 minutes max (180 * 2s = 360s) - buffer for worker timeout
-    let attempts = 0;
+    let lastProgressAt = Date.now();
+    let lastSnapshot = '';
     let consecutiveErrors = 0;
     const maxConsecutiveErrors = 3;
 
-    while (attempts < maxAttempts) {
-      attempts++;
-
+    while (Date.now() - lastProgressAt < IDLE_TIMEOUT_MS) {
       try {
         const response = await fetch(`/api/jobs/${jobId}`, {
           cache: 'no-store', // Prevent caching to always get fresh status
@@ -54,38 +171,22 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
         // Detailed logging that works in production
         console.log(`[Form] Job ${jobId} - Status: ${job.status}, Progress: ${job.progress}%, HasResult: ${!!job.result}, Message: ${job.message || 'none'}`);
 
+        const snapshot = `${job.status}|${job.progress}|${job.message}|${(job.partialContent || '').length}`;
+        if (snapshot !== lastSnapshot) {
+          lastSnapshot = snapshot;
+          lastProgressAt = Date.now();
+        }
+
         // Update progress
         if (onProgressUpdate) {
           onProgressUpdate(job.progress || 0, job.message || 'Processing...');
         }
-
-        // Check if completed
-        if (job.status === 'completed') {
-          console.log(`[Form] Job ${jobId} COMPLETED! HasResult: ${!!job.result}, ResultKeys: ${job.result ? Object.keys(job.result).join(',') : 'none'}`);
-
-          if (!job.result) {
-            console.error(`[Form] ERROR: Job ${jobId} completed but no result! Status: ${job.status}, Progress: ${job.progress}`);
-            throw new Error('Job completed but no result returned');
-          }
-
-          console.log(`[Form] SUCCESS: Calling onSuccess for job ${jobId}`);
-
-          // Transform result to match GenerateResponse interface
-          onSuccess({
-            jobId,
-            metaTitle: job.result.metaTitle,
-            metaDescription: job.result.metaDescription,
-            contentMarkdown: job.result.contentMarkdown,
-            faqRaw: job.result.faqRaw,
-            schemaJsonString: job.result.schemaJsonString,
-            pages: job.result.pages,
-          });
-          return;
+        if (onPartialContent) {
+          onPartialContent(job.partialContent || '');
         }
 
-        // Check if failed
-        if (job.status === 'failed') {
-          throw new Error(job.error || 'Job failed');
+        if (finishJob(jobId, job)) {
+          return;
         }
 
         // Wait 2 seconds before next poll
@@ -100,20 +201,99 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
       }
     }
 
-    throw new Error('Job timed out after 6 minutes. The job may still be processing - check back in a moment.');
+    throw new Error(IDLE_TIMEOUT_MESSAGE);
+  };
+
+  // Follow the job over Server-Sent Events; falls back to polling if the stream can't be used
+  const watchJobStream = (jobId: string): Promise<void> => {
+    if (typeof EventSource === 'undefined') {
+      return pollJobStatus(jobId);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const source = new EventSource(`/api/jobs/${jobId}/stream`);
+      let receivedEvent = false;
+      let settled = false;
+
+      const settle = (action: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(idleTimer);
+        source.close();
+        action();
+      };
+
+      const fallBackToPolling = (reason: string) => {
+        console.warn(`[Form] Job ${jobId} stream unavailable (${reason}), polling instead`);
+        settle(() => pollJobStatus(jobId).then(resolve, reject));
+      };
+
+      // Same inactivity limit as polling: restarted by every progress event
+      let idleTimer: ReturnType<typeof setTimeout>;
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => settle(() => reject(new Error(IDLE_TIMEOUT_MESSAGE))), IDLE_TIMEOUT_MS);
+      };
+      resetIdleTimer();
+
+      source.addEventListener('progress', (event) => {
+        receivedEvent = true;
+        resetIdleTimer();
+        const data = JSON.parse((event as MessageEvent).data);
+        if (onProgressUpdate) {
+          onProgressUpdate(data.progress || 0, data.message || 'Processing...');
+        }
+        if (onPartialContent && data.partialContent !== undefined) {
+          onPartialContent(data.partialContent);
+        }
+      });
+
+      source.addEventListener('done', (event) => {
+        receivedEvent = true;
+        const job = JSON.parse((event as MessageEvent).data);
+        settle(() => {
+          try {
+            finishJob(jobId, job);
+            resolve();
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+
+      source.addEventListener('stream-error', () => fallBackToPolling('server error'));
+
+      // EventSource reconnects by itself after the server closes a long stream;
+      // only give up when nothing ever arrived or the browser stopped retrying
+      source.onerror = () => {
+        if (!receivedEvent || source.readyState === EventSource.CLOSED) {
+          fallBackToPolling('connection error');
+        }
+      };
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!url || !topic || !keywords) {
+    const sources = buildSources();
+
+    if (!topic || !keywords) {
       onError('Please fill in all required fields');
       return;
     }
 
+    if (!url && sources.length === 0) {
+      onError('Please enter a website URL or add at least one source document');
+      return;
+    }
+
     setLoading(true);
     onLoadingChange(true);
     onError('');
+    if (onPartialContent) {
+      onPartialContent('');
+    }
 
     try {
       // Step 1: Create job
@@ -123,11 +303,13 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          url,
+          url: url || undefined,
           topic,
           keywords,
           length,
           additionalNotes,
+          sources: sources.length > 0 ? sources : undefined,
+          provider: provider || undefined,
         }),
       });
 
@@ -153,24 +335,46 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
         throw new Error('No job ID returned');
       }
 
-      console.log(`[Form] Job created: ${jobId}. Starting to poll for completion...`);
+      console.log(`[Form] Job created: ${jobId}. Watching for progress...`);
+      setJobId(jobId);
 
-      // Step 2: Poll for job completion
-      await pollJobStatus(jobId);
+      // Step 2: Stream progress until the job finishes
+      await watchJobStream(jobId);
     } catch (error) {
       console.error('Error:', error);
       onError(error instanceof Error ? error.message : 'An unexpected error occurred');
     } finally {
       setLoading(false);
+      setJobId(null);
+      setCancelling(false);
       onLoadingChange(false);
     }
   };
 
+  // Ask the server to stop the job; the stream (or poll) then sees it cancelled and ends
+  const handleCancel = async () => {
+    if (!jobId) return;
+    setCancelling(true);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        // 409: the job finished in the meantime - its result is on the way
+        console.warn(`[Form] Cancel for job ${jobId} rejected: ${body.error || response.status}`);
+        setCancelling(false);
+      }
+    } catch (error) {
+      console.error('[Form] Cancel request failed:', error);
+      setCancelling(false);
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="form">
       <div className="form-group">
         <label htmlFor="url">
-          Website URL <span className="required">*</span>
+          Website URL {sourceFiles.length === 0 && !pastedSource.trim() && <span className="required">*</span>}
         </label>
         <input
           id="url"
@@ -179,8 +383,9 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
           onChange={(e) => setUrl(e.target.value)}
           placeholder="https://example.com"
           disabled={loading}
-          required
+          required={sourceFiles.length === 0 && !pastedSource.trim()}
         />
+        <small className="form-hint">Optional when you add source material below</small>
       </div>
 
       <div className="form-group">
@@ -226,11 +431,11 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
           value={length}
           onChange={(e) => setLength(parseInt(e.target.value, 10))}
           min={300}
-          max={3000}
+          max={5000}
           disabled={loading}
           required
         />
-        <small className="form-hint">Recommended: 1500-2500 words for comprehensive SEO content</small>
+        <small className="form-hint">Recommended: 1500-2500 words for comprehensive SEO content; up to 5000 for pillar pages (written section by section)</small>
       </div>
 
       <div className="form-group">
@@ -251,9 +456,100 @@ export default function Form({ onSuccess, onError, onLoadingChange, onProgressUp
         </small>
       </div>
 
+      <div className="form-group">
+        <label htmlFor="sourceFiles">
+          Source Material (Optional)
+        </label>
+        <input
+          id="sourceFiles"
+          type="file"
+          multiple
+          accept=".txt,.md,.markdown,.docx,.pdf,.html,.htm"
+          onChange={handleSourceFiles}
+          disabled={loading || sourceFiles.length >= 10}
+        />
+        {sourceFiles.length > 0 && (
+          <ul className="source-file-list">
+            {sourceFiles.map((file, index) => (
+              <li key={`${file.name}-${index}`}>
+                <span>
+                  {file.name} <span className="source-file-type">({file.type})</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeSourceFile(index)}
+                  disabled={loading}
+                  className="source-file-remove"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <small className="form-hint">
+          Client briefs, product specs or interview notes (TXT, Markdown, DOCX, PDF, HTML - up to 10 files)
+        </small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="pastedSource">
+          Paste Source Text or HTML (Optional)
+        </label>
+        <select
+          id="pastedSourceType"
+          value={pastedSourceType}
+          onChange={(e) => setPastedSourceType(e.target.value as 'text' | 'html')}
+          disabled={loading}
+          aria-label="Pasted source format"
+        >
+          <option value="text">Plain text / Markdown</option>
+          <option value="html">Raw HTML</option>
+        </select>
+        <textarea
+          id="pastedSource"
+          value={pastedSource}
+          onChange={(e) => setPastedSource(e.target.value)}
+          placeholder="Paste notes, a brief, or the HTML of a page that is not publicly reachable"
+          disabled={loading}
+          rows={6}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="provider">
+          Model Provider
+        </label>
+        <select
+          id="provider"
+          value={provider}
+          onChange={(e) => setProvider(e.target.value as ProviderName | '')}
+          disabled={loading}
+        >
+          <option value="">Server default</option>
+          <option value="anthropic">Anthropic Claude</option>
+          <option value="openai">OpenAI-compatible endpoint</option>
+        </select>
+        <small className="form-hint">
+          The OpenAI-compatible option uses the endpoint configured on the server (OpenAI, Ollama, llama.cpp)
+        </small>
+      </div>
+
       <button type="submit" disabled={loading} className="submit-button">
         {loading ? 'Generating...' : 'Generate Content'}
       </button>
+
+      {loading && (
+        <button
+          type="button"
+          onClick={handleCancel}
+          disabled={!jobId || cancelling}
+          className="cancel-button"
+        >
+          {cancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+      )}
     </form>
   );
 }
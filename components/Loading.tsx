@@ -1,9 +1,29 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
 interface LoadingProps {
   progress?: number;
   message?: string;
+  partialContent?: string; // Raw model output streamed so far
+}
+
+/**
+ * Article body from partial model output - the text after the content marker,
+ * up to the end marker once it has arrived
+ */
+function previewMarkdown(partialContent: string): string {
+  const start = partialContent.indexOf('===CONTENT START===');
+  if (start === -1) return '';
+  const body = partialContent.slice(start + '===CONTENT START==='.length);
+  const end = body.indexOf('===CONTENT END===');
+  return (end === -1 ? body : body.slice(0, end)).trim();
 }
 
-export default function Loading({ progress, message }: LoadingProps) {
+export default function Loading({ progress, message, partialContent }: LoadingProps) {
+  const preview = partialContent ? previewMarkdown(partialContent) : '';
+
   return (
     <div className="loading-container" role="status" aria-live="polite">
       <div className="spinner" aria-hidden="true"></div>
@@ -19,6 +39,12 @@ export default function Loading({ progress, message }: LoadingProps) {
       <p className="loading-text">
         {message || 'Generating SEO content... This may take 1-2 minutes.'}
       </p>
+
+      {preview && (
+        <div className="markdown-content partial-content" aria-live="off">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{preview}</ReactMarkdown>
+        </div>
+      )}
     </div>
   );
 }
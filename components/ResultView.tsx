@@ -3,6 +3,16 @@
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import CopyButton from './CopyButton';
+import SeoScorecard from './SeoScorecard';
+import { rehypeHighlightSentences } from '@/lib/highlight';
+import type {
+  FaqItem,
+  GroundingReport,
+  RevisionAttempt,
+  SchemaReport,
+  SeoReport,
+  SourcePage,
+} from '@/lib/typing';
 
 interface ResultViewProps {
   jobId?: string;
@@ -10,8 +20,14 @@ interface ResultViewProps {
   metaDescription: string;
   contentMarkdown: string;
   faqRaw: string;
+  faq?: FaqItem[]; // Older jobs only have faqRaw
   schemaJsonString: string;
-  sources: Array<{ title: string; url: string }>;
+  schemaReport?: SchemaReport; // Older jobs have no validation report
+  seoReport?: SeoReport; // Older jobs have no scorecard
+  groundingReport?: GroundingReport; // Older jobs have no grounding check
+  sources: SourcePage[];
+  warnings?: string[];
+  revisions?: RevisionAttempt[];
 }
 
 export default function ResultView({
@@ -20,8 +36,14 @@ export default function ResultView({
   metaDescription,
   contentMarkdown,
   faqRaw,
+  faq,
   schemaJsonString,
+  schemaReport,
+  seoReport,
+  groundingReport,
   sources,
+  warnings,
+  revisions,
 }: ResultViewProps) {
   const handleExportWord = () => {
     if (!jobId) {
@@ -33,6 +55,17 @@ export default function ResultView({
     window.open(`/api/export/word/${jobId}`, '_blank');
   };
 
+  // Sentences with claims the site context doesn't back up, highlighted in the article
+  const flagged = (groundingReport?.sentences || []).filter((sentence) => sentence.status !== 'supported');
+  const highlights = flagged.map((sentence) => ({
+    text: sentence.text,
+    className: `claim-${sentence.status}`,
+    title: sentence.claims
+      .filter((claim) => claim.status !== 'supported')
+      .map((claim) => `${claim.status}: ${claim.text}`)
+      .join('\n'),
+  }));
+
   return (
     <div className="result-view">
       <div className="section-heading-wrapper">
@@ -48,6 +81,41 @@ export default function ResultView({
         )}
       </div>
 
+      {/* Repairs made to the model output and acceptance checks that still fail */}
+      {warnings && warnings.length > 0 && (
+        <section className="warnings-section" role="status">
+          <strong>Completed with warnings</strong> - the model output had to be repaired or missed some acceptance checks. Review these parts before publishing:
+          <ul>
+            {warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Targeted revisions made for failing acceptance checks */}
+      {revisions && revisions.length > 0 && (
+        <section className="revisions-section">
+          <strong>Revised {revisions.length} time(s) to meet the acceptance checks</strong>
+          <ol>
+            {revisions.map((revision) => (
+              <li key={revision.attempt}>
+                Fixing: {revision.failures.map((failure) => failure.message).join('; ')}
+                {' - '}
+                {revision.error
+                  ? `failed (${revision.error})`
+                  : revision.remaining.length === 0
+                  ? 'all checks pass'
+                  : `still failing: ${revision.remaining.map((failure) => failure.message).join('; ')}`}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {/* On-page SEO scorecard */}
+      {seoReport && <SeoScorecard report={seoReport} />}
+
       {/* Meta Tags */}
       <section className="meta-section">
         <div className="meta-item">
@@ -75,9 +143,48 @@ export default function ResultView({
           <h3>Article Content</h3>
           <CopyButton text={contentMarkdown} label="Copy Markdown" />
         </div>
+        {groundingReport && (
+          <div className="grounding-report">
+            <p className="grounding-summary">
+              Fact check: {groundingReport.supported} of {groundingReport.claimCount} claim(s) found in the site context
+              {groundingReport.unsupported > 0 && <>, <span className="claim-unsupported">{groundingReport.unsupported} unsupported</span></>}
+              {groundingReport.contradicted > 0 && <>, <span className="claim-contradicted">{groundingReport.contradicted} contradicted</span></>}
+            </p>
+            {flagged.length > 0 && (
+              <details>
+                <summary>Review {flagged.length} highlighted sentence(s) before publishing</summary>
+                <ul className="grounding-sentences">
+                  {flagged.map((sentence, index) => (
+                    <li key={index}>
+                      <q>{sentence.text}</q>
+                      <ul>
+                        {sentence.claims
+                          .filter((claim) => claim.status !== 'supported')
+                          .map((claim, claimIndex) => (
+                            <li key={claimIndex} className={`claim-${claim.status}`}>
+                              <strong>{claim.text}</strong> ({claim.kind}) - {claim.status}
+                              {claim.sourceUrl && (
+                                <>
+                                  {' '}- source says: {claim.evidence}{' '}
+                                  <a href={claim.sourceUrl} target="_blank" rel="noopener noreferrer">
+                                    {claim.sourceUrl}
+                                  </a>
+                                </>
+                              )}
+                            </li>
+                          ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )}
         <div className="markdown-content">
           <ReactMarkdown
             remarkPlugins={[remarkGfm]}
+            rehypePlugins={[[rehypeHighlightSentences, highlights]]}
             components={{
               a: ({ node, ...props }) => (
                 <a {...props} target="_blank" rel="nofollow noopener" />
@@ -96,7 +203,18 @@ export default function ResultView({
           <CopyButton text={faqRaw} label="Copy FAQ" />
         </div>
         <div className="faq-content">
-          <pre>{faqRaw}</pre>
+          {faq && faq.length > 0 ? (
+            <dl className="faq-list">
+              {faq.map((item, index) => (
+                <div key={index} className="faq-item">
+                  <dt>{item.question}</dt>
+                  <dd>{item.answer}</dd>
+                </div>
+              ))}
+            </dl>
+          ) : (
+            <pre>{faqRaw}</pre>
+          )}
         </div>
       </section>
 
@@ -106,6 +224,25 @@ export default function ResultView({
           <h3>JSON-LD Schema</h3>
           <CopyButton text={schemaJsonString} label="Copy Schema" />
         </div>
+        {schemaReport && (
+          <div className={`schema-report ${schemaReport.valid ? 'schema-report-valid' : 'schema-report-invalid'}`}>
+            <p className="schema-report-summary">
+              {schemaReport.valid ? '✓ Valid' : '✗ Invalid'} {schemaReport.types.join(', ')} -{' '}
+              {schemaReport.errorCount} error(s), {schemaReport.warningCount} warning(s)
+            </p>
+            {schemaReport.issues.length > 0 && (
+              <ul className="schema-report-issues">
+                {schemaReport.issues.map((issue, index) => (
+                  <li key={index} className={`schema-issue-${issue.severity}`}>
+                    <strong>{issue.severity === 'error' ? 'Error' : 'Warning'}</strong>{' '}
+                    <code>{issue.path}</code>
+                    {issue.type && <span className="schema-issue-type"> ({issue.type})</span>}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
         <div className="schema-content">
           <pre>
             <code>{schemaJsonString}</code>
@@ -117,14 +254,19 @@ export default function ResultView({
       <section className="sources-section">
         <h3>Sources Used</h3>
         <p className="sources-intro">
-          Content was generated using information from the following pages:
+          Content was generated using information from the following pages and documents:
         </p>
         <ul className="sources-list">
           {sources.map((source, index) => (
             <li key={index}>
-              <a href={source.url} target="_blank" rel="noopener noreferrer">
-                {source.title}
-              </a>
+              {source.kind === 'source' ? (
+                <span>{source.title}</span>
+              ) : (
+                <a href={source.url} target="_blank" rel="noopener noreferrer">
+                  {source.title}
+                </a>
+              )}
+              {source.fromCache && <span className="source-cached"> (cached)</span>}
             </li>
           ))}
         </ul>
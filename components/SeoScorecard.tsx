@@ -0,0 +1,60 @@
+'use client';
+
+import type { SeoReport } from '@/lib/typing';
+
+interface SeoScorecardProps {
+  report: SeoReport;
+}
+
+const STATUS_ICONS = { pass: '✓', warn: '!', fail: '✗' } as const;
+
+export default function SeoScorecard({ report }: SeoScorecardProps) {
+  const grade = report.score >= 80 ? 'good' : report.score >= 60 ? 'fair' : 'poor';
+
+  return (
+    <section className="scorecard-section">
+      <div className="section-header">
+        <h3>SEO Scorecard</h3>
+        <span className={`scorecard-score scorecard-${grade}`}>{report.score}/100</span>
+      </div>
+
+      <ul className="scorecard-checks">
+        {report.checks.map((check) => (
+          <li key={check.id} className={`scorecard-check scorecard-check-${check.status}`}>
+            <span className="scorecard-icon" aria-label={check.status}>
+              {STATUS_ICONS[check.status]}
+            </span>
+            <strong>{check.label}</strong>: {check.detail}
+          </li>
+        ))}
+      </ul>
+
+      {report.keywords.length > 0 && (
+        <table className="scorecard-keywords">
+          <thead>
+            <tr>
+              <th>Keyword</th>
+              <th>Uses</th>
+              <th>Density</th>
+              <th>H1</th>
+              <th>First 100 words</th>
+              <th>Meta title</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.keywords.map((stats) => (
+              <tr key={stats.keyword}>
+                <td>{stats.keyword}</td>
+                <td>{stats.count}</td>
+                <td>{stats.density}%</td>
+                <td>{stats.inH1 ? '✓' : '-'}</td>
+                <td>{stats.inFirst100Words ? '✓' : '-'}</td>
+                <td>{stats.inMetaTitle ? '✓' : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
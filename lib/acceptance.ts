@@ -0,0 +1,125 @@
+/**
+ * Acceptance checks for a generated article
+ * Failing checks are sent back to the model for a targeted revision (see
+ * reviseUntilAccepted() in lib/ai.ts); each check names the part it concerns
+ */
+
+import { wordCount } from './normalize';
+import { countKeyword } from './seo-score';
+import type { AcceptanceFailure, ParsedSections } from './typing';
+
+export interface AcceptanceConfig {
+  lengthTolerance: number; // Allowed deviation from the target length (0.1 = ±10%)
+  metaTitleMax: number;
+  metaDescriptionMax: number;
+  requireAllKeywords: boolean;
+  checkForbiddenTopics: boolean;
+  maxRevisions: number; // Revision calls per job; 0 disables the revise loop
+}
+
+export interface AcceptanceInput {
+  keywords: string[];
+  targetLength: number;
+  additionalNotes?: string;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Acceptance thresholds (env ACCEPT_LENGTH_TOLERANCE, ACCEPT_META_TITLE_MAX,
+ * ACCEPT_META_DESCRIPTION_MAX, ACCEPT_REQUIRE_ALL_KEYWORDS,
+ * ACCEPT_FORBIDDEN_TOPICS, REVISE_MAX_ATTEMPTS)
+ */
+export function getAcceptanceConfig(): AcceptanceConfig {
+  return {
+    lengthTolerance: readNumber('ACCEPT_LENGTH_TOLERANCE', 0.1),
+    metaTitleMax: readNumber('ACCEPT_META_TITLE_MAX', 60),
+    metaDescriptionMax: readNumber('ACCEPT_META_DESCRIPTION_MAX', 160),
+    requireAllKeywords: process.env.ACCEPT_REQUIRE_ALL_KEYWORDS !== 'false',
+    checkForbiddenTopics: process.env.ACCEPT_FORBIDDEN_TOPICS !== 'false',
+    maxRevisions: Math.max(0, Math.floor(readNumber('REVISE_MAX_ATTEMPTS', 2))),
+  };
+}
+
+const AVOID_PATTERN =
+  /\b(?:avoid(?:\s+(?:mentioning|discussing|talking about))?|(?:do not|don't|never|no need to)\s+(?:mention|discuss|talk about|bring up|cover|include)|without mentioning|exclude|leave out)\s+([^.;!?\n]+)/gi;
+
+/**
+ * Topics the additional notes ask to keep out of the article
+ * ("avoid pricing", "don't mention competitors or discounts")
+ */
+export function extractForbiddenTopics(additionalNotes?: string): string[] {
+  if (!additionalNotes) return [];
+
+  const topics: string[] = [];
+  for (const match of Array.from(additionalNotes.matchAll(AVOID_PATTERN))) {
+    const parts = match[1]
+      .replace(/\b(?:any|all|the|our|their|specific)\s+/gi, '')
+      .split(/,|\bor\b|\band\b|\//i)
+      .map((part) => part.trim().replace(/^["'(]+|["')]+$/g, ''))
+      .filter((part) => part.length > 1 && part.split(/\s+/).length <= 4);
+    for (const part of parts) {
+      if (!topics.some((topic) => topic.toLowerCase() === part.toLowerCase())) topics.push(part);
+    }
+  }
+  return topics;
+}
+
+/**
+ * Failing checks for an article; empty when it is accepted
+ */
+export function checkAcceptance(
+  parsed: Pick<ParsedSections, 'metaTitle' | 'metaDescription' | 'contentMarkdown'>,
+  input: AcceptanceInput,
+  config: AcceptanceConfig = getAcceptanceConfig()
+): AcceptanceFailure[] {
+  const failures: AcceptanceFailure[] = [];
+
+  const count = wordCount(parsed.contentMarkdown);
+  const off = input.targetLength > 0 ? Math.abs(count - input.targetLength) / input.targetLength : 0;
+  if (off > config.lengthTolerance) {
+    failures.push({
+      check: 'length',
+      message: `Article is ${count} words, ${Math.round(off * 100)}% ${count < input.targetLength ? 'below' : 'above'} the ${input.targetLength}-word target (allowed ±${Math.round(config.lengthTolerance * 100)}%)`,
+    });
+  }
+
+  if (parsed.metaTitle.length > config.metaTitleMax) {
+    failures.push({
+      check: 'metaTitle',
+      message: `Meta title is ${parsed.metaTitle.length} characters (max ${config.metaTitleMax})`,
+    });
+  }
+
+  if (parsed.metaDescription.length > config.metaDescriptionMax) {
+    failures.push({
+      check: 'metaDescription',
+      message: `Meta description is ${parsed.metaDescription.length} characters (max ${config.metaDescriptionMax})`,
+    });
+  }
+
+  if (config.requireAllKeywords) {
+    const unused = input.keywords.filter((keyword) => countKeyword(parsed.contentMarkdown, keyword) === 0);
+    if (unused.length > 0) {
+      failures.push({ check: 'keywords', message: `Keywords not used: ${unused.join(', ')}`, items: unused });
+    }
+  }
+
+  if (config.checkForbiddenTopics) {
+    const mentioned = extractForbiddenTopics(input.additionalNotes).filter(
+      (topic) => countKeyword(parsed.contentMarkdown, topic) > 0
+    );
+    if (mentioned.length > 0) {
+      failures.push({
+        check: 'forbiddenTopics',
+        message: `Mentions topics the notes ask to avoid: ${mentioned.join(', ')}`,
+        items: mentioned,
+      });
+    }
+  }
+
+  return failures;
+}
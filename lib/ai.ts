@@ -1,97 +1,287 @@
 /**
- * Anthropic Claude API integration
+ * Content generation through the configured model provider
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import {
   SYSTEM_PROMPT,
+  buildAssemblyPrompt,
   buildComprehensivePrompt,
   buildGenerationPrompt,
+  buildMissingSectionsPrompt,
+  buildOutlinePrompt,
   buildRefinePromptPass2,
+  buildRepairPrompt,
+  buildRevisionPrompt,
+  buildSectionPrompt,
+  buildStructuredOutputNote,
 } from './prompts';
-import { wordCount } from './normalize';
+import { getLengthNote, wordCount } from './normalize';
+import { checkAcceptance, getAcceptanceConfig } from './acceptance';
+import type { AcceptanceConfig, AcceptanceInput } from './acceptance';
+import { formatSiteFacts, hasSiteFacts } from './facts';
+import { getContentProvider } from './providers';
+import { cancelledError, isModelError } from './providers/errors';
+import { computeCost } from './pricing';
+import { parseSectionsLenient, SECTION_LABELS } from './parse';
+import type { SectionName } from './parse';
+import { assembleArticle, buildSectionedOutput, normalizeSection, parseOutline } from './outline';
+import {
+  ARTICLE_FIELDS,
+  ASSEMBLY_FIELDS,
+  CONTENT_TOOL_NAME,
+  buildContentTool,
+  isStructuredOutputEnabled,
+  pickFields,
+  renderMarkerText,
+  toParsedSections,
+  validateContent,
+} from './structured';
+import type { ContentField, GeneratedContent } from './structured';
+import type {
+  AcceptanceFailure,
+  ContentModelProvider,
+  GenerationState,
+  ModelCallRecord,
+  ModelRequest,
+  ModelResponse,
+  ParsedSections,
+  RevisionAttempt,
+  SiteFacts,
+} from './typing';
+
+export { getAnthropic } from './providers';
 
-let anthropicClient: Anthropic | null = null;
+export interface GenerationOptions {
+  provider?: ContentModelProvider; // Defaults to the CONTENT_PROVIDER provider
+  onCall?: (call: ModelCallRecord) => void | Promise<void>; // Called after every model request, failed ones included
+  onText?: (text: string) => void; // Streamed text so far; starts over when a request is retried
+  state?: GenerationState; // Sectioned pipeline: resume from this checkpoint
+  onCheckpoint?: (state: GenerationState) => Promise<void>; // Sectioned pipeline: after every stage
+  deadlineAt?: number; // Sectioned pipeline: pause instead of starting a call after this time; revisions: stop
+  onRevision?: (attempts: RevisionAttempt[]) => Promise<void>; // Acceptance revisions: after every attempt
+  signal?: AbortSignal; // Aborts the in-flight request and stops further calls (job cancelled)
+  maxTokens?: number; // Output budget per request; defaults to DEFAULT_MAX_TOKENS
+}
+
+// Output budget per request; kept at 6000 to prevent timeouts in production
+const DEFAULT_MAX_TOKENS = 6000;
+
+export interface GenerationResult {
+  text: string;
+  model: string; // Model that produced the text
+  fallback: boolean; // True when a fallback model was used
+  state?: GenerationState; // Final checkpoint of the sectioned pipeline
+  parsed?: ParsedSections; // Validated structured output; absent when the marker text must be parsed
+}
 
 /**
- * Get or create Anthropic client instance
+ * Error thrown when the sectioned pipeline stops at its deadline; progress is
+ * already checkpointed and the job can simply be picked up again
  */
-export function getAnthropic(): Anthropic {
-  if (!anthropicClient) {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required');
-    }
-    anthropicClient = new Anthropic({ apiKey });
+function generationPaused(message: string): Error {
+  return Object.assign(new Error(message), { paused: true });
+}
+
+export function isGenerationPaused(error: unknown): boolean {
+  return error instanceof Error && (error as { paused?: boolean }).paused === true;
+}
+
+interface ModelCallResult extends ModelResponse {
+  fallback: boolean;
+}
+
+/**
+ * Retry settings for transient model errors (env MODEL_MAX_RETRIES,
+ * MODEL_RETRY_BASE_MS, MODEL_RETRY_MAX_MS)
+ */
+function getRetryConfig() {
+  return {
+    maxRetries: parseInt(process.env.MODEL_MAX_RETRIES || '2', 10),
+    baseDelayMs: parseInt(process.env.MODEL_RETRY_BASE_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.MODEL_RETRY_MAX_MS || '30000', 10),
+  };
+}
+
+/**
+ * Exponential backoff with equal jitter: half the window is fixed, half random
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Build the usage record for one request and hand it to the caller
+ * Recording failures are logged and never fail the generation
+ */
+async function reportCall(
+  onCall: GenerationOptions['onCall'],
+  provider: ContentModelProvider,
+  stage: string,
+  model: string,
+  startedAt: number,
+  response?: ModelResponse,
+  error?: unknown
+): Promise<void> {
+  if (!onCall) return;
+
+  const usage = response?.usage || { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+  const call: ModelCallRecord = {
+    stage,
+    provider: provider.name,
+    model,
+    ...usage,
+    latencyMs: Date.now() - startedAt,
+    costUsd: computeCost(model, usage),
+    success: !error,
+    error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+  };
+
+  try {
+    await onCall(call);
+  } catch (recordError) {
+    console.error('[AI] Failed to record model call:', recordError);
   }
-  return anthropicClient;
 }
 
 /**
- * Call Claude with messages and system prompt
- * Now includes timeout protection to prevent hanging
+ * Send one prompt through the provider
+ * Transient errors are retried with backoff (honouring retry-after); when a
+ * model keeps failing or is unavailable, the provider's fallback models are
+ * tried in order. Fatal errors are thrown immediately, as is an aborted
+ * options.signal (before a request, or from the provider mid-request).
  */
-async function callClaude(
+async function callModel(
+  provider: ContentModelProvider,
   userMessage: string,
   system: string,
   temperature: number,
-  model: string,
+  stage: string,
+  options: GenerationOptions = {},
+  toolRequest: Pick<ModelRequest, 'tool' | 'onToolInput'> = {},
   timeoutMs: number = 120000 // 120 second timeout - increased for complex content generation
-): Promise<string> {
-  const client = getAnthropic();
+): Promise<ModelCallResult> {
+  const { maxRetries, baseDelayMs, maxDelayMs } = getRetryConfig();
+  const models = Array.from(new Set([provider.model, ...provider.fallbackModels]));
+  let lastError: unknown;
 
-  try {
-    // Create timeout promise
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Claude API timeout after ${timeoutMs / 1000}s - consider reducing content length or max_tokens`));
-      }, timeoutMs);
-    });
+  for (let index = 0; index < models.length; index++) {
+    const model = models[index];
 
-    // Create API call promise
-    const apiPromise = client.messages.create({
-      model,
-      max_tokens: 6000, // Reduced to 6000 to prevent timeouts in production
-      temperature,
-      system,
-      messages: [
-        {
-          role: 'user',
-          content: userMessage,
-        },
-      ],
-    });
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (options.signal?.aborted) {
+        throw cancelledError(model);
+      }
 
-    // Race between API call and timeout
-    const response = await Promise.race([apiPromise, timeoutPromise]);
+      const startedAt = Date.now();
+      try {
+        const response = await provider.generate({
+          system,
+          prompt: userMessage,
+          temperature,
+          maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          timeoutMs,
+          model,
+          onText: options.onText,
+          signal: options.signal,
+          ...toolRequest,
+        });
+        await reportCall(options.onCall, provider, stage, response.model, startedAt, response);
+        return { ...response, fallback: index > 0 };
+      } catch (error) {
+        lastError = error;
+        await reportCall(options.onCall, provider, stage, model, startedAt, undefined, error);
+        if (!isModelError(error) || error.kind === 'fatal') {
+          throw error;
+        }
+        if (error.kind === 'unavailable') {
+          console.warn(`[AI] ${provider.name}/${model} unavailable: ${error.message}`);
+          break;
+        }
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
+        // A retry-after longer than our ceiling means this model is out for a while
+        if (attempt === maxRetries || (error.retryAfterMs ?? 0) > maxDelayMs) {
+          console.warn(`[AI] ${provider.name}/${model} failed after ${attempt + 1} attempt(s): ${error.message}`);
+          break;
+        }
 
-    return content.text;
-  } catch (error: any) {
-    // Handle timeout errors specifically
-    if (error?.message?.includes('timeout')) {
-      console.error('[AI] Claude API timeout detected:', error.message);
-      throw error;
+        const delay = Math.max(error.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+        console.warn(`[AI] ${provider.name}/${model} attempt ${attempt + 1} failed (${error.message}); retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
     }
 
-    // Handle Anthropic API errors
-    if (error?.status === 401) {
-      throw new Error('Invalid API key. Please check your ANTHROPIC_API_KEY.');
-    } else if (error?.status === 404) {
-      throw new Error(`Model '${model}' not found. Your API key may not have access to this model.`);
-    } else if (error?.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again later.');
-    } else if (error?.error?.message) {
-      throw new Error(`Anthropic API error: ${error.error.message}`);
-    } else if (error?.message) {
-      throw new Error(`Claude API error: ${error.message}`);
+    if (index + 1 < models.length) {
+      console.warn(`[AI] Falling back to ${provider.name}/${models[index + 1]}`);
     }
-    throw error;
   }
+
+  throw lastError;
+}
+
+/**
+ * Whether this provider should be asked for structured output
+ */
+function useStructuredOutput(provider: ContentModelProvider): boolean {
+  return provider.supportsTools && isStructuredOutputEnabled();
+}
+
+/**
+ * Ask for the given fields through the content tool and validate them
+ * Fields that fail validation (or are missing) get one repair request asking
+ * for just those fields; if they are still invalid the generation fails
+ */
+async function callStructured(
+  provider: ContentModelProvider,
+  prompt: string,
+  temperature: number,
+  stage: string,
+  options: GenerationOptions,
+  fields: ContentField[]
+): Promise<{ content: Partial<GeneratedContent>; response: ModelCallResult }> {
+  // Preview the article as its tool input streams in, in the same shape as marker text
+  const onText = options.onText;
+  const onToolInput = onText
+    ? (snapshot: unknown) => {
+        const markdown = (snapshot as { contentMarkdown?: unknown } | undefined)?.contentMarkdown;
+        if (typeof markdown === 'string') onText(`===CONTENT START===\n\n${markdown}`);
+      }
+    : undefined;
+  const quietOptions: GenerationOptions = { ...options, onText: undefined };
+
+  const response = await callModel(
+    provider,
+    prompt + buildStructuredOutputNote(CONTENT_TOOL_NAME, fields),
+    SYSTEM_PROMPT,
+    temperature,
+    stage,
+    quietOptions,
+    { tool: buildContentTool(fields), onToolInput }
+  );
+  const first = validateContent(response.toolInput, fields);
+  if (first.invalid.length === 0) {
+    return { content: first.data, response };
+  }
+
+  console.warn(`[AI] Structured output failed validation (${first.issues.join('; ')}); requesting repair of ${first.invalid.join(', ')}`);
+  const repair = await callModel(
+    provider,
+    buildRepairPrompt(prompt, CONTENT_TOOL_NAME, first.invalid, first.issues, pickFields(response.toolInput, first.invalid)),
+    SYSTEM_PROMPT,
+    temperature,
+    'repair',
+    quietOptions,
+    { tool: buildContentTool(first.invalid) }
+  );
+  const repaired = validateContent(repair.toolInput, first.invalid);
+  if (repaired.invalid.length > 0) {
+    throw new Error(`Structured output still invalid after repair: ${repaired.issues.join('; ')}`);
+  }
+
+  return {
+    content: { ...first.data, ...repaired.data },
+    response: { ...response, fallback: response.fallback || repair.fallback },
+  };
 }
 
 /**
@@ -103,26 +293,52 @@ export async function generateWithRefinement(
   topic: string,
   keywords: string[],
   targetLength: number,
-  additionalNotes?: string
-): Promise<string> {
-  const model = process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929';
+  additionalNotes?: string,
+  siteFacts?: SiteFacts,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const provider = options.provider || getContentProvider();
   const temperature = parseFloat(process.env.PROMPT_TEMPERATURE || '0.2');
 
   const joinedKeywords = keywords.join(', ');
+  const factsText = hasSiteFacts(siteFacts) ? formatSiteFacts(siteFacts) : undefined;
 
   // Single comprehensive pass - publication-ready content
-  console.log(`Generating publication-ready SEO content (single-pass)${additionalNotes ? ' with additional notes' : ''}...`);
-  const comprehensivePrompt = buildComprehensivePrompt(context, topic, joinedKeywords, targetLength, additionalNotes);
-  const finalContent = await callClaude(comprehensivePrompt, SYSTEM_PROMPT, temperature, model);
+  console.log(`Generating publication-ready SEO content (single-pass, ${provider.name}/${provider.model})${additionalNotes ? ' with additional notes' : ''}${factsText ? ' with site facts' : ''}...`);
+  const comprehensivePrompt = buildComprehensivePrompt(
+    context,
+    topic,
+    joinedKeywords,
+    targetLength,
+    additionalNotes,
+    factsText
+  );
+
+  if (useStructuredOutput(provider)) {
+    const { content, response } = await callStructured(
+      provider,
+      comprehensivePrompt,
+      temperature,
+      'generate',
+      options,
+      ARTICLE_FIELDS
+    );
+    const parsed = toParsedSections(content as GeneratedContent);
+    console.log(`Generated content word count: ${wordCount(parsed.contentMarkdown)} (target: ${targetLength}) by ${response.model}`);
+    return { text: renderMarkerText(content), model: response.model, fallback: response.fallback, parsed };
+  }
+
+  const response = await callModel(provider, comprehensivePrompt, SYSTEM_PROMPT, temperature, 'generate', options);
+  const finalContent = response.text;
 
   // Extract content block to verify word count
   const contentMatch = finalContent.match(/===CONTENT START===\s*([\s\S]*?)\s*===CONTENT END===/);
   const contentText = contentMatch ? contentMatch[1] : finalContent;
   const finalCount = wordCount(contentText);
 
-  console.log(`Generated content word count: ${finalCount} (target: ${targetLength})`);
+  console.log(`Generated content word count: ${finalCount} (target: ${targetLength}) by ${response.model}`);
 
-  return finalContent;
+  return { text: finalContent, model: response.model, fallback: response.fallback };
 }
 
 /**
@@ -134,9 +350,10 @@ export async function generateWithRefinementTwoPass(
   context: string,
   topic: string,
   keywords: string[],
-  targetLength: number
-): Promise<string> {
-  const model = process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929';
+  targetLength: number,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const provider = options.provider || getContentProvider();
   const temperature = parseFloat(process.env.PROMPT_TEMPERATURE || '0.2');
 
   const joinedKeywords = keywords.join(', ');
@@ -144,7 +361,7 @@ export async function generateWithRefinementTwoPass(
   // Pass 1: Generate first draft
   console.log('Pass 1: Generating initial draft...');
   const generationPrompt = buildGenerationPrompt(context, topic, joinedKeywords, targetLength);
-  const draft1 = await callClaude(generationPrompt, SYSTEM_PROMPT, temperature, model);
+  const draft1 = (await callModel(provider, generationPrompt, SYSTEM_PROMPT, temperature, 'draft', options)).text;
 
   // Extract content block to check word count
   const contentMatch = draft1.match(/===CONTENT START===\s*([\s\S]*?)\s*===CONTENT END===/);
@@ -162,7 +379,8 @@ export async function generateWithRefinementTwoPass(
     : `Length is good (${currentCount1} words). Maintain depth while polishing.`;
 
   const refinePrompt = buildRefinePromptPass2(context, draft1, targetLength, lengthGuidance);
-  const finalDraft = await callClaude(refinePrompt, SYSTEM_PROMPT, temperature, model);
+  const response = await callModel(provider, refinePrompt, SYSTEM_PROMPT, temperature, 'refine', options);
+  const finalDraft = response.text;
 
   const contentMatch2 = finalDraft.match(/===CONTENT START===\s*([\s\S]*?)\s*===CONTENT END===/);
   const contentText2 = contentMatch2 ? contentMatch2[1] : finalDraft;
@@ -170,5 +388,370 @@ export async function generateWithRefinementTwoPass(
 
   console.log(`Final word count: ${finalCount} (target: ${targetLength})`);
 
-  return finalDraft;
+  return { text: finalDraft, model: response.model, fallback: response.fallback };
+}
+
+/**
+ * Generate long articles outline-first, one section per call
+ * Stage 1 plans a JSON outline, stage 2 writes each section, stage 3 produces
+ * meta, FAQ and schema. Every finished stage is checkpointed through
+ * options.onCheckpoint and options.state resumes from the last checkpoint.
+ */
+export async function generateSectioned(
+  context: string,
+  topic: string,
+  keywords: string[],
+  targetLength: number,
+  additionalNotes?: string,
+  siteFacts?: SiteFacts,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const provider = options.provider || getContentProvider();
+  const temperature = parseFloat(process.env.PROMPT_TEMPERATURE || '0.2');
+
+  const joinedKeywords = keywords.join(', ');
+  const factsText = hasSiteFacts(siteFacts) ? formatSiteFacts(siteFacts) : undefined;
+  const state: GenerationState = options.state
+    ? { ...options.state, sections: [...options.state.sections] }
+    : { sections: [] };
+
+  const checkpoint = async (response: ModelCallResult) => {
+    state.model = response.model;
+    state.fallback = state.fallback || response.fallback;
+    if (options.onCheckpoint) {
+      await options.onCheckpoint({ ...state, sections: [...state.sections] });
+    }
+  };
+
+  const checkDeadline = (next: string) => {
+    if (options.deadlineAt && Date.now() > options.deadlineAt) {
+      throw generationPaused(`Worker time budget reached before ${next}; progress saved`);
+    }
+  };
+
+  // Only section text is streamed - outline JSON and meta output make no sense as a preview
+  const quietOptions: GenerationOptions = { ...options, onText: undefined };
+
+  // Stage 1: Outline (one retry when the JSON is unusable)
+  if (!state.outline) {
+    checkDeadline('the outline');
+    console.log(`Planning outline for ${targetLength}-word article (${provider.name}/${provider.model})...`);
+    const outlinePrompt = buildOutlinePrompt(context, topic, joinedKeywords, targetLength, additionalNotes, factsText);
+
+    let response = await callModel(provider, outlinePrompt, SYSTEM_PROMPT, temperature, 'outline', quietOptions);
+    try {
+      state.outline = parseOutline(response.text, targetLength);
+    } catch (error) {
+      console.warn('[AI] Outline rejected, asking again:', error instanceof Error ? error.message : error);
+      response = await callModel(provider, outlinePrompt, SYSTEM_PROMPT, temperature, 'outline', quietOptions);
+      state.outline = parseOutline(response.text, targetLength);
+    }
+    await checkpoint(response);
+  }
+
+  const outline = state.outline;
+  const totalSections = outline.sections.length + 1; // Introduction + H2 sections
+
+  // Stage 2: Sections, resuming after the last finished one
+  for (let index = state.sections.length; index < totalSections; index++) {
+    const heading = index === 0 ? undefined : outline.sections[index - 1].heading;
+    checkDeadline(`section ${index + 1}/${totalSections}`);
+    console.log(`Writing section ${index + 1}/${totalSections}: ${heading || 'Introduction'}`);
+
+    const previous = state.sections[index - 1];
+    const previousExcerpt = previous ? previous.split(/\s+/).slice(-60).join(' ') : undefined;
+    const sectionPrompt = buildSectionPrompt(
+      context,
+      topic,
+      outline,
+      index,
+      previousExcerpt,
+      additionalNotes,
+      factsText
+    );
+
+    const written = assembleArticle(outline, state.sections);
+    const onText = options.onText;
+    const response = await callModel(provider, sectionPrompt, SYSTEM_PROMPT, temperature, 'section', {
+      ...options,
+      onText: onText ? (text) => onText(`===CONTENT START===\n\n${written}\n\n${text}`) : undefined,
+    });
+
+    state.sections.push(normalizeSection(response.text, heading));
+    await checkpoint(response);
+  }
+
+  // Stage 3: Meta, FAQ and schema for the finished article
+  if (state.assembly === undefined) {
+    checkDeadline('meta, FAQ and schema');
+    console.log('Generating meta tags, FAQ and schema for the assembled article...');
+    const article = assembleArticle(outline, state.sections);
+    const assemblyPrompt = buildAssemblyPrompt(article, topic, joinedKeywords, factsText);
+    if (useStructuredOutput(provider)) {
+      const { content, response } = await callStructured(
+        provider,
+        assemblyPrompt,
+        temperature,
+        'assembly',
+        quietOptions,
+        ASSEMBLY_FIELDS
+      );
+      state.assembly = renderMarkerText(content); // Checkpoints keep one text format
+      await checkpoint(response);
+    } else {
+      const response = await callModel(provider, assemblyPrompt, SYSTEM_PROMPT, temperature, 'assembly', quietOptions);
+      state.assembly = response.text;
+      await checkpoint(response);
+    }
+  }
+
+  const finalContent = buildSectionedOutput(state);
+  const finalCount = wordCount(assembleArticle(outline, state.sections));
+  console.log(`Generated content word count: ${finalCount} (target: ${targetLength}) in ${totalSections} sections`);
+
+  return {
+    text: finalContent,
+    model: state.model || provider.model,
+    fallback: !!state.fallback,
+    state,
+  };
+}
+
+// Structured output fields that regenerate each parsed section
+const SECTION_FIELDS: Record<SectionName, ContentField> = {
+  metaTitle: 'metaTitle',
+  metaDescription: 'metaDescription',
+  contentMarkdown: 'contentMarkdown',
+  faqRaw: 'faq',
+  schemaJson: 'schema',
+};
+
+/**
+ * Parse marker output in recovery mode
+ * Every section that can be extracted is kept (with common JSON problems
+ * repaired); missing meta, FAQ or schema sections are regenerated with one
+ * extra request. Warnings list everything that was repaired or regenerated.
+ * Only a missing article is fatal - nothing worth keeping is left then.
+ */
+export async function parseWithRecovery(
+  text: string,
+  topic: string,
+  keywords: string[],
+  siteFacts?: SiteFacts,
+  options: GenerationOptions = {}
+): Promise<{ parsed: ParsedSections; warnings: string[] }> {
+  const first = parseSectionsLenient(text);
+  const warnings = [...first.repairs];
+  if (first.missing.length === 0) {
+    return { parsed: first.sections as ParsedSections, warnings };
+  }
+  if (first.missing.includes('contentMarkdown')) {
+    throw new Error('Failed to parse model output: CONTENT block not found in output');
+  }
+
+  const provider = options.provider || getContentProvider();
+  const temperature = parseFloat(process.env.PROMPT_TEMPERATURE || '0.2');
+  const labels = first.missing.map((name) => SECTION_LABELS[name]);
+  console.warn(`[AI] Output is missing ${labels.join(', ')}; regenerating only those sections`);
+
+  const prompt = buildMissingSectionsPrompt(
+    first.sections.contentMarkdown as string,
+    topic,
+    keywords.join(', '),
+    labels,
+    hasSiteFacts(siteFacts) ? formatSiteFacts(siteFacts) : undefined
+  );
+  const quietOptions: GenerationOptions = { ...options, onText: undefined };
+
+  let regenerated: string;
+  if (useStructuredOutput(provider)) {
+    const fields = first.missing.map((name) => SECTION_FIELDS[name]);
+    const { content } = await callStructured(provider, prompt, temperature, 'recover', quietOptions, fields);
+    regenerated = renderMarkerText(content);
+  } else {
+    regenerated = (await callModel(provider, prompt, SYSTEM_PROMPT, temperature, 'recover', quietOptions)).text;
+  }
+
+  const second = parseSectionsLenient(regenerated);
+  const stillMissing = first.missing.filter((name) => second.sections[name] === undefined);
+  if (stillMissing.length > 0) {
+    throw new Error(`Failed to parse model output: ${stillMissing.map((name) => SECTION_LABELS[name]).join(', ')} still missing after regeneration`);
+  }
+
+  const recovered: Partial<ParsedSections> = { ...first.sections };
+  for (const name of first.missing) {
+    Object.assign(recovered, { [name]: second.sections[name] });
+    if (name === 'schemaJson') recovered.schemaJsonString = second.sections.schemaJsonString;
+    if (name === 'faqRaw') recovered.faq = second.sections.faq;
+  }
+  warnings.push(`regenerated missing ${labels.join(', ')}`);
+  warnings.push(...second.repairs.map((repair) => `${repair} (regenerated output)`));
+
+  return { parsed: recovered as ParsedSections, warnings };
+}
+
+// Parts of the output each acceptance check concerns
+const CHECK_FIELDS: Record<AcceptanceFailure['check'], 'metaTitle' | 'metaDescription' | 'contentMarkdown'> = {
+  length: 'contentMarkdown',
+  metaTitle: 'metaTitle',
+  metaDescription: 'metaDescription',
+  keywords: 'contentMarkdown',
+  forbiddenTopics: 'contentMarkdown',
+};
+
+// Output budget for a full article rewrite: tokens per word plus room for the other fields
+const REVISION_TOKENS_PER_WORD = 1.5;
+const REVISION_TOKEN_OVERHEAD = 1000;
+// Largest output budget a revision may ask for; longer articles only get their metas revised
+const MAX_REVISION_TOKENS = 16000;
+// A revised article may lose this share of its words before it counts as truncated
+const REVISION_SHRINK_TOLERANCE = 0.1;
+
+function revisionMaxTokens(words: number): number {
+  return Math.max(DEFAULT_MAX_TOKENS, Math.ceil(words * REVISION_TOKENS_PER_WORD) + REVISION_TOKEN_OVERHEAD);
+}
+
+/**
+ * Why a revised candidate must be discarded, if it must: it fails a check the
+ * current version passes, or its article lost a meaningful share of its words
+ * without being cut down from above the target range
+ */
+function rejectRevision(
+  current: ParsedSections,
+  candidate: ParsedSections,
+  failures: AcceptanceFailure[],
+  remaining: AcceptanceFailure[],
+  input: AcceptanceInput,
+  config: AcceptanceConfig
+): string | null {
+  const introduced = remaining.filter((failure) => !failures.some((f) => f.check === failure.check));
+  if (introduced.length > 0) {
+    return `it introduces ${introduced.map((failure) => failure.message).join('; ')}`;
+  }
+
+  const before = wordCount(current.contentMarkdown);
+  const after = wordCount(candidate.contentMarkdown);
+  if (after < before * (1 - REVISION_SHRINK_TOLERANCE) && after < input.targetLength * (1 - config.lengthTolerance)) {
+    return `the article shrank from ${before} to ${after} words`;
+  }
+  return null;
+}
+
+/**
+ * Check the article against the acceptance criteria and revise what fails
+ * Each attempt asks for only the parts the failing checks concern and replaces
+ * just those; a revision that adds a failing check or truncates the article is
+ * discarded. Article rewrites get an output budget sized to the article, and
+ * an article too long for any budget only has its metas revised.
+ * Stops after config.maxRevisions attempts, on the deadline or on a failed call;
+ * cancellation and fatal model errors are thrown.
+ * Every attempt is reported through options.onRevision.
+ */
+export async function reviseUntilAccepted(
+  parsed: ParsedSections,
+  context: string,
+  input: AcceptanceInput,
+  siteFacts?: SiteFacts,
+  options: GenerationOptions = {},
+  config: AcceptanceConfig = getAcceptanceConfig()
+): Promise<{ parsed: ParsedSections; attempts: RevisionAttempt[]; unresolved: AcceptanceFailure[] }> {
+  const provider = options.provider || getContentProvider();
+  const temperature = parseFloat(process.env.PROMPT_TEMPERATURE || '0.2');
+  const factsText = hasSiteFacts(siteFacts) ? formatSiteFacts(siteFacts) : undefined;
+  const quietOptions: GenerationOptions = { ...options, onText: undefined };
+
+  let current = parsed;
+  let failures = checkAcceptance(current, input, config);
+  const attempts: RevisionAttempt[] = [];
+
+  while (failures.length > 0 && attempts.length < config.maxRevisions) {
+    if (options.deadlineAt && Date.now() > options.deadlineAt) {
+      console.warn('[AI] Worker time budget reached; skipping further revisions');
+      break;
+    }
+
+    let fields = Array.from(new Set(failures.map((failure) => CHECK_FIELDS[failure.check])));
+    let maxTokens = DEFAULT_MAX_TOKENS;
+    if (fields.includes('contentMarkdown')) {
+      maxTokens = revisionMaxTokens(Math.max(input.targetLength, wordCount(current.contentMarkdown)));
+      if (maxTokens > MAX_REVISION_TOKENS) {
+        console.warn(`[AI] Article too long to rewrite within ${MAX_REVISION_TOKENS} output tokens; revising metas only`);
+        fields = fields.filter((field) => field !== 'contentMarkdown');
+        maxTokens = DEFAULT_MAX_TOKENS;
+      }
+    }
+    if (fields.length === 0) break;
+
+    console.log(`[AI] Revision ${attempts.length + 1}/${config.maxRevisions}: ${failures.map((f) => f.message).join('; ')}`);
+    const prompt = buildRevisionPrompt(
+      context,
+      current,
+      failures.filter((failure) => fields.includes(CHECK_FIELDS[failure.check])),
+      { length: input.targetLength, metaTitleMax: config.metaTitleMax, metaDescriptionMax: config.metaDescriptionMax },
+      getLengthNote(wordCount(current.contentMarkdown), input.targetLength),
+      input.additionalNotes,
+      factsText
+    );
+
+    const attempt: RevisionAttempt = {
+      attempt: attempts.length + 1,
+      failures,
+      revised: [],
+      remaining: failures,
+      at: new Date().toISOString(),
+    };
+    attempts.push(attempt);
+
+    const revisionOptions: GenerationOptions = { ...quietOptions, maxTokens };
+    try {
+      let text: string;
+      if (useStructuredOutput(provider)) {
+        const { content, response } = await callStructured(provider, prompt, temperature, 'revise', revisionOptions, fields);
+        text = renderMarkerText(content);
+        attempt.model = response.model;
+      } else {
+        const response = await callModel(provider, prompt, SYSTEM_PROMPT, temperature, 'revise', revisionOptions);
+        text = response.text;
+        attempt.model = response.model;
+      }
+
+      const { sections } = parseSectionsLenient(text);
+      const missing = fields.filter((field) => !sections[field]);
+      if (missing.length > 0) {
+        throw new Error(`Revision is missing ${missing.map((field) => SECTION_LABELS[field]).join(', ')}`);
+      }
+
+      const candidate: ParsedSections = { ...current, ...pickRevised(sections, fields) };
+      const remaining = checkAcceptance(candidate, input, config);
+      const rejection = rejectRevision(current, candidate, failures, remaining, input, config);
+      if (rejection) {
+        throw new Error(`Revision discarded: ${rejection}`);
+      }
+
+      current = candidate;
+      failures = remaining;
+      attempt.revised = fields;
+      attempt.remaining = remaining;
+    } catch (error) {
+      if (options.signal?.aborted || (isModelError(error) && error.kind === 'fatal')) {
+        throw error;
+      }
+      attempt.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[AI] Revision ${attempt.attempt} failed: ${attempt.error}`);
+    }
+
+    if (options.onRevision) {
+      await options.onRevision(attempts.map((a) => ({ ...a })));
+    }
+    if (attempt.error) break;
+  }
+
+  return { parsed: current, attempts, unresolved: failures };
+}
+
+function pickRevised(
+  sections: Partial<ParsedSections>,
+  fields: Array<'metaTitle' | 'metaDescription' | 'contentMarkdown'>
+): Partial<ParsedSections> {
+  return Object.fromEntries(fields.map((field) => [field, sections[field]]));
 }
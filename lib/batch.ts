@@ -0,0 +1,290 @@
+/**
+ * Bulk generation - batch rows from CSV or JSON, batch progress and the zip export
+ * Every row becomes an ordinary job; the batch only groups them
+ */
+
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { normalizeUrl, splitKeywords } from './normalize';
+import { PROCESSING_STATUSES, JobStatus, type Batch, type Job } from './job-store';
+import { isCompletedStatus } from './queue';
+import { formatFaq } from './faq';
+import type { BatchJobSummary, BatchProgress } from './typing';
+
+export const MAX_BATCH_ROWS = 100;
+const DEFAULT_LENGTH = 1500;
+
+export type BatchFormat = 'csv' | 'json';
+
+// Accepted column names (case-insensitive) for each row field
+const COLUMN_ALIASES: Record<string, string[]> = {
+  url: ['url', 'website', 'site'],
+  topic: ['topic', 'title'],
+  keywords: ['keywords', 'keyword'],
+  length: ['length', 'words', 'word_count'],
+  notes: ['notes', 'additional_notes', 'additionalnotes'],
+};
+
+// Same limits as a single job from /api/generate
+const BatchRowSchema = z.object({
+  url: z.string().url().startsWith('https'),
+  topic: z.string().min(3).max(140),
+  keywords: z
+    .array(z.string().min(1).max(60))
+    .min(1, 'At least one keyword is required')
+    .max(12, 'Maximum 12 keywords allowed'),
+  length: z.number().int().min(300).max(5000),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and "" for a literal quote)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no row
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Turn CSV (with a header row) or a JSON array into raw records keyed by field name
+ */
+function readRecords(content: string, format: BatchFormat): Array<Record<string, unknown>> {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'parse failed'}`);
+    }
+    const items = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON must be an array of rows (or an object with a "rows" array)');
+    }
+    return items.map((item) => (item && typeof item === 'object' ? (item as Record<string, unknown>) : {}));
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    throw new Error('CSV is empty');
+  }
+  const names = header.map((name) => name.trim().toLowerCase());
+  return lines.map((fields) => Object.fromEntries(names.map((name, index) => [name, fields[index] ?? ''])));
+}
+
+/**
+ * Read a row field by any of its accepted column names
+ */
+function pick(record: Record<string, unknown>, field: string): unknown {
+  const lowered = Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = lowered[alias];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+/**
+ * Parse and validate batch rows into job inputs
+ * Columns: url, topic, keywords (comma-separated, or an array in JSON), length
+ * (default 1500) and notes. Every invalid row is reported by its row number;
+ * nothing is returned unless all rows are valid.
+ */
+export function parseBatchRows(
+  content: string,
+  format: BatchFormat
+): { inputs: Array<Job['input']>; errors: string[] } {
+  const records = readRecords(content, format);
+  if (records.length === 0) {
+    return { inputs: [], errors: ['No rows found'] };
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    return { inputs: [], errors: [`Maximum ${MAX_BATCH_ROWS} rows per batch (got ${records.length})`] };
+  }
+
+  const inputs: Array<Job['input']> = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const url = pick(record, 'url');
+    const topic = pick(record, 'topic');
+    const keywords = pick(record, 'keywords');
+    const length = pick(record, 'length');
+    const notes = pick(record, 'notes');
+
+    const validation = BatchRowSchema.safeParse({
+      url: typeof url === 'string' ? normalizeUrl(url) : url,
+      topic: typeof topic === 'string' ? topic.trim() : topic,
+      keywords: Array.isArray(keywords)
+        ? keywords.map((keyword) => String(keyword).trim()).filter(Boolean)
+        : splitKeywords(String(keywords ?? '')),
+      length: length === undefined ? DEFAULT_LENGTH : Number(length),
+      notes: notes === undefined ? undefined : String(notes).trim() || undefined,
+    });
+
+    if (!validation.success) {
+      const issues = validation.error.errors.map((e) => `${e.path.join('.') || 'row'}: ${e.message}`);
+      errors.push(`Row ${index + 1}: ${issues.join('; ')}`);
+      return;
+    }
+
+    const row = validation.data;
+    inputs.push({
+      url: row.url,
+      topic: row.topic,
+      keywords: row.keywords,
+      length: row.length,
+      additionalNotes: row.notes,
+    });
+  });
+
+  return { inputs: errors.length > 0 ? [] : inputs, errors };
+}
+
+/**
+ * Group a batch's job counts by status into queued/running/done/failed/cancelled
+ */
+export function summarizeBatch(counts: Record<string, number>): BatchProgress {
+  const count = (statuses: JobStatus[]) => statuses.reduce((sum, status) => sum + (counts[status] || 0), 0);
+  return {
+    total: Object.values(counts).reduce((sum, value) => sum + value, 0),
+    queued: count([JobStatus.PENDING]),
+    running: count(PROCESSING_STATUSES),
+    done: count([JobStatus.COMPLETED, JobStatus.COMPLETED_WITH_WARNINGS]),
+    failed: count([JobStatus.FAILED]),
+    cancelled: count([JobStatus.CANCELLED]),
+  };
+}
+
+/**
+ * Whether every job of the batch has stopped (nothing queued or running)
+ */
+export function isBatchFinished(progress: BatchProgress): boolean {
+  return progress.queued === 0 && progress.running === 0;
+}
+
+export function toBatchJobSummary(job: Job): BatchJobSummary {
+  return {
+    id: job.id,
+    url: job.input.url,
+    topic: job.input.topic,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    error: job.error,
+    seoScore: job.result?.seoReport?.score,
+  };
+}
+
+/**
+ * File-name-safe slug of a topic
+ */
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'article'
+  );
+}
+
+/**
+ * Quote a CSV field when it needs it
+ */
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Article markdown for the export: meta title and description, the article and its FAQ
+ */
+function articleMarkdown(result: NonNullable<Job['result']>): string {
+  const faq = result.faq ? formatFaq(result.faq) : result.faqRaw;
+  return [
+    '---',
+    `title: ${JSON.stringify(result.metaTitle)}`,
+    `description: ${JSON.stringify(result.metaDescription)}`,
+    '---',
+    '',
+    result.contentMarkdown.trim(),
+    '',
+    '## FAQ',
+    '',
+    faq.trim(),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Zip every finished article of a batch: one folder per job with the article
+ * markdown and its JSON-LD, plus summary.csv listing every job and its status
+ */
+export async function buildBatchZip(batch: Batch, jobs: Job[]): Promise<Buffer> {
+  const zip = new JSZip();
+  const summary = [['row', 'topic', 'url', 'status', 'seo_score', 'folder', 'job_id', 'error']];
+
+  jobs.forEach((job, index) => {
+    // Only finished jobs: a job being re-run may still carry its previous result
+    const result = isCompletedStatus(job.status) ? job.result : undefined;
+    const folder = result
+      ? `${String(index + 1).padStart(String(jobs.length).length, '0')}-${slugify(job.input.topic)}`
+      : '';
+    if (result) {
+      zip.file(`${folder}/article.md`, articleMarkdown(result));
+      zip.file(`${folder}/schema.json`, result.schemaJsonString);
+    }
+    summary.push([
+      String(index + 1),
+      job.input.topic,
+      job.input.url || '',
+      job.status,
+      result?.seoReport ? String(result.seoReport.score) : '',
+      folder,
+      job.id,
+      job.error || '',
+    ]);
+  });
+
+  zip.file('summary.csv', summary.map((fields) => fields.map(csvField).join(',')).join('\n') + '\n');
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', comment: `${batch.name} (${batch.id})` });
+}
@@ -0,0 +1,33 @@
+/**
+ * Per-stage checkpoints on a job
+ * Each pipeline stage saves its output when it finishes; a retried job continues
+ * from the first stage without a checkpoint, and a rerun drops the chosen stage
+ * and every stage after it
+ */
+
+import type { JobCheckpoints, JobStage } from './typing';
+
+export const JOB_STAGES: JobStage[] = ['crawl', 'generate', 'parse', 'revise'];
+
+export function isJobStage(value: unknown): value is JobStage {
+  return typeof value === 'string' && (JOB_STAGES as string[]).includes(value);
+}
+
+/**
+ * Checkpoints of the stages that run before the given one
+ */
+export function checkpointsBefore(checkpoints: JobCheckpoints | undefined, stage: JobStage): JobCheckpoints {
+  const kept: JobCheckpoints = {};
+  for (const earlier of JOB_STAGES.slice(0, JOB_STAGES.indexOf(stage))) {
+    if (checkpoints?.[earlier]) Object.assign(kept, { [earlier]: checkpoints[earlier] });
+  }
+  return kept;
+}
+
+/**
+ * First stage that still has to run; null when every stage has a checkpoint
+ * A stage only counts as done when all stages before it are done too
+ */
+export function firstIncompleteStage(checkpoints: JobCheckpoints | undefined): JobStage | null {
+  return JOB_STAGES.find((stage) => !checkpoints?.[stage]) || null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Persistent crawl cache - reuses extracted page text across jobs for the same site
+ * Entries keep HTTP validators (ETag / Last-Modified) so stale pages can be
+ * revalidated with a conditional request instead of a full re-fetch
+ */
+
+import { getJobStore, type CrawlCacheEntry } from './job-store';
+
+export type { CrawlCacheEntry };
+
+export interface CrawlCacheStore {
+  get(url: string): Promise<CrawlCacheEntry | null>;
+  set(entry: CrawlCacheEntry): Promise<void>;
+  prune(maxAgeMs: number): Promise<number>;
+}
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Get the freshness window for cached pages (CRAWL_CACHE_TTL_MS)
+ * Within the TTL a cached page is used without any request to the site
+ */
+export function getCrawlCacheTtlMs(): number {
+  const ttl = parseInt(process.env.CRAWL_CACHE_TTL_MS || String(DEFAULT_TTL_MS), 10);
+  return Number.isNaN(ttl) ? DEFAULT_TTL_MS : Math.max(0, ttl);
+}
+
+/**
+ * Check whether a cache entry is still within the freshness window
+ */
+export function isFresh(entry: CrawlCacheEntry, ttlMs = getCrawlCacheTtlMs()): boolean {
+  return Date.now() - entry.fetchedAt < ttlMs;
+}
+
+/**
+ * Get the crawl cache (kept in the job store), or null when caching is disabled
+ * Set CRAWL_CACHE_ENABLED=false to always crawl live
+ */
+export function getCrawlCache(): CrawlCacheStore | null {
+  if (process.env.CRAWL_CACHE_ENABLED === 'false') {
+    return null;
+  }
+
+  const store = getJobStore();
+  return {
+    get: (url) => store.getCachedPage(url),
+    set: (entry) => store.putCachedPage(entry),
+    prune: (maxAgeMs) => store.pruneCachedPages(Date.now() - maxAgeMs),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Cron expressions for recurring schedules
+ * Standard five fields (minute hour day-of-month month day-of-week), evaluated in
+ * UTC. Fields take *, lists (1,15), ranges (1-5), steps (0-59/15, 9-17/2) and
+ * month/day names (jan, mon). As in classic cron, when both day fields are
+ * restricted a day matches either of them.
+ */
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Shorthands for common rules
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+// How far ahead nextCronRun looks before deciding the expression never matches (e.g. 30 feb)
+const MAX_LOOKAHEAD_MS = 5 * 366 * 86400000;
+
+/**
+ * Parse one field into the values it matches
+ */
+function parseField(field: string, name: string, min: number, max: number, names: string[] = []): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (text: string): number => {
+    const named = names.indexOf(text.toLowerCase());
+    const value = named >= 0 ? named + (names === MONTH_NAMES ? 1 : 0) : Number(text);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid ${name} "${text}" in cron expression (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" for ${name} in cron expression`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) {
+        throw new Error(`Invalid ${name} range "${range}" in cron expression`);
+      }
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (or @hourly, @daily, @weekly, @monthly, @yearly)
+ * Throws with the offending field when the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim().toLowerCase();
+  const fields = (MACROS[trimmed] || trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got "${expression}"`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 'day of week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0); // 7 is Sunday too
+
+  return {
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day of month', 1, 31),
+    months: parseField(month, 'month', 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth.startsWith('*'),
+    anyDayOfWeek: dayOfWeek.startsWith('*'),
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First minute strictly after `after` (ms since epoch) that the expression
+ * matches; null when it matches nothing in the next five years
+ */
+export function nextCronRun(cron: CronExpression, after: number): number | null {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skip a whole month, day or hour at a time when it can't match
+  while (date.getTime() - after <= MAX_LOOKAHEAD_MS) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,474 @@
+/**
+ * Site facts extraction - pulls business details out of scraped HTML
+ * Sources, in order of trust: JSON-LD, microdata, OpenGraph, then page markup
+ * (tel:/mailto: links, <address>, social links, visible prices and opening hours)
+ */
+
+import * as cheerio from 'cheerio';
+import type { JsonLdGraph, JsonLdNode, PostalAddressFacts, PriceFact, SiteFacts } from './typing';
+
+// Caps that keep the facts section of the prompt short
+const MAX_LIST_ITEMS = 15;
+const MAX_PRICES = 20;
+
+const SOCIAL_HOSTS = [
+  'facebook.com',
+  'twitter.com',
+  'x.com',
+  'linkedin.com',
+  'instagram.com',
+  'youtube.com',
+  'tiktok.com',
+  'pinterest.com',
+];
+
+// schema.org types treated as "the business" when found in structured data
+const ORGANIZATION_TYPE = /(Organization|Corporation|LocalBusiness|Business|Store|Restaurant|Service|Agency|Office|Practice|Clinic|Dentist|Attorney|Contractor|Plumber|Electrician)$/i;
+
+const PRICE_PATTERN = /(?:[$€£]\s?\d[\d,]*(?:\.\d{2})?|\d[\d,]*(?:\.\d{2})?\s?(?:USD|EUR|GBP|AUD|CAD))/g;
+const HOURS_PATTERN =
+  /\b(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?(?:\s*(?:-|–|to)\s*(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?)?:?\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)?\s*(?:-|–|to)\s*\d{1,2}(?::\d{2})?\s*(?:am|pm)?/gi;
+
+/**
+ * Create an empty facts object
+ */
+export function emptySiteFacts(): SiteFacts {
+  return {
+    openingHours: [],
+    socialProfiles: [],
+    products: [],
+    services: [],
+    prices: [],
+  };
+}
+
+/**
+ * Collapse whitespace and trim
+ */
+function clean(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const cleaned = value.replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Push unique, non-empty values into a list up to a cap
+ */
+function pushUnique(list: string[], value: unknown, cap = MAX_LIST_ITEMS): void {
+  const cleaned = clean(value);
+  if (!cleaned || list.length >= cap) return;
+  if (!list.some((item) => item.toLowerCase() === cleaned.toLowerCase())) {
+    list.push(cleaned);
+  }
+}
+
+/**
+ * Normalize a schema.org @type value (string or array) into a list
+ */
+function typesOf(node: any): string[] {
+  const type = node?.['@type'];
+  if (Array.isArray(type)) return type.filter((t) => typeof t === 'string');
+  return typeof type === 'string' ? [type] : [];
+}
+
+/**
+ * Read a value that may be a string, an ImageObject-like object or an array
+ */
+function firstString(value: any): string | undefined {
+  if (Array.isArray(value)) return firstString(value[0]);
+  if (value && typeof value === 'object') return clean(value.url || value['@id'] || value.name);
+  return clean(value);
+}
+
+/**
+ * Build address facts from a schema.org PostalAddress (object or string)
+ */
+function toAddress(value: any): PostalAddressFacts | undefined {
+  if (Array.isArray(value)) return toAddress(value[0]);
+  if (typeof value === 'string') {
+    const formatted = clean(value);
+    return formatted ? { formatted } : undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const address: PostalAddressFacts = {
+    streetAddress: clean(value.streetAddress),
+    addressLocality: clean(value.addressLocality),
+    addressRegion: clean(value.addressRegion),
+    postalCode: clean(value.postalCode),
+    addressCountry: firstString(value.addressCountry),
+    formatted: '',
+  };
+
+  address.formatted = [
+    address.streetAddress,
+    address.addressLocality,
+    [address.addressRegion, address.postalCode].filter(Boolean).join(' '),
+    address.addressCountry,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return address.formatted ? address : undefined;
+}
+
+/**
+ * Flatten JSON-LD documents into a list of nodes (handles @graph and arrays)
+ */
+function flattenJsonLd(value: any, nodes: any[] = []): any[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => flattenJsonLd(item, nodes));
+  } else if (value && typeof value === 'object') {
+    if (Array.isArray(value['@graph'])) {
+      flattenJsonLd(value['@graph'], nodes);
+    }
+    if (value['@type']) {
+      nodes.push(value);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Record offer prices for an item
+ */
+function collectOffers(facts: SiteFacts, item: string | undefined, offers: any): void {
+  const list = Array.isArray(offers) ? offers : offers ? [offers] : [];
+  for (const offer of list) {
+    const price = offer?.price ?? offer?.lowPrice;
+    if (price === undefined || price === null || facts.prices.length >= MAX_PRICES) continue;
+    facts.prices.push({ item, price: String(price), currency: clean(offer.priceCurrency) });
+  }
+}
+
+/**
+ * Apply one structured-data node (from JSON-LD or microdata) to the facts
+ */
+function applyNode(facts: SiteFacts, node: any): void {
+  const types = typesOf(node);
+  const name = clean(typeof node.name === 'string' ? node.name : undefined);
+
+  if (types.some((type) => ORGANIZATION_TYPE.test(type)) && !types.includes('Service')) {
+    facts.organizationName = facts.organizationName || name;
+    facts.legalName = facts.legalName || clean(node.legalName);
+    facts.description = facts.description || clean(node.description);
+    facts.url = facts.url || clean(node.url);
+    facts.logo = facts.logo || firstString(node.logo) || firstString(node.image);
+    facts.address = facts.address || toAddress(node.address);
+    facts.telephone = facts.telephone || clean(node.telephone);
+    facts.email = facts.email || clean(node.email)?.replace(/^mailto:/i, '');
+
+    const sameAs = Array.isArray(node.sameAs) ? node.sameAs : node.sameAs ? [node.sameAs] : [];
+    sameAs.forEach((profile: unknown) => pushUnique(facts.socialProfiles, profile));
+
+    const hours = Array.isArray(node.openingHours) ? node.openingHours : node.openingHours ? [node.openingHours] : [];
+    hours.forEach((entry: unknown) => pushUnique(facts.openingHours, entry));
+
+    const specs = Array.isArray(node.openingHoursSpecification)
+      ? node.openingHoursSpecification
+      : node.openingHoursSpecification
+      ? [node.openingHoursSpecification]
+      : [];
+    for (const spec of specs) {
+      const days = (Array.isArray(spec.dayOfWeek) ? spec.dayOfWeek : [spec.dayOfWeek])
+        .filter(Boolean)
+        .map((day: string) => String(day).replace(/^https?:\/\/schema\.org\//, ''))
+        .join(', ');
+      if (days && spec.opens && spec.closes) {
+        pushUnique(facts.openingHours, `${days}: ${spec.opens}-${spec.closes}`);
+      }
+    }
+
+    // Services and products offered through a catalog
+    const catalog = node.hasOfferCatalog?.itemListElement;
+    for (const entry of Array.isArray(catalog) ? catalog : []) {
+      const offered = entry?.itemOffered || entry;
+      const offeredName = clean(offered?.name);
+      if (typesOf(offered).includes('Product')) {
+        pushUnique(facts.products, offeredName);
+      } else {
+        pushUnique(facts.services, offeredName);
+      }
+      collectOffers(facts, offeredName, entry?.offers || (entry?.price !== undefined ? entry : undefined));
+    }
+  }
+
+  if (types.includes('Product')) {
+    pushUnique(facts.products, name);
+    collectOffers(facts, name, node.offers);
+  }
+
+  if (types.includes('Service')) {
+    pushUnique(facts.services, name);
+    collectOffers(facts, name, node.offers);
+  }
+
+  if (types.includes('WebSite')) {
+    facts.organizationName = facts.organizationName || clean(node.publisher?.name);
+  }
+}
+
+/**
+ * Read a microdata item into a plain object resembling JSON-LD
+ */
+function readMicrodataItem($: cheerio.CheerioAPI, element: any): any {
+  const $item = $(element);
+  const itemtype = $item.attr('itemtype') || '';
+  const node: any = { '@type': itemtype.split(/\s+/).map((t) => t.split('/').pop()).filter(Boolean) };
+
+  $item.find('[itemprop]').each((_, prop) => {
+    const $prop = $(prop);
+
+    // Only direct properties - skip those that belong to a nested item
+    const owner = $prop.parent().closest('[itemscope]');
+    if (owner.length && owner[0] !== element) return;
+
+    const key = $prop.attr('itemprop');
+    if (!key) return;
+
+    const value = $prop.is('[itemscope]')
+      ? readMicrodataItem($, prop)
+      : $prop.attr('content') || $prop.attr('href') || $prop.attr('src') || $prop.text();
+
+    if (node[key] === undefined) {
+      node[key] = value;
+    } else {
+      node[key] = [].concat(node[key], value);
+    }
+  });
+
+  return node;
+}
+
+/**
+ * Extract business facts from a single page's HTML
+ */
+export function extractSiteFacts(html: string, pageUrl: string): SiteFacts {
+  const $ = cheerio.load(html);
+  const facts = emptySiteFacts();
+
+  // 1. JSON-LD
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      const json = JSON.parse($(script).contents().text());
+      flattenJsonLd(json).forEach((node) => applyNode(facts, node));
+    } catch {
+      // Invalid JSON-LD on the site, skip
+    }
+  });
+
+  // 2. Microdata (top-level items only; nested items are read by their parent)
+  $('[itemscope][itemtype*="schema.org"]').each((_, element) => {
+    if ($(element).parents('[itemscope]').length > 0) return;
+    applyNode(facts, readMicrodataItem($, element));
+  });
+
+  // 3. OpenGraph
+  facts.organizationName = facts.organizationName || clean($('meta[property="og:site_name"]').attr('content'));
+  facts.description = facts.description || clean($('meta[property="og:description"]').attr('content'));
+
+  // 4. Page markup
+  if (!facts.telephone) {
+    const tel = $('a[href^="tel:"]').first().attr('href');
+    facts.telephone = clean(tel?.replace(/^tel:/i, ''));
+  }
+  if (!facts.email) {
+    const mailto = $('a[href^="mailto:"]').first().attr('href');
+    facts.email = clean(mailto?.replace(/^mailto:/i, '').split('?')[0]);
+  }
+  if (!facts.address) {
+    const addressText = clean($('address').first().text());
+    if (addressText && addressText.length < 200) {
+      facts.address = { formatted: addressText };
+    }
+  }
+  if (!facts.logo) {
+    const logoSrc = $('img[src*="logo" i], img[alt*="logo" i]').first().attr('src');
+    if (logoSrc) {
+      try {
+        facts.logo = new URL(logoSrc, pageUrl).href;
+      } catch {
+        // Invalid URL, skip
+      }
+    }
+  }
+
+  $('a[href]').each((_, link) => {
+    const href = $(link).attr('href') || '';
+    try {
+      const host = new URL(href, pageUrl).hostname.replace(/^www\./, '');
+      if (SOCIAL_HOSTS.some((social) => host === social || host.endsWith(`.${social}`))) {
+        pushUnique(facts.socialProfiles, href);
+      }
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+
+  // Visible prices and opening hours from the body text (scripts and styles removed)
+  $('script, style, noscript').remove();
+  $('p, li, td, dd').each((_, element) => {
+    const $el = $(element);
+    if ($el.find('p, li, td, dd').length > 0) return; // Innermost blocks only to avoid duplicates
+
+    const text = clean($el.text());
+    if (!text || text.length > 300) return;
+
+    for (const match of text.match(PRICE_PATTERN) || []) {
+      if (facts.prices.length >= MAX_PRICES) break;
+      facts.prices.push({ item: text.length <= 120 ? text : undefined, price: match.trim() });
+    }
+    for (const match of text.match(HOURS_PATTERN) || []) {
+      pushUnique(facts.openingHours, match);
+    }
+  });
+
+  return facts;
+}
+
+/**
+ * Merge per-page facts; earlier entries win for single values (pass the homepage first)
+ */
+export function mergeSiteFacts(list: Array<SiteFacts | undefined>): SiteFacts {
+  const merged = emptySiteFacts();
+  const seenPrices = new Set<string>();
+
+  for (const facts of list) {
+    if (!facts) continue;
+
+    merged.organizationName = merged.organizationName || facts.organizationName;
+    merged.legalName = merged.legalName || facts.legalName;
+    merged.description = merged.description || facts.description;
+    merged.url = merged.url || facts.url;
+    merged.logo = merged.logo || facts.logo;
+    merged.address = merged.address || facts.address;
+    merged.telephone = merged.telephone || facts.telephone;
+    merged.email = merged.email || facts.email;
+
+    facts.openingHours.forEach((entry) => pushUnique(merged.openingHours, entry));
+    facts.socialProfiles.forEach((entry) => pushUnique(merged.socialProfiles, entry));
+    facts.products.forEach((entry) => pushUnique(merged.products, entry));
+    facts.services.forEach((entry) => pushUnique(merged.services, entry));
+
+    for (const price of facts.prices) {
+      const key = `${price.item || ''}|${price.price}`;
+      if (seenPrices.has(key) || merged.prices.length >= MAX_PRICES) continue;
+      seenPrices.add(key);
+      merged.prices.push(price);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Check whether any fact was found
+ */
+export function hasSiteFacts(facts: SiteFacts | undefined): facts is SiteFacts {
+  if (!facts) return false;
+  return Boolean(
+    facts.organizationName ||
+      facts.address ||
+      facts.telephone ||
+      facts.email ||
+      facts.logo ||
+      facts.openingHours.length ||
+      facts.socialProfiles.length ||
+      facts.products.length ||
+      facts.services.length ||
+      facts.prices.length
+  );
+}
+
+/**
+ * Format facts as labelled lines for the prompt
+ */
+export function formatSiteFacts(facts: SiteFacts): string {
+  const lines: string[] = [];
+  const formatPrice = (price: PriceFact) =>
+    `${price.price}${price.currency ? ` ${price.currency}` : ''}${price.item ? ` - ${price.item}` : ''}`;
+
+  if (facts.organizationName) lines.push(`Business name: ${facts.organizationName}`);
+  if (facts.legalName) lines.push(`Legal name: ${facts.legalName}`);
+  if (facts.url) lines.push(`Website: ${facts.url}`);
+  if (facts.description) lines.push(`Description: ${facts.description}`);
+  if (facts.address) lines.push(`Address: ${facts.address.formatted}`);
+  if (facts.telephone) lines.push(`Phone: ${facts.telephone}`);
+  if (facts.email) lines.push(`Email: ${facts.email}`);
+  if (facts.logo) lines.push(`Logo: ${facts.logo}`);
+  if (facts.openingHours.length) lines.push(`Opening hours: ${facts.openingHours.join('; ')}`);
+  if (facts.services.length) lines.push(`Services: ${facts.services.join('; ')}`);
+  if (facts.products.length) lines.push(`Products: ${facts.products.join('; ')}`);
+  if (facts.prices.length) lines.push(`Prices:\n${facts.prices.map((p) => `- ${formatPrice(p)}`).join('\n')}`);
+  if (facts.socialProfiles.length) lines.push(`Social profiles: ${facts.socialProfiles.join(', ')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a schema.org Organization (or LocalBusiness when an address is known)
+ */
+export function buildOrganizationSchema(facts: SiteFacts): Record<string, any> {
+  const organization: Record<string, any> = {
+    '@type': facts.address ? 'LocalBusiness' : 'Organization',
+    name: facts.organizationName,
+  };
+
+  if (facts.url) organization.url = facts.url;
+  if (facts.logo) organization.logo = { '@type': 'ImageObject', url: facts.logo };
+  if (facts.telephone) organization.telephone = facts.telephone;
+  if (facts.email) organization.email = facts.email;
+  if (facts.socialProfiles.length) organization.sameAs = facts.socialProfiles;
+  if (facts.openingHours.length && facts.address) organization.openingHours = facts.openingHours;
+  if (facts.address) {
+    const { formatted, ...parts } = facts.address;
+    const hasParts = Object.values(parts).some(Boolean);
+    organization.address = hasParts
+      ? { '@type': 'PostalAddress', ...Object.fromEntries(Object.entries(parts).filter(([, v]) => v)) }
+      : { '@type': 'PostalAddress', streetAddress: formatted };
+  }
+
+  return organization;
+}
+
+/**
+ * Pre-fill generated JSON-LD with known business facts
+ * Article-like nodes get the real publisher/author, and an Organization or
+ * LocalBusiness node replaces whatever the model guessed
+ * The model may write a single node, an array of nodes or a @graph.
+ */
+export function applySiteFactsToSchema(schemaJson: object, facts: SiteFacts): object {
+  if (!facts.organizationName || !schemaJson || typeof schemaJson !== 'object') {
+    return schemaJson;
+  }
+
+  const organization = buildOrganizationSchema(facts);
+  const reference = { '@type': 'Organization', name: facts.organizationName, ...(facts.url ? { url: facts.url } : {}) };
+
+  const root = schemaJson as JsonLdNode | unknown[];
+  const graph: unknown[] = Array.isArray(root) ? root : Array.isArray(root['@graph']) ? root['@graph'] : [root];
+  const isNode = (value: unknown): value is JsonLdNode => !!value && typeof value === 'object' && !Array.isArray(value);
+  // An array root carries its @context on the nodes
+  const context = (Array.isArray(root) ? graph.find(isNode) : root)?.['@context'];
+
+  const nodes: JsonLdNode[] = graph
+    .filter(isNode)
+    .filter((node) => !typesOf(node).some((type) => ORGANIZATION_TYPE.test(type) && type !== 'Service'))
+    .map((node) => {
+      if (!typesOf(node).some((type) => /Article|BlogPosting|WebPage|HowTo/.test(type))) {
+        return node;
+      }
+      const author = node.author as JsonLdNode | undefined;
+      return {
+        ...node,
+        author: author && author['@type'] === 'Person' ? author : reference,
+        publisher: {
+          ...reference,
+          ...(organization.logo ? { logo: organization.logo } : {}),
+        },
+      };
+    });
+
+  const result: JsonLdGraph = { '@context': context || 'https://schema.org', '@graph': [...nodes, organization] };
+  return result;
+}
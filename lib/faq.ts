@@ -0,0 +1,103 @@
+/**
+ * FAQ as structured question/answer pairs
+ * The FAQPage JSON-LD is built from the same pairs the reader sees, so the
+ * markup can never disagree with the visible FAQ
+ */
+
+import type { FaqItem, JsonLdGraph, JsonLdNode } from './typing';
+
+/**
+ * Parse "Q: ... / A: ..." text into pairs
+ * Tolerates bold or numbered labels ("**Q1:**") and answers spanning several lines
+ */
+export function parseFaq(faqRaw: string): FaqItem[] {
+  const items: FaqItem[] = [];
+  let current: { question: string[]; answer: string[] } | null = null;
+  let target: 'question' | 'answer' = 'question';
+
+  const flush = () => {
+    if (!current) return;
+    const question = current.question.join(' ').trim();
+    const answer = current.answer.join('\n').trim();
+    if (question && answer) items.push({ question, answer });
+  };
+
+  for (const line of faqRaw.split('\n')) {
+    const label = line.match(/^\s*(?:[-*]\s+)?\**\s*([QA])\d*\s*[:.)]\**\s*(.*)$/i);
+    if (label && label[1].toUpperCase() === 'Q') {
+      flush();
+      current = { question: [label[2].replace(/\*+$/, '')], answer: [] };
+      target = 'question';
+    } else if (label && current) {
+      current.answer.push(label[2]);
+      target = 'answer';
+    } else if (current && line.trim()) {
+      current[target].push(line.trim());
+    }
+  }
+  flush();
+
+  return items;
+}
+
+/**
+ * Pairs back to the "Q: / A:" text used for copying
+ */
+export function formatFaq(items: FaqItem[]): string {
+  return items.map((item) => `Q: ${item.question}\nA: ${item.answer}`).join('\n\n');
+}
+
+export function buildFaqPageSchema(items: FaqItem[]): Record<string, unknown> {
+  return {
+    '@type': 'FAQPage',
+    mainEntity: items.map((item) => ({
+      '@type': 'Question',
+      name: item.question,
+      acceptedAnswer: { '@type': 'Answer', text: item.answer },
+    })),
+  };
+}
+
+function isJsonLdNode(value: unknown): value is JsonLdNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFaqPage(node: JsonLdNode): boolean {
+  const type = node['@type'];
+  return Array.isArray(type) ? type.includes('FAQPage') : type === 'FAQPage';
+}
+
+/**
+ * Replace whatever FAQPage the model wrote with one built from the pairs
+ * (or drop it when there are no pairs); other nodes are kept as they are
+ * The model may write a single node, an array of nodes or a @graph.
+ */
+export function mergeFaqPageSchema(schemaJson: unknown, items: FaqItem[]): JsonLdGraph {
+  const root: JsonLdNode | unknown[] = Array.isArray(schemaJson) || isJsonLdNode(schemaJson) ? schemaJson : {};
+  const graph: unknown[] = Array.isArray(root)
+    ? root
+    : Array.isArray(root['@graph'])
+      ? root['@graph']
+      : Object.keys(root).length > 0
+        ? [root]
+        : [];
+  // An array root carries its @context on the nodes
+  const context = (Array.isArray(root) ? graph.find(isJsonLdNode) : root)?.['@context'];
+
+  const nodes: JsonLdNode[] = graph
+    .filter(isJsonLdNode)
+    .filter((node) => !isFaqPage(node))
+    .map((node) => {
+      // Nodes lifted out of a single-node or array root don't need their own @context
+      const { '@context': _context, ...rest } = node;
+      return rest;
+    });
+  if (items.length > 0) {
+    nodes.push(buildFaqPageSchema(items));
+  }
+
+  return {
+    '@context': context || 'https://schema.org',
+    '@graph': nodes,
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Grounding check - verifies the article's factual claims against the site context
+ * Numbers, prices, timeframes, named entities and superlatives are pulled out of
+ * every sentence and looked up in the passages the model was given. A claim is
+ * supported when a passage states it, contradicted when the passage about the
+ * same subject gives a different price or timeframe, and unsupported otherwise.
+ */
+
+import { tokenize } from './retrieval';
+import type { ClaimKind, ClaimStatus, GroundedSentence, GroundingClaim, GroundingReport, Passage } from './typing';
+
+// Shared content words before a passage counts as being about the same subject
+const MIN_TOPIC_OVERLAP = 3;
+const MIN_SUPERLATIVE_OVERLAP = 2;
+const EVIDENCE_CHARS = 160;
+
+const PRICE_PATTERN =
+  /[$€£]\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:k|m|bn|thousand|million|billion)\b)?|\b\d[\d,]*(?:\.\d+)?\s?(?:dollars|euros|pounds|usd|eur|gbp)\b/gi;
+const TIMEFRAME_PATTERN =
+  /\b\d[\d,.]*(?:\s?(?:-|–|to)\s?\d[\d,.]*)?[\s-]?(?:minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|yrs?|decades?)\b|\b24\/7\b|\b(?:since|established in|founded in)\s(?:1[89]|20)\d{2}\b/gi;
+const NUMBER_PATTERN = /\b\d[\d,]*(?:\.\d+)?(?:\s?%|\s?percent\b)?/gi;
+const SUPERLATIVE_PATTERN =
+  /\b(?:best|largest|biggest|leading|top-rated|highest-rated|highest|lowest|cheapest|fastest|most (?:trusted|experienced|popular|reliable|affordable)|number one|award-winning|unbeatable|unmatched|unrivall?ed|world-class)\b|#1\b/gi;
+
+const UNIT_ALIASES: Record<string, string> = {
+  min: 'minute', mins: 'minute', minute: 'minute', minutes: 'minute',
+  hr: 'hour', hrs: 'hour', hour: 'hour', hours: 'hour',
+  day: 'day', days: 'day', week: 'week', weeks: 'week', month: 'month', months: 'month',
+  yr: 'year', yrs: 'year', year: 'year', years: 'year', decade: 'decade', decades: 'decade',
+};
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, bn: 1e9, billion: 1e9 };
+
+// Capitalized words that start sentences or headings rather than name something
+const ENTITY_STOPWORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'each', 'every', 'for', 'from', 'here', 'how', 'i', 'if', 'in',
+  'it', 'its', 'many', 'most', 'no', 'on', 'or', 'our', 'some', 'that', 'the', 'there', 'these', 'this',
+  'those', 'to', 'we', 'what', 'when', 'where', 'whether', 'which', 'while', 'who', 'why', 'with', 'yes',
+  'you', 'your', 'step', 'faq', 'q', 'call', 'contact', 'book', 'get', 'learn', 'read', 'ready', 'choose',
+]);
+const ENTITY_CONNECTORS = new Set(['of', 'and', '&', 'the', 'for', 'de']);
+
+interface Timeframe {
+  values: number[];
+  unit: string; // Normalized unit, or the literal for 24/7 and "since <year>"
+}
+
+interface IndexedPassage {
+  passage: Passage;
+  text: string; // Lowercased
+  tokens: Set<string>;
+  numbers: number[];
+  prices: number[];
+  timeframes: Timeframe[];
+}
+
+function parseAmount(raw: string): number {
+  const match = raw.toLowerCase().replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|m|bn|thousand|million|billion)?\b/);
+  if (!match) return NaN;
+  return parseFloat(match[1]) * (match[2] ? MULTIPLIERS[match[2]] : 1);
+}
+
+function parseTimeframe(raw: string): Timeframe {
+  const lower = raw.toLowerCase();
+  if (lower === '24/7') return { values: [], unit: '24/7' };
+  const values = (lower.replace(/,/g, '').match(/\d+(?:\.\d+)?/g) || []).map(parseFloat);
+  if (/^(?:since|established|founded)/.test(lower)) return { values, unit: 'since' };
+  const unit = lower.match(/[a-z]+$/)?.[0] || '';
+  return { values, unit: UNIT_ALIASES[unit] || unit };
+}
+
+function matchesOf(text: string, pattern: RegExp): Array<{ text: string; index: number }> {
+  return Array.from(text.matchAll(pattern)).map((match) => ({ text: match[0].trim(), index: match.index ?? 0 }));
+}
+
+function indexPassage(passage: Passage): IndexedPassage {
+  const text = `${passage.title}\n${passage.text}`;
+  return {
+    passage,
+    text: text.toLowerCase(),
+    tokens: new Set(tokenize(text)),
+    numbers: matchesOf(text, NUMBER_PATTERN).map((match) => parseAmount(match.text)),
+    prices: matchesOf(text, PRICE_PATTERN).map((match) => parseAmount(match.text)),
+    timeframes: matchesOf(text, TIMEFRAME_PATTERN).map((match) => parseTimeframe(match.text)),
+  };
+}
+
+function overlap(sentenceTokens: string[], source: IndexedPassage): number {
+  return sentenceTokens.filter((token) => source.tokens.has(token)).length;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|[^a-z0-9])${escaped}(?:$|[^a-z0-9])`).test(text);
+}
+
+function sameTimeframe(a: Timeframe, b: Timeframe): boolean {
+  return a.unit === b.unit && a.values.every((value) => b.values.includes(value));
+}
+
+/**
+ * Short excerpt of the passage around the first occurrence of needle
+ */
+function excerpt(source: IndexedPassage, needle: string): string {
+  const text = source.passage.text.replace(/\s+/g, ' ');
+  const at = Math.max(0, text.toLowerCase().indexOf(needle.toLowerCase()));
+  const start = Math.max(0, at - EVIDENCE_CHARS / 2);
+  const snippet = text.slice(start, start + EVIDENCE_CHARS).trim();
+  return `${start > 0 ? '...' : ''}${snippet}${start + EVIDENCE_CHARS < text.length ? '...' : ''}`;
+}
+
+/**
+ * Markdown reduced to the plain-text blocks a reader sees (paragraphs, list
+ * items, quotes and table cells), keeping punctuation so sentences can be split
+ * Headings and code are skipped - they hold no claims worth checking
+ */
+function readBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join('\n'));
+    paragraph = [];
+  };
+  const inline = (text: string) =>
+    text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__)(.*?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const trimmed = line.trim();
+    if (!trimmed || /^#{1,6}\s/.test(trimmed) || /^(?:-{3,}|\*{3,})$/.test(trimmed)) {
+      flush();
+    } else if (trimmed.startsWith('|')) {
+      flush();
+      if (!/^\|?\s*:?-{3,}/.test(trimmed)) {
+        blocks.push(...trimmed.split('|').map(inline).filter(Boolean));
+      }
+    } else if (/^(?:>\s*)*(?:[-*+]|\d+[.)])\s+/.test(trimmed)) {
+      flush();
+      paragraph.push(inline(trimmed.replace(/^(?:>\s*)*(?:[-*+]|\d+[.)])\s+/, '')));
+    } else {
+      paragraph.push(inline(trimmed.replace(/^(?:>\s*)+/, '')));
+    }
+  }
+  flush();
+
+  return blocks.filter(Boolean);
+}
+
+function splitSentences(block: string): string[] {
+  return block
+    .split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9$€£#])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Runs of capitalized words that name something (brands, places, people, certifications)
+ */
+function extractEntities(sentence: string): string[] {
+  const words = sentence.split(/\s+/);
+  const entities: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    while (run.length > 0 && ENTITY_CONNECTORS.has(run[run.length - 1].toLowerCase())) run.pop();
+    if (run.length > 0 && !run.every((word) => ENTITY_STOPWORDS.has(word.toLowerCase()))) {
+      // "Acme's" names Acme; a possessive inside the run belongs to the name ("Angie's List")
+      entities.push(run.join(' ').replace(/(?:'s|’s)$/, ''));
+    }
+    run = [];
+  };
+
+  words.forEach((raw, index) => {
+    const word = raw.replace(/^["“'(]+/, '').replace(/["”')\],.;:!?]*$/, '');
+    const capitalized = /^[A-Z][A-Za-z0-9&'’.-]*[A-Za-z0-9]$/.test(word);
+    const endsRun = /[,.;:!?)"”]$/.test(raw);
+
+    if (capitalized && !(index === 0 && ENTITY_STOPWORDS.has(word.toLowerCase()))) {
+      run.push(word);
+    } else if (run.length > 0 && ENTITY_CONNECTORS.has(word.toLowerCase()) && !endsRun) {
+      run.push(word);
+    } else {
+      flush();
+    }
+    if (endsRun) flush();
+  });
+  flush();
+
+  // A lone capitalized word at the start of a sentence is just the sentence start
+  const first = words[0]?.replace(/^["“'(]+/, '').replace(/[^A-Za-z0-9]+$/, '');
+  return entities.filter((entity) => entity !== first || /[A-Z].*[A-Z]/.test(entity));
+}
+
+/**
+ * Claims in one sentence, in reading order; numbers that are part of a price or
+ * timeframe are not repeated as plain numbers
+ */
+function extractClaims(sentence: string): Array<{ text: string; kind: ClaimKind }> {
+  const claims: Array<{ text: string; kind: ClaimKind; index: number }> = [];
+  const taken: Array<[number, number]> = [];
+  const add = (kind: ClaimKind, matches: Array<{ text: string; index: number }>) => {
+    for (const match of matches) {
+      const end = match.index + match.text.length;
+      if (taken.some(([start, stop]) => match.index < stop && end > start)) continue;
+      taken.push([match.index, end]);
+      claims.push({ ...match, kind });
+    }
+  };
+
+  add('price', matchesOf(sentence, PRICE_PATTERN));
+  add('timeframe', matchesOf(sentence, TIMEFRAME_PATTERN));
+  // Small counts ("3 steps", "5 tips") describe the article, not the business
+  add('number', matchesOf(sentence, NUMBER_PATTERN).filter((match) => /%|percent/i.test(match.text) || parseAmount(match.text) >= 10));
+  add('superlative', matchesOf(sentence, SUPERLATIVE_PATTERN));
+  for (const entity of extractEntities(sentence)) {
+    claims.push({ text: entity, kind: 'entity', index: sentence.indexOf(entity) });
+  }
+
+  const seen = new Set<string>();
+  return claims
+    .sort((a, b) => a.index - b.index)
+    .filter((claim) => {
+      const key = `${claim.kind}:${claim.text.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ text, kind }) => ({ text, kind }));
+}
+
+function verifyClaim(
+  claim: { text: string; kind: ClaimKind },
+  sentenceTokens: string[],
+  sources: IndexedPassage[]
+): GroundingClaim {
+  const ranked = sources
+    .map((source) => ({ source, overlap: overlap(sentenceTokens, source) }))
+    .sort((a, b) => b.overlap - a.overlap);
+
+  const supportedBy = (predicate: (source: IndexedPassage) => boolean, minOverlap = 0) =>
+    ranked.find((entry) => entry.overlap >= minOverlap && predicate(entry.source))?.source;
+  const result = (status: ClaimStatus, source?: IndexedPassage, needle = claim.text): GroundingClaim => ({
+    text: claim.text,
+    kind: claim.kind,
+    status,
+    sourceUrl: source?.passage.url,
+    evidence: source ? excerpt(source, needle) : undefined,
+  });
+
+  // The passage about the same subject, if one is close enough to contradict the claim
+  const topical = ranked[0] && ranked[0].overlap >= MIN_TOPIC_OVERLAP ? ranked[0].source : undefined;
+
+  switch (claim.kind) {
+    case 'price': {
+      const value = parseAmount(claim.text);
+      const source = supportedBy((s) => s.prices.includes(value) || s.numbers.includes(value));
+      if (source) return result('supported', source, String(value));
+      if (topical && topical.prices.length > 0) return result('contradicted', topical, '$');
+      return result('unsupported');
+    }
+    case 'timeframe': {
+      const timeframe = parseTimeframe(claim.text);
+      const source = supportedBy((s) =>
+        timeframe.unit === '24/7' ? s.text.includes('24/7') : s.timeframes.some((t) => sameTimeframe(timeframe, t))
+      );
+      if (source) return result('supported', source, timeframe.unit === '24/7' ? '24/7' : String(timeframe.values[0]));
+      const conflicting = topical?.timeframes.find((t) => t.unit === timeframe.unit && !sameTimeframe(timeframe, t));
+      if (topical && conflicting) return result('contradicted', topical, String(conflicting.values[0] ?? timeframe.unit));
+      return result('unsupported');
+    }
+    case 'number': {
+      const value = parseAmount(claim.text);
+      const source = supportedBy((s) => s.numbers.includes(value));
+      return source ? result('supported', source, claim.text.replace(/\s?(?:%|percent)$/i, '')) : result('unsupported');
+    }
+    case 'entity': {
+      const source = supportedBy((s) => containsPhrase(s.text, claim.text));
+      return source ? result('supported', source) : result('unsupported');
+    }
+    case 'superlative': {
+      const source = supportedBy((s) => containsPhrase(s.text, claim.text), MIN_SUPERLATIVE_OVERLAP);
+      return source ? result('supported', source) : result('unsupported');
+    }
+  }
+}
+
+/**
+ * Check every claim in the article against the given passages
+ * Only sentences that contain at least one claim are listed in the report
+ */
+export function checkGrounding(markdown: string, passages: Passage[]): GroundingReport {
+  const sources = passages.map(indexPassage);
+  const sentences: GroundedSentence[] = [];
+
+  for (const block of readBlocks(markdown)) {
+    for (const sentence of splitSentences(block)) {
+      const extracted = extractClaims(sentence);
+      if (extracted.length === 0) continue;
+
+      const tokens = Array.from(new Set(tokenize(sentence)));
+      const claims = extracted.map((claim) => verifyClaim(claim, tokens, sources));
+      const status: ClaimStatus = claims.some((c) => c.status === 'contradicted')
+        ? 'contradicted'
+        : claims.some((c) => c.status === 'unsupported')
+        ? 'unsupported'
+        : 'supported';
+      sentences.push({ text: sentence, status, claims });
+    }
+  }
+
+  const claims = sentences.flatMap((sentence) => sentence.claims);
+  return {
+    claimCount: claims.length,
+    supported: claims.filter((claim) => claim.status === 'supported').length,
+    unsupported: claims.filter((claim) => claim.status === 'unsupported').length,
+    contradicted: claims.filter((claim) => claim.status === 'contradicted').length,
+    sentences,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Rehype plugin that wraps sentences in <mark> elements in rendered markdown
+ * Used to highlight unsupported claims in the article; a sentence may span
+ * several text nodes (bold, links), so matching runs on each block's joined text
+ */
+
+export interface HighlightedSentence {
+  text: string;
+  className: string;
+  title?: string;
+}
+
+// Minimal hast node shape - only what the plugin touches
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+interface TextRef {
+  node: HastNode;
+  parent: HastNode;
+  start: number; // Offset of the node's text within the block
+}
+
+interface Range {
+  start: number;
+  end: number;
+  sentence: HighlightedSentence;
+}
+
+const BLOCK_TAGS = new Set(['p', 'li', 'td', 'th', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/**
+ * Text nodes of a block in reading order, without descending into nested blocks
+ */
+function collectText(node: HastNode, refs: TextRef[], offset: { value: number }): void {
+  for (const child of node.children || []) {
+    if (child.type === 'text') {
+      refs.push({ node: child, parent: node, start: offset.value });
+      offset.value += (child.value || '').length;
+    } else if (child.type === 'element' && !BLOCK_TAGS.has(child.tagName || '')) {
+      collectText(child, refs, offset);
+    }
+  }
+}
+
+function highlightBlock(block: HastNode, sentences: HighlightedSentence[]): void {
+  const refs: TextRef[] = [];
+  collectText(block, refs, { value: 0 });
+  const text = refs.map((ref) => ref.node.value || '').join('');
+
+  const ranges: Range[] = [];
+  for (const sentence of sentences) {
+    const start = text.indexOf(sentence.text);
+    if (start === -1) continue;
+    const end = start + sentence.text.length;
+    if (!ranges.some((range) => start < range.end && end > range.start)) ranges.push({ start, end, sentence });
+  }
+  if (ranges.length === 0) return;
+
+  for (const ref of refs) {
+    const value = ref.node.value || '';
+    const nodeEnd = ref.start + value.length;
+    const cuts = ranges
+      .filter((range) => range.start < nodeEnd && range.end > ref.start)
+      .sort((a, b) => a.start - b.start);
+    if (cuts.length === 0) continue;
+
+    const pieces: HastNode[] = [];
+    let position = 0;
+    for (const range of cuts) {
+      const from = Math.max(0, range.start - ref.start);
+      const to = Math.min(value.length, range.end - ref.start);
+      if (from > position) pieces.push({ type: 'text', value: value.slice(position, from) });
+      pieces.push({
+        type: 'element',
+        tagName: 'mark',
+        properties: { className: [range.sentence.className], title: range.sentence.title },
+        children: [{ type: 'text', value: value.slice(from, to) }],
+      });
+      position = to;
+    }
+    if (position < value.length) pieces.push({ type: 'text', value: value.slice(position) });
+
+    const siblings = ref.parent.children || [];
+    siblings.splice(siblings.indexOf(ref.node), 1, ...pieces);
+  }
+}
+
+function visitBlocks(node: HastNode, sentences: HighlightedSentence[]): void {
+  if (node.type === 'element' && BLOCK_TAGS.has(node.tagName || '')) {
+    highlightBlock(node, sentences);
+  }
+  for (const child of [...(node.children || [])]) {
+    visitBlocks(child, sentences);
+  }
+}
+
+/**
+ * rehypePlugins entry: [rehypeHighlightSentences, sentences]
+ */
+export function rehypeHighlightSentences(sentences: HighlightedSentence[]) {
+  return (tree: HastNode) => {
+    if (sentences.length > 0) visitBlocks(tree, sentences);
+  };
+}
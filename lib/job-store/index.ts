@@ -0,0 +1,50 @@
+/**
+ * Job store registry
+ * JOB_STORE picks the backend every queue operation and API route goes through
+ */
+
+import type { JobStore, JobStoreName } from './types';
+import { createSupabaseJobStore } from './supabase';
+import { createSqliteJobStore } from './sqlite';
+import { createMemoryJobStore } from './memory';
+
+export * from './types';
+export { jobToRow } from './rows';
+
+export const JOB_STORE_NAMES: JobStoreName[] = ['supabase', 'sqlite', 'memory'];
+
+const factories: Record<JobStoreName, () => JobStore> = {
+  supabase: createSupabaseJobStore,
+  sqlite: () => createSqliteJobStore(),
+  memory: createMemoryJobStore,
+};
+
+// One store per process - the memory store only works as a singleton
+let store: JobStore | null = null;
+
+export function isJobStoreName(value: unknown): value is JobStoreName {
+  return typeof value === 'string' && (JOB_STORE_NAMES as string[]).includes(value);
+}
+
+/**
+ * Configured backend (env JOB_STORE, default supabase)
+ */
+export function getJobStoreName(): JobStoreName {
+  const configured = process.env.JOB_STORE?.trim().toLowerCase();
+  if (!configured) return 'supabase';
+  if (!isJobStoreName(configured)) {
+    throw new Error(`Unknown JOB_STORE '${configured}'. Expected one of: ${JOB_STORE_NAMES.join(', ')}`);
+  }
+  return configured;
+}
+
+/**
+ * Get the configured job store
+ */
+export function getJobStore(): JobStore {
+  const name = getJobStoreName();
+  if (!store || store.name !== name) {
+    store = factories[name]();
+  }
+  return store;
+}
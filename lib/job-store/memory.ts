@@ -0,0 +1,255 @@
+/**
+ * In-memory job store for tests and single-process local runs
+ * Jobs live only as long as the server process; nothing is persisted
+ */
+
+import {
+  PROCESSING_STATUSES,
+  JobStatus,
+  type Batch,
+  type CrawlCacheEntry,
+  type Job,
+  type JobCall,
+  type JobListQuery,
+  type JobStore,
+  type Schedule,
+} from './types';
+import {
+  appliesToCancelled,
+  jobToRow,
+  pickClaimCandidate,
+  releaseExpiredRow,
+  rowToJob,
+  rowToProgress,
+  rowToSchedule,
+  scheduleToRow,
+  scheduleUpdatesToRow,
+  updatesToRow,
+  type JobRow,
+} from './rows';
+
+function matches(row: JobRow, query: JobListQuery): boolean {
+  if (query.statuses && !query.statuses.includes(row.status as JobStatus)) return false;
+  if (query.batchId !== undefined && row.batch_id !== query.batchId) return false;
+  if (query.scheduleId !== undefined && row.schedule_id !== query.scheduleId) return false;
+  if (query.createdAfter !== undefined && row.created_at < query.createdAfter) return false;
+  if (query.updatedBefore !== undefined && row.updated_at >= query.updatedBefore) return false;
+  return true;
+}
+
+function hasLiveLease(row: JobRow, now: number): boolean {
+  return row.lease_expires_at !== null && row.lease_expires_at >= now;
+}
+
+export function createMemoryJobStore(): JobStore {
+  // Rows are copied in and out so callers never hold a reference to stored state
+  const rows = new Map<string, JobRow>();
+  const batches = new Map<string, Batch>();
+  const schedules = new Map<string, Schedule>();
+  const calls: JobCall[] = [];
+  const crawlCache = new Map<string, CrawlCacheEntry>();
+  const read = (row: JobRow): Job => rowToJob(structuredClone(row));
+  const patch = (row: JobRow, changes: Partial<JobRow>) => {
+    rows.set(row.id, { ...row, ...structuredClone(changes) });
+  };
+
+  return {
+    name: 'memory',
+
+    async create(job: Job) {
+      if (rows.has(job.id)) {
+        throw new Error(`Failed to create job: ${job.id} already exists`);
+      }
+      rows.set(job.id, structuredClone(jobToRow(job)));
+    },
+
+    async get(jobId) {
+      const row = rows.get(jobId);
+      return row ? read(row) : null;
+    },
+
+    async getProgress(jobId) {
+      const row = rows.get(jobId);
+      return row ? rowToProgress(row) : null;
+    },
+
+    async update(jobId, updates, condition = {}) {
+      const row = rows.get(jobId);
+      if (!row || (row.status === JobStatus.CANCELLED && !appliesToCancelled(updates))) return false;
+      if (condition.leaseOwner !== undefined && row.lease_owner !== condition.leaseOwner) return false;
+      if (condition.statuses && !condition.statuses.includes(row.status as JobStatus)) return false;
+      patch(row, updatesToRow(updates));
+      return true;
+    },
+
+    async claim(workerId, now, leaseMs, options = {}) {
+      const leasedByDomain: Record<string, number> = {};
+      const lastClaimedByClient: Record<string, number> = {};
+      for (const row of Array.from(rows.values())) {
+        if (row.domain && row.lease_owner && hasLiveLease(row, now)) {
+          leasedByDomain[row.domain] = (leasedByDomain[row.domain] || 0) + 1;
+        }
+        const client = row.client_key ?? '';
+        if (row.last_attempt_at !== null && row.last_attempt_at > (lastClaimedByClient[client] ?? -Infinity)) {
+          lastClaimedByClient[client] = row.last_attempt_at;
+        }
+      }
+
+      const candidate = pickClaimCandidate(
+        Array.from(rows.values()).filter((row) => row.status === JobStatus.PENDING && !hasLiveLease(row, now)),
+        leasedByDomain,
+        lastClaimedByClient,
+        options
+      );
+      if (!candidate) return null;
+
+      patch(candidate, {
+        lease_owner: workerId,
+        lease_expires_at: now + leaseMs,
+        attempts: candidate.attempts + 1,
+        last_attempt_at: now,
+        updated_at: now,
+      });
+      return read(rows.get(candidate.id)!);
+    },
+
+    async renewLease(jobId, workerId, expiresAt) {
+      const row = rows.get(jobId);
+      if (!row || row.lease_owner !== workerId) return false;
+      patch(row, { lease_expires_at: expiresAt });
+      return true;
+    },
+
+    async list(query = {}) {
+      const column = query.orderBy === 'updatedAt' ? 'updated_at' : 'created_at';
+      const direction = query.ascending ? 1 : -1;
+      const found = Array.from(rows.values())
+        .filter((row) => matches(row, query))
+        .sort((a, b) => (a[column] - b[column]) * direction);
+      return found.slice(0, query.limit ?? found.length).map(read);
+    },
+
+    async countByStatus(query = {}) {
+      const counts: Record<string, number> = {};
+      for (const row of Array.from(rows.values())) {
+        if (matches(row, query)) counts[row.status] = (counts[row.status] || 0) + 1;
+      }
+      return counts;
+    },
+
+    async resetStuck(now, maxAttempts) {
+      const expired = Array.from(rows.values()).filter(
+        (row) => PROCESSING_STATUSES.includes(row.status as JobStatus) && !hasLiveLease(row, now)
+      );
+      return expired.map((row) => {
+        patch(row, releaseExpiredRow(row, now, maxAttempts));
+        const released = rows.get(row.id)!;
+        return { id: released.id, status: released.status as JobStatus, attempts: released.attempts };
+      });
+    },
+
+    async cleanup(statuses, updatedBefore) {
+      let deleted = 0;
+      for (const row of Array.from(rows.values())) {
+        if (statuses.includes(row.status as JobStatus) && !row.batch_id && row.updated_at < updatedBefore) {
+          rows.delete(row.id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    async createBatch(batch) {
+      if (batches.has(batch.id)) {
+        throw new Error(`Failed to create batch: ${batch.id} already exists`);
+      }
+      batches.set(batch.id, { ...batch });
+    },
+
+    async getBatch(batchId) {
+      const batch = batches.get(batchId);
+      return batch ? { ...batch } : null;
+    },
+
+    async listBatches(limit) {
+      return Array.from(batches.values())
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map((batch) => ({ ...batch }));
+    },
+
+    async createSchedule(schedule) {
+      if (schedules.has(schedule.id)) {
+        throw new Error(`Failed to create schedule: ${schedule.id} already exists`);
+      }
+      schedules.set(schedule.id, structuredClone(schedule));
+    },
+
+    async getSchedule(scheduleId) {
+      const schedule = schedules.get(scheduleId);
+      return schedule ? structuredClone(schedule) : null;
+    },
+
+    async listSchedules({ dueBefore, limit }) {
+      const found =
+        dueBefore === undefined
+          ? Array.from(schedules.values()).sort((a, b) => b.createdAt - a.createdAt)
+          : Array.from(schedules.values())
+              .filter((schedule) => schedule.enabled && schedule.nextRunAt !== undefined && schedule.nextRunAt <= dueBefore)
+              .sort((a, b) => a.nextRunAt! - b.nextRunAt!);
+      return found.slice(0, limit ?? found.length).map((schedule) => structuredClone(schedule));
+    },
+
+    async updateSchedule(scheduleId, updates, expectedNextRunAt) {
+      const schedule = schedules.get(scheduleId);
+      if (!schedule) return false;
+      if (expectedNextRunAt !== undefined && schedule.nextRunAt !== expectedNextRunAt) return false;
+      const row = { ...scheduleToRow(schedule), ...structuredClone(scheduleUpdatesToRow(updates)) };
+      schedules.set(scheduleId, rowToSchedule(row));
+      return true;
+    },
+
+    async deleteSchedule(scheduleId) {
+      for (const row of Array.from(rows.values())) {
+        if (row.schedule_id === scheduleId) rows.set(row.id, { ...row, schedule_id: null });
+      }
+      return schedules.delete(scheduleId);
+    },
+
+    async recordCall(call) {
+      calls.push(structuredClone(call));
+    },
+
+    async listCalls({ jobId, from, to }) {
+      return calls
+        .filter(
+          (call) =>
+            (jobId === undefined || call.jobId === jobId) &&
+            (from === undefined || call.createdAt >= from) &&
+            (to === undefined || call.createdAt < to)
+        )
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((call) => structuredClone(call));
+    },
+
+    async getCachedPage(url) {
+      const entry = crawlCache.get(url);
+      return entry ? structuredClone(entry) : null;
+    },
+
+    async putCachedPage(entry) {
+      crawlCache.set(entry.url, structuredClone(entry));
+    },
+
+    async pruneCachedPages(fetchedBefore) {
+      let deleted = 0;
+      for (const entry of Array.from(crawlCache.values())) {
+        if (entry.fetchedAt < fetchedBefore) {
+          crawlCache.delete(entry.url);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
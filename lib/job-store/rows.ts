@@ -0,0 +1,525 @@
+/**
+ * Job <-> row mapping shared by the job store backends
+ * Rows mirror the jobs table in supabase-schema.sql (snake_case columns)
+ */
+
+import type {
+  FaqItem,
+  GroundingReport,
+  JobCheckpoints,
+  ProviderName,
+  RevisionAttempt,
+  SchemaReport,
+  SeoReport,
+} from '../typing';
+import { domainFromUrl } from '../usage';
+import {
+  JobStatus,
+  type Batch,
+  type ClaimOptions,
+  type CrawlCacheEntry,
+  type Job,
+  type JobCall,
+  type JobProgress,
+  type JobUpdates,
+  type Schedule,
+  type ScheduleTopic,
+  type ScheduleUpdates,
+} from './types';
+
+// Database row type (matches SQL schema)
+export interface JobRow {
+  id: string;
+  status: string;
+  progress: number;
+  message: string;
+  created_at: number;
+  updated_at: number;
+  attempts: number;
+  last_attempt_at: number | null;
+  lease_owner: string | null;
+  lease_expires_at: number | null;
+  batch_id: string | null;
+  schedule_id: string | null;
+  priority: number;
+  client_key: string | null;
+  domain: string | null; // Host of input_url, for per-domain concurrency limits
+  input_url: string | null;
+  input_topic: string;
+  input_keywords: any; // JSONB
+  input_length: number;
+  input_additional_notes: string | null;
+  input_sources: any | null; // JSONB
+  input_provider: string | null;
+  result_meta_title: string | null;
+  result_meta_description: string | null;
+  result_content_markdown: string | null;
+  result_faq_raw: string | null;
+  result_faq: FaqItem[] | null; // JSONB
+  result_schema_json_string: string | null;
+  result_schema_report: SchemaReport | null; // JSONB
+  result_seo_report: SeoReport | null; // JSONB
+  result_grounding_report: GroundingReport | null; // JSONB
+  result_pages: any | null; // JSONB
+  partial_content: string | null;
+  generation_state: any | null; // JSONB
+  checkpoints: JobCheckpoints | null; // JSONB
+  warnings: string[] | null; // JSONB
+  revisions: RevisionAttempt[] | null; // JSONB
+  error: string | null;
+}
+
+// Columns stored as JSON (JSONB in Postgres, TEXT in SQLite)
+export const JSON_COLUMNS: Array<keyof JobRow> = [
+  'input_keywords',
+  'input_sources',
+  'result_faq',
+  'result_schema_report',
+  'result_seo_report',
+  'result_grounding_report',
+  'result_pages',
+  'generation_state',
+  'checkpoints',
+  'warnings',
+  'revisions',
+];
+
+/**
+ * Convert database row to Job object
+ */
+export function rowToJob(row: JobRow): Job {
+  const hasResult = !!row.result_meta_title;
+
+  console.log(`[Queue] rowToJob for ${row.id}:`, {
+    status: row.status,
+    hasResult,
+    hasMetaTitle: !!row.result_meta_title,
+    hasMetaDescription: !!row.result_meta_description,
+    hasContentMarkdown: !!row.result_content_markdown,
+    hasFaqRaw: !!row.result_faq_raw,
+    hasSchemaJsonString: !!row.result_schema_json_string,
+    hasPages: !!row.result_pages,
+  });
+
+  return {
+    id: row.id,
+    status: row.status as JobStatus,
+    progress: row.progress,
+    message: row.message,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    attempts: row.attempts || 0,
+    lastAttemptAt: row.last_attempt_at || undefined,
+    leaseOwner: row.lease_owner || undefined,
+    leaseExpiresAt: row.lease_expires_at || undefined,
+    batchId: row.batch_id || undefined,
+    scheduleId: row.schedule_id || undefined,
+    priority: row.priority || 0,
+    clientKey: row.client_key || undefined,
+    input: {
+      url: row.input_url || undefined,
+      topic: row.input_topic,
+      keywords: row.input_keywords,
+      length: row.input_length,
+      additionalNotes: row.input_additional_notes || undefined,
+      sources: row.input_sources || undefined,
+      provider: (row.input_provider as ProviderName) || undefined,
+    },
+    result: hasResult
+      ? {
+          metaTitle: row.result_meta_title!,
+          metaDescription: row.result_meta_description!,
+          contentMarkdown: row.result_content_markdown!,
+          faqRaw: row.result_faq_raw!,
+          faq: row.result_faq || undefined,
+          schemaJsonString: row.result_schema_json_string!,
+          schemaReport: row.result_schema_report || undefined,
+          seoReport: row.result_seo_report || undefined,
+          groundingReport: row.result_grounding_report || undefined,
+          pages: row.result_pages!,
+        }
+      : undefined,
+    partialContent: row.partial_content || undefined,
+    generationState: row.generation_state || undefined,
+    checkpoints: row.checkpoints || undefined,
+    warnings: row.warnings || undefined,
+    revisions: row.revisions || undefined,
+    error: row.error || undefined,
+  };
+}
+
+/**
+ * Convert Job object to database row
+ * Also used by the debug routes to show a job as its stored row
+ */
+export function jobToRow(job: Job): JobRow {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    attempts: job.attempts || 0,
+    last_attempt_at: job.lastAttemptAt || null,
+    lease_owner: job.leaseOwner || null,
+    lease_expires_at: job.leaseExpiresAt || null,
+    batch_id: job.batchId || null,
+    schedule_id: job.scheduleId || null,
+    priority: job.priority || 0,
+    client_key: job.clientKey || null,
+    domain: domainFromUrl(job.input.url),
+    input_url: job.input.url || null,
+    input_topic: job.input.topic,
+    input_keywords: job.input.keywords,
+    input_length: job.input.length,
+    input_additional_notes: job.input.additionalNotes || null,
+    input_sources: job.input.sources || null,
+    input_provider: job.input.provider || null,
+    result_meta_title: job.result?.metaTitle || null,
+    result_meta_description: job.result?.metaDescription || null,
+    result_content_markdown: job.result?.contentMarkdown || null,
+    result_faq_raw: job.result?.faqRaw || null,
+    result_faq: job.result?.faq || null,
+    result_schema_json_string: job.result?.schemaJsonString || null,
+    result_schema_report: job.result?.schemaReport || null,
+    result_seo_report: job.result?.seoReport || null,
+    result_grounding_report: job.result?.groundingReport || null,
+    result_pages: job.result?.pages || null,
+    partial_content: job.partialContent || null,
+    generation_state: job.generationState || null,
+    checkpoints: job.checkpoints || null,
+    warnings: job.warnings || null,
+    revisions: job.revisions || null,
+    error: job.error || null,
+  };
+}
+
+// Columns getProgress reads
+export const PROGRESS_COLUMNS = ['id', 'status', 'progress', 'message', 'updated_at', 'partial_content'] as const;
+
+export function rowToProgress(row: Pick<JobRow, (typeof PROGRESS_COLUMNS)[number]>): JobProgress {
+  return {
+    id: row.id,
+    status: row.status as JobStatus,
+    progress: row.progress,
+    message: row.message,
+    updatedAt: row.updated_at,
+    partialContent: row.partial_content || undefined,
+  };
+}
+
+// Database row type of the batches table
+export interface BatchRow {
+  id: string;
+  name: string;
+  created_at: number;
+  job_count: number;
+}
+
+export function rowToBatch(row: BatchRow): Batch {
+  return { id: row.id, name: row.name, createdAt: row.created_at, jobCount: row.job_count };
+}
+
+export function batchToRow(batch: Batch): BatchRow {
+  return { id: batch.id, name: batch.name, created_at: batch.createdAt, job_count: batch.jobCount };
+}
+
+// Database row type of the schedules table
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  cron: string | null;
+  run_at: number | null;
+  input: Schedule['input']; // JSONB
+  topics: ScheduleTopic[]; // JSONB
+  next_topic: number;
+  loop_topics: boolean;
+  priority: number;
+  client_key: string | null;
+  enabled: boolean;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  last_job_id: string | null;
+  last_error: string | null;
+  run_count: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// Schedule columns stored as JSON
+export const SCHEDULE_JSON_COLUMNS: Array<keyof ScheduleRow> = ['input', 'topics'];
+
+export function rowToSchedule(row: ScheduleRow): Schedule {
+  return {
+    id: row.id,
+    name: row.name,
+    cron: row.cron || undefined,
+    runAt: row.run_at ?? undefined,
+    input: row.input,
+    topics: row.topics,
+    nextTopic: row.next_topic,
+    loopTopics: !!row.loop_topics,
+    priority: row.priority || 0,
+    clientKey: row.client_key || undefined,
+    enabled: !!row.enabled,
+    nextRunAt: row.next_run_at ?? undefined,
+    lastRunAt: row.last_run_at ?? undefined,
+    lastJobId: row.last_job_id || undefined,
+    lastError: row.last_error || undefined,
+    runCount: row.run_count || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function scheduleToRow(schedule: Schedule): ScheduleRow {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron || null,
+    run_at: schedule.runAt ?? null,
+    input: schedule.input,
+    topics: schedule.topics,
+    next_topic: schedule.nextTopic,
+    loop_topics: schedule.loopTopics,
+    priority: schedule.priority,
+    client_key: schedule.clientKey || null,
+    enabled: schedule.enabled,
+    next_run_at: schedule.nextRunAt ?? null,
+    last_run_at: schedule.lastRunAt ?? null,
+    last_job_id: schedule.lastJobId || null,
+    last_error: schedule.lastError || null,
+    run_count: schedule.runCount,
+    created_at: schedule.createdAt,
+    updated_at: schedule.updatedAt,
+  };
+}
+
+/**
+ * Map Schedule updates to a partial row; only the given fields are written
+ */
+export function scheduleUpdatesToRow(updates: ScheduleUpdates): Partial<ScheduleRow> {
+  const row: Partial<ScheduleRow> = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.cron !== undefined) row.cron = updates.cron || null;
+  if (updates.runAt !== undefined) row.run_at = updates.runAt;
+  if (updates.input !== undefined) row.input = updates.input;
+  if (updates.topics !== undefined) row.topics = updates.topics;
+  if (updates.nextTopic !== undefined) row.next_topic = updates.nextTopic;
+  if (updates.loopTopics !== undefined) row.loop_topics = updates.loopTopics;
+  if (updates.priority !== undefined) row.priority = updates.priority;
+  if (updates.clientKey !== undefined) row.client_key = updates.clientKey || null;
+  if (updates.enabled !== undefined) row.enabled = updates.enabled;
+  if (updates.nextRunAt !== undefined) row.next_run_at = updates.nextRunAt;
+  if (updates.lastRunAt !== undefined) row.last_run_at = updates.lastRunAt;
+  if (updates.lastJobId !== undefined) row.last_job_id = updates.lastJobId || null;
+  if (updates.lastError !== undefined) row.last_error = updates.lastError || null;
+  if (updates.runCount !== undefined) row.run_count = updates.runCount;
+  if (updates.updatedAt !== undefined) row.updated_at = updates.updatedAt;
+  return row;
+}
+
+// Database row type of the job_calls table
+export interface JobCallRow {
+  job_id: string | null;
+  domain: string | null;
+  created_at: number;
+  stage: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  latency_ms: number;
+  cost_usd: number | string | null; // NUMERIC may come back as a string
+  success: boolean;
+  error: string | null;
+}
+
+export function rowToCall(row: JobCallRow): JobCall {
+  return {
+    jobId: row.job_id,
+    domain: row.domain,
+    createdAt: row.created_at,
+    stage: row.stage,
+    provider: row.provider as JobCall['provider'],
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    latencyMs: row.latency_ms,
+    costUsd: row.cost_usd === null ? null : Number(row.cost_usd),
+    success: !!row.success,
+    error: row.error || undefined,
+  };
+}
+
+export function callToRow(call: JobCall): JobCallRow {
+  return {
+    job_id: call.jobId,
+    domain: call.domain,
+    created_at: call.createdAt,
+    stage: call.stage,
+    provider: call.provider,
+    model: call.model,
+    input_tokens: call.inputTokens,
+    output_tokens: call.outputTokens,
+    cache_read_tokens: call.cacheReadTokens,
+    cache_write_tokens: call.cacheWriteTokens,
+    latency_ms: call.latencyMs,
+    cost_usd: call.costUsd,
+    success: call.success,
+    error: call.error || null,
+  };
+}
+
+// Database row type of the crawl_cache table
+export interface CrawlCacheRow {
+  url: string;
+  title: string;
+  text: string;
+  links: string[]; // JSONB
+  facts: CrawlCacheEntry['facts'] | null; // JSONB
+  etag: string | null;
+  last_modified: string | null;
+  fetched_at: number;
+}
+
+// Crawl cache columns stored as JSON
+export const CRAWL_CACHE_JSON_COLUMNS: Array<keyof CrawlCacheRow> = ['links', 'facts'];
+
+export function rowToCacheEntry(row: CrawlCacheRow): CrawlCacheEntry {
+  return {
+    url: row.url,
+    title: row.title,
+    text: row.text,
+    links: row.links || [],
+    facts: row.facts || undefined,
+    etag: row.etag || undefined,
+    lastModified: row.last_modified || undefined,
+    fetchedAt: row.fetched_at,
+  };
+}
+
+export function cacheEntryToRow(entry: CrawlCacheEntry): CrawlCacheRow {
+  return {
+    url: entry.url,
+    title: entry.title,
+    text: entry.text,
+    links: entry.links,
+    facts: entry.facts || null,
+    etag: entry.etag || null,
+    last_modified: entry.lastModified || null,
+    fetched_at: entry.fetchedAt,
+  };
+}
+
+/**
+ * Map Job updates to a partial row; only the given fields are written
+ */
+export function updatesToRow(updates: JobUpdates): Partial<JobRow> {
+  const rowUpdates: Partial<JobRow> = {};
+
+  if (updates.status !== undefined) rowUpdates.status = updates.status;
+  if (updates.progress !== undefined) rowUpdates.progress = updates.progress;
+  if (updates.message !== undefined) rowUpdates.message = updates.message;
+  if (updates.updatedAt !== undefined) rowUpdates.updated_at = updates.updatedAt;
+  if (updates.attempts !== undefined) rowUpdates.attempts = updates.attempts;
+  if (updates.lastAttemptAt !== undefined) rowUpdates.last_attempt_at = updates.lastAttemptAt;
+  if (updates.leaseOwner !== undefined) {
+    rowUpdates.lease_owner = updates.leaseOwner || null; // '' releases the lease
+    rowUpdates.lease_expires_at = updates.leaseOwner ? updates.leaseExpiresAt ?? null : null;
+  }
+  if (updates.error !== undefined) rowUpdates.error = updates.error || null; // '' clears
+  if (updates.partialContent !== undefined) rowUpdates.partial_content = updates.partialContent || null; // '' clears
+  if (updates.generationState !== undefined) rowUpdates.generation_state = updates.generationState;
+  if (updates.checkpoints !== undefined) {
+    rowUpdates.checkpoints = Object.keys(updates.checkpoints).length > 0 ? updates.checkpoints : null;
+  }
+  if (updates.warnings !== undefined) rowUpdates.warnings = updates.warnings.length > 0 ? updates.warnings : null;
+  if (updates.revisions !== undefined) rowUpdates.revisions = updates.revisions.length > 0 ? updates.revisions : null;
+
+  // Handle result object fields; null clears them all
+  if (updates.result !== undefined) {
+    const result = updates.result;
+    rowUpdates.result_meta_title = result?.metaTitle ?? null;
+    rowUpdates.result_meta_description = result?.metaDescription ?? null;
+    rowUpdates.result_content_markdown = result?.contentMarkdown ?? null;
+    rowUpdates.result_faq_raw = result?.faqRaw ?? null;
+    rowUpdates.result_faq = result?.faq || null;
+    rowUpdates.result_schema_json_string = result?.schemaJsonString ?? null;
+    rowUpdates.result_schema_report = result?.schemaReport || null;
+    rowUpdates.result_seo_report = result?.seoReport || null;
+    rowUpdates.result_grounding_report = result?.groundingReport || null;
+    rowUpdates.result_pages = result?.pages ?? null;
+  }
+
+  return rowUpdates;
+}
+
+/**
+ * Whether the updates may change a cancelled job: only cancelling it again or an
+ * explicit rerun does; anything else, including a worker's own requeue, is a
+ * late write from its worker
+ */
+export function appliesToCancelled(updates: JobUpdates): boolean {
+  return updates.status === JobStatus.CANCELLED || (updates.status === JobStatus.PENDING && !!updates.rerun);
+}
+
+// Columns a claim chooses by
+export type ClaimCandidate = Pick<JobRow, 'id' | 'priority' | 'client_key' | 'domain' | 'created_at'>;
+
+/**
+ * Choose the job to claim among the claimable pending rows
+ * Same choice as the claim_job() Postgres function: highest priority first, then
+ * the client whose last claim is oldest (never claimed first), then the oldest
+ * job; a domain with as many leased jobs as its limit is skipped unless the job
+ * was asked for by id.
+ */
+export function pickClaimCandidate<T extends ClaimCandidate>(
+  candidates: T[],
+  leasedByDomain: Record<string, number>,
+  lastClaimedByClient: Record<string, number>,
+  options: ClaimOptions
+): T | undefined {
+  const underLimit = (row: T) => {
+    if (options.jobId !== undefined || !row.domain) return true;
+    const limit = options.domainLimits?.[row.domain] ?? options.domainLimit ?? 0;
+    return limit <= 0 || (leasedByDomain[row.domain] || 0) < limit;
+  };
+  const lastClaimed = (row: T) => lastClaimedByClient[row.client_key ?? ''] ?? -Infinity;
+
+  return candidates
+    .filter((row) => options.jobId === undefined || row.id === options.jobId)
+    .filter(underLimit)
+    .sort(
+      (a, b) =>
+        (b.priority || 0) - (a.priority || 0) ||
+        lastClaimed(a) - lastClaimed(b) ||
+        a.created_at - b.created_at
+    )[0];
+}
+
+/**
+ * Row changes for a processing job whose lease expired
+ * Same outcome as the release_expired_jobs() Postgres function
+ */
+export function releaseExpiredRow(row: JobRow, now: number, maxAttempts: number): Partial<JobRow> {
+  const exhausted = row.attempts >= maxAttempts;
+  return {
+    status: exhausted ? JobStatus.FAILED : JobStatus.PENDING,
+    progress: 0,
+    message: exhausted
+      ? 'Job failed'
+      : `Retry attempt ${row.attempts + 1}/${maxAttempts} - Previous worker stopped responding`,
+    error: exhausted
+      ? `Job exceeded maximum retry attempts (${maxAttempts}). The worker stopped responding.`
+      : row.error,
+    lease_owner: null,
+    lease_expires_at: null,
+    updated_at: now,
+  };
+}
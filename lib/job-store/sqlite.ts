@@ -0,0 +1,513 @@
+/**
+ * Job store backed by a local SQLite file (better-sqlite3)
+ * For local development and self-hosting without Supabase. The jobs table is
+ * created on first use; columns added in later versions are added to existing
+ * files. Claims run in an IMMEDIATE transaction, which takes the write lock up
+ * front, so workers in several processes sharing the file can't claim the same job.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { PROCESSING_STATUSES, JobStatus, type ClaimOptions, type JobListQuery, type JobStore, type UpdateCondition } from './types';
+import {
+  appliesToCancelled,
+  batchToRow,
+  cacheEntryToRow,
+  callToRow,
+  CRAWL_CACHE_JSON_COLUMNS,
+  JSON_COLUMNS,
+  jobToRow,
+  pickClaimCandidate,
+  PROGRESS_COLUMNS,
+  releaseExpiredRow,
+  rowToBatch,
+  rowToCacheEntry,
+  rowToCall,
+  rowToJob,
+  rowToProgress,
+  rowToSchedule,
+  SCHEDULE_JSON_COLUMNS,
+  scheduleToRow,
+  scheduleUpdatesToRow,
+  updatesToRow,
+  type BatchRow,
+  type ClaimCandidate,
+  type CrawlCacheRow,
+  type JobCallRow,
+  type JobRow,
+  type ScheduleRow,
+} from './rows';
+
+// Column definitions, in schema order; JSON columns are stored as TEXT
+const COLUMNS: Array<[keyof JobRow, string]> = [
+  ['id', 'TEXT PRIMARY KEY'],
+  ['status', 'TEXT NOT NULL'],
+  ['progress', 'INTEGER NOT NULL DEFAULT 0'],
+  ['message', 'TEXT NOT NULL'],
+  ['created_at', 'INTEGER NOT NULL'],
+  ['updated_at', 'INTEGER NOT NULL'],
+  ['attempts', 'INTEGER NOT NULL DEFAULT 0'],
+  ['last_attempt_at', 'INTEGER'],
+  ['lease_owner', 'TEXT'],
+  ['lease_expires_at', 'INTEGER'],
+  ['batch_id', 'TEXT'],
+  ['schedule_id', 'TEXT'],
+  ['priority', 'INTEGER NOT NULL DEFAULT 0'],
+  ['client_key', 'TEXT'],
+  ['domain', 'TEXT'],
+  ['input_url', 'TEXT'],
+  ['input_topic', 'TEXT NOT NULL'],
+  ['input_keywords', 'TEXT NOT NULL'],
+  ['input_length', 'INTEGER NOT NULL'],
+  ['input_additional_notes', 'TEXT'],
+  ['input_sources', 'TEXT'],
+  ['input_provider', 'TEXT'],
+  ['result_meta_title', 'TEXT'],
+  ['result_meta_description', 'TEXT'],
+  ['result_content_markdown', 'TEXT'],
+  ['result_faq_raw', 'TEXT'],
+  ['result_faq', 'TEXT'],
+  ['result_schema_json_string', 'TEXT'],
+  ['result_schema_report', 'TEXT'],
+  ['result_seo_report', 'TEXT'],
+  ['result_grounding_report', 'TEXT'],
+  ['result_pages', 'TEXT'],
+  ['partial_content', 'TEXT'],
+  ['generation_state', 'TEXT'],
+  ['checkpoints', 'TEXT'],
+  ['warnings', 'TEXT'],
+  ['revisions', 'TEXT'],
+  ['error', 'TEXT'],
+];
+
+const ORDER_COLUMNS = { createdAt: 'created_at', updatedAt: 'updated_at' } as const;
+
+const databases = new Map<string, Database.Database>();
+
+/**
+ * Path of the SQLite database file (env SQLITE_PATH, default data/jobs.db)
+ */
+export function getSqlitePath(): string {
+  return path.resolve(process.env.SQLITE_PATH || 'data/jobs.db');
+}
+
+/**
+ * Open (once per file) and migrate the database
+ */
+function openDatabase(file: string): Database.Database {
+  const existing = databases.get(file);
+  if (existing) return existing;
+
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+
+  db.exec(`CREATE TABLE IF NOT EXISTS jobs (${COLUMNS.map(([name, type]) => `${name} ${type}`).join(', ')})`);
+  const present = new Set((db.pragma('table_info(jobs)') as Array<{ name: string }>).map((column) => column.name));
+  for (const [name, type] of COLUMNS) {
+    if (!present.has(name)) {
+      // ADD COLUMN can't add NOT NULL without a default; the app always writes these
+      db.exec(`ALTER TABLE jobs ADD COLUMN ${name} ${type.replace(/ NOT NULL$/, '')}`);
+    }
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status_created ON jobs(status, created_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status_lease ON jobs(status, lease_expires_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_batch_id ON jobs(batch_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_schedule_id ON jobs(schedule_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_client_attempt ON jobs(client_key, last_attempt_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_domain_lease ON jobs(domain, lease_expires_at)');
+  db.exec(
+    'CREATE TABLE IF NOT EXISTS batches (id TEXT PRIMARY KEY, name TEXT NOT NULL, created_at INTEGER NOT NULL, job_count INTEGER NOT NULL)'
+  );
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS schedules (
+      id TEXT PRIMARY KEY, name TEXT NOT NULL, cron TEXT, run_at INTEGER, input TEXT NOT NULL, topics TEXT NOT NULL,
+      next_topic INTEGER NOT NULL DEFAULT 0, loop_topics INTEGER NOT NULL DEFAULT 0, priority INTEGER NOT NULL DEFAULT 0,
+      client_key TEXT, enabled INTEGER NOT NULL DEFAULT 1, next_run_at INTEGER, last_run_at INTEGER, last_job_id TEXT,
+      last_error TEXT, run_count INTEGER NOT NULL DEFAULT 0, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+    )`
+  );
+  const scheduleColumns = (db.pragma('table_info(schedules)') as Array<{ name: string }>).map((column) => column.name);
+  if (!scheduleColumns.includes('last_error')) db.exec('ALTER TABLE schedules ADD COLUMN last_error TEXT');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(enabled, next_run_at)');
+  // No foreign key on job_id: calls outlive their job, as in Postgres
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS job_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, job_id TEXT, domain TEXT, created_at INTEGER NOT NULL, stage TEXT NOT NULL,
+      provider TEXT NOT NULL, model TEXT NOT NULL, input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0, cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0, latency_ms INTEGER NOT NULL, cost_usd REAL,
+      success INTEGER NOT NULL, error TEXT
+    )`
+  );
+  db.exec('CREATE INDEX IF NOT EXISTS idx_job_calls_job_id ON job_calls(job_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_job_calls_created_at ON job_calls(created_at)');
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS crawl_cache (
+      url TEXT PRIMARY KEY, title TEXT NOT NULL, text TEXT NOT NULL, links TEXT NOT NULL, facts TEXT,
+      etag TEXT, last_modified TEXT, fetched_at INTEGER NOT NULL
+    )`
+  );
+  db.exec('CREATE INDEX IF NOT EXISTS idx_crawl_cache_fetched_at ON crawl_cache(fetched_at)');
+
+  databases.set(file, db);
+  console.log(`[JobStore] Opened SQLite job store at ${file}`);
+  return db;
+}
+
+/**
+ * Serialize JSON columns for SQLite
+ */
+function toSqlite(row: Partial<JobRow>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    values[key] =
+      value !== null && value !== undefined && JSON_COLUMNS.includes(key as keyof JobRow)
+        ? JSON.stringify(value)
+        : value ?? null;
+  }
+  return values;
+}
+
+function fromSqlite(record: Record<string, unknown>): JobRow {
+  const row: Record<string, unknown> = { ...record };
+  for (const column of JSON_COLUMNS) {
+    if (typeof row[column] === 'string') row[column] = JSON.parse(row[column] as string);
+  }
+  return row as unknown as JobRow;
+}
+
+/**
+ * Rows of the other tables for SQLite: JSON columns as TEXT, booleans as 0/1
+ */
+function recordToSqlite<T extends object>(row: Partial<T>, jsonColumns: Array<keyof T>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null && value !== undefined && jsonColumns.includes(key as keyof T)) values[key] = JSON.stringify(value);
+    else if (typeof value === 'boolean') values[key] = value ? 1 : 0;
+    else values[key] = value ?? null;
+  }
+  return values;
+}
+
+function recordFromSqlite<T extends object>(
+  record: Record<string, unknown>,
+  jsonColumns: Array<keyof T>,
+  booleanColumns: Array<keyof T>
+): T {
+  const row: Record<string, unknown> = { ...record };
+  for (const column of booleanColumns) row[column as string] = !!row[column as string];
+  for (const column of jsonColumns) {
+    if (typeof row[column as string] === 'string') row[column as string] = JSON.parse(row[column as string] as string);
+  }
+  return row as unknown as T;
+}
+
+function scheduleFromSqlite(record: Record<string, unknown>): ScheduleRow {
+  return recordFromSqlite<ScheduleRow>(record, SCHEDULE_JSON_COLUMNS, ['loop_topics', 'enabled']);
+}
+
+function whereClause(query: JobListQuery): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (query.statuses) {
+    conditions.push(`status IN (${query.statuses.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...query.statuses);
+  }
+  if (query.batchId !== undefined) {
+    conditions.push('batch_id = ?');
+    params.push(query.batchId);
+  }
+  if (query.scheduleId !== undefined) {
+    conditions.push('schedule_id = ?');
+    params.push(query.scheduleId);
+  }
+  if (query.createdAfter !== undefined) {
+    conditions.push('created_at >= ?');
+    params.push(query.createdAfter);
+  }
+  if (query.updatedBefore !== undefined) {
+    conditions.push('updated_at < ?');
+    params.push(query.updatedBefore);
+  }
+  return { sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function setClause(changes: Record<string, unknown>): string {
+  return Object.keys(changes)
+    .map((key) => `${key} = @${key}`)
+    .join(', ');
+}
+
+export function createSqliteJobStore(file: string = getSqlitePath()): JobStore {
+  const db = openDatabase(file);
+
+  const getRow = (jobId: string): JobRow | null => {
+    const record = db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as Record<string, unknown> | undefined;
+    return record ? fromSqlite(record) : null;
+  };
+
+  const updateRow = (
+    jobId: string,
+    changes: Partial<JobRow>,
+    condition: UpdateCondition & { skipCancelled?: boolean } = {}
+  ): number => {
+    const values = toSqlite(changes);
+    if (Object.keys(values).length === 0) return 0;
+    const where = ['id = @id'];
+    const params: Record<string, unknown> = { ...values, id: jobId };
+    if (condition.skipCancelled) where.push(`status != '${JobStatus.CANCELLED}'`);
+    if (condition.leaseOwner !== undefined) {
+      where.push('lease_owner IS @condition_lease_owner'); // IS also matches a NULL (unclaimed) owner
+      params.condition_lease_owner = condition.leaseOwner;
+    }
+    if (condition.statuses) {
+      const names = condition.statuses.map((_, index) => `@condition_status_${index}`);
+      where.push(`status IN (${names.join(', ') || 'NULL'})`);
+      condition.statuses.forEach((status, index) => (params[`condition_status_${index}`] = status));
+    }
+    return db.prepare(`UPDATE jobs SET ${setClause(values)} WHERE ${where.join(' AND ')}`).run(params).changes;
+  };
+
+  const claim = db.transaction((workerId: string, now: number, leaseMs: number, options: ClaimOptions) => {
+    const jobId = options.jobId ?? null;
+    const candidates = db
+      .prepare(
+        `SELECT id, priority, client_key, domain, created_at, attempts FROM jobs
+         WHERE status = ?
+           AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+           AND (? IS NULL OR id = ?)`
+      )
+      .all(JobStatus.PENDING, now, jobId, jobId) as Array<ClaimCandidate & { attempts: number }>;
+    if (candidates.length === 0) return null;
+
+    const leased = db
+      .prepare(
+        `SELECT domain, COUNT(*) AS count FROM jobs
+         WHERE domain IS NOT NULL AND lease_owner IS NOT NULL AND lease_expires_at >= ?
+         GROUP BY domain`
+      )
+      .all(now) as Array<{ domain: string; count: number }>;
+    const served = db
+      .prepare(
+        `SELECT client_key, MAX(last_attempt_at) AS last_claimed_at FROM jobs
+         WHERE last_attempt_at IS NOT NULL
+         GROUP BY client_key`
+      )
+      .all() as Array<{ client_key: string | null; last_claimed_at: number }>;
+
+    const candidate = pickClaimCandidate(
+      candidates,
+      Object.fromEntries(leased.map((row) => [row.domain, row.count])),
+      Object.fromEntries(served.map((row) => [row.client_key ?? '', row.last_claimed_at])),
+      options
+    );
+    if (!candidate) return null;
+
+    updateRow(candidate.id, {
+      lease_owner: workerId,
+      lease_expires_at: now + leaseMs,
+      attempts: candidate.attempts + 1,
+      last_attempt_at: now,
+      updated_at: now,
+    });
+    return getRow(candidate.id);
+  });
+
+  const resetStuck = db.transaction((now: number, maxAttempts: number) => {
+    const statuses = PROCESSING_STATUSES.map(() => '?').join(', ');
+    const expired = (
+      db
+        .prepare(
+          `SELECT * FROM jobs
+           WHERE status IN (${statuses})
+             AND (lease_expires_at IS NULL OR lease_expires_at < ?)`
+        )
+        .all(...PROCESSING_STATUSES, now) as Array<Record<string, unknown>>
+    ).map(fromSqlite);
+
+    return expired.map((row) => {
+      const changes = releaseExpiredRow(row, now, maxAttempts);
+      updateRow(row.id, changes);
+      return { id: row.id, status: changes.status as JobStatus, attempts: row.attempts };
+    });
+  });
+
+  return {
+    name: 'sqlite',
+
+    async create(job) {
+      const values = toSqlite(jobToRow(job));
+      const columns = Object.keys(values);
+      db.prepare(`INSERT INTO jobs (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})`).run(
+        values
+      );
+    },
+
+    async get(jobId) {
+      const row = getRow(jobId);
+      return row ? rowToJob(row) : null;
+    },
+
+    async getProgress(jobId) {
+      const row = db.prepare(`SELECT ${PROGRESS_COLUMNS.join(', ')} FROM jobs WHERE id = ?`).get(jobId) as
+        | JobRow
+        | undefined;
+      return row ? rowToProgress(row) : null;
+    },
+
+    async update(jobId, updates, condition = {}) {
+      return updateRow(jobId, updatesToRow(updates), { ...condition, skipCancelled: !appliesToCancelled(updates) }) > 0;
+    },
+
+    async claim(workerId, now, leaseMs, options = {}) {
+      const row = claim.immediate(workerId, now, leaseMs, options);
+      return row ? rowToJob(row) : null;
+    },
+
+    async renewLease(jobId, workerId, expiresAt) {
+      const result = db
+        .prepare('UPDATE jobs SET lease_expires_at = ? WHERE id = ? AND lease_owner = ?')
+        .run(expiresAt, jobId, workerId);
+      return result.changes > 0;
+    },
+
+    async list(query = {}) {
+      const where = whereClause(query);
+      const order = `ORDER BY ${ORDER_COLUMNS[query.orderBy || 'createdAt']} ${query.ascending ? 'ASC' : 'DESC'}`;
+      const limit = query.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+      const records = db.prepare(`SELECT * FROM jobs ${where.sql} ${order} ${limit}`).all(...where.params);
+      return (records as Array<Record<string, unknown>>).map((record) => rowToJob(fromSqlite(record)));
+    },
+
+    async countByStatus(query = {}) {
+      const where = whereClause(query);
+      const records = db
+        .prepare(`SELECT status, COUNT(*) AS count FROM jobs ${where.sql} GROUP BY status`)
+        .all(...where.params) as Array<{ status: string; count: number }>;
+      return Object.fromEntries(records.map((record) => [record.status, record.count]));
+    },
+
+    async resetStuck(now, maxAttempts) {
+      return resetStuck.immediate(now, maxAttempts);
+    },
+
+    async cleanup(statuses, updatedBefore) {
+      if (statuses.length === 0) return 0;
+      const result = db
+        .prepare(
+          `DELETE FROM jobs WHERE status IN (${statuses.map(() => '?').join(', ')}) AND batch_id IS NULL AND updated_at < ?`
+        )
+        .run(...statuses, updatedBefore);
+      return result.changes;
+    },
+
+    async createBatch(batch) {
+      db.prepare('INSERT INTO batches (id, name, created_at, job_count) VALUES (@id, @name, @created_at, @job_count)').run(
+        batchToRow(batch)
+      );
+    },
+
+    async getBatch(batchId) {
+      const row = db.prepare('SELECT * FROM batches WHERE id = ?').get(batchId) as BatchRow | undefined;
+      return row ? rowToBatch(row) : null;
+    },
+
+    async listBatches(limit) {
+      const rows = db
+        .prepare('SELECT * FROM batches ORDER BY created_at DESC LIMIT ?')
+        .all(Math.max(0, Math.floor(limit))) as BatchRow[];
+      return rows.map(rowToBatch);
+    },
+
+    async createSchedule(schedule) {
+      const values = recordToSqlite(scheduleToRow(schedule), SCHEDULE_JSON_COLUMNS);
+      const columns = Object.keys(values);
+      db.prepare(
+        `INSERT INTO schedules (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})`
+      ).run(values);
+    },
+
+    async getSchedule(scheduleId) {
+      const record = db.prepare('SELECT * FROM schedules WHERE id = ?').get(scheduleId) as
+        | Record<string, unknown>
+        | undefined;
+      return record ? rowToSchedule(scheduleFromSqlite(record)) : null;
+    },
+
+    async listSchedules({ dueBefore, limit }) {
+      const limitSql = limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(limit))}` : '';
+      const records =
+        dueBefore === undefined
+          ? db.prepare(`SELECT * FROM schedules ORDER BY created_at DESC ${limitSql}`).all()
+          : db
+              .prepare(
+                `SELECT * FROM schedules
+                 WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+                 ORDER BY next_run_at ${limitSql}`
+              )
+              .all(dueBefore);
+      return (records as Array<Record<string, unknown>>).map((record) => rowToSchedule(scheduleFromSqlite(record)));
+    },
+
+    async updateSchedule(scheduleId, updates, expectedNextRunAt) {
+      const values = recordToSqlite(scheduleUpdatesToRow(updates), SCHEDULE_JSON_COLUMNS);
+      if (Object.keys(values).length === 0) return false;
+      const guard = expectedNextRunAt !== undefined ? 'AND next_run_at = @expected_next_run_at' : '';
+      const result = db
+        .prepare(`UPDATE schedules SET ${setClause(values)} WHERE id = @schedule_id ${guard}`)
+        .run({ ...values, schedule_id: scheduleId, expected_next_run_at: expectedNextRunAt ?? null });
+      return result.changes > 0;
+    },
+
+    async deleteSchedule(scheduleId) {
+      const remove = db.transaction(() => {
+        db.prepare('UPDATE jobs SET schedule_id = NULL WHERE schedule_id = ?').run(scheduleId);
+        return db.prepare('DELETE FROM schedules WHERE id = ?').run(scheduleId).changes > 0;
+      });
+      return remove.immediate();
+    },
+
+    async recordCall(call) {
+      const values = recordToSqlite<JobCallRow>(callToRow(call), []);
+      const columns = Object.keys(values);
+      db.prepare(
+        `INSERT INTO job_calls (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})`
+      ).run(values);
+    },
+
+    async listCalls({ jobId, from, to }) {
+      const records = db
+        .prepare(
+          `SELECT * FROM job_calls
+           WHERE (@job_id IS NULL OR job_id = @job_id)
+             AND (@from IS NULL OR created_at >= @from)
+             AND (@to IS NULL OR created_at < @to)
+           ORDER BY created_at, id`
+        )
+        .all({ job_id: jobId ?? null, from: from ?? null, to: to ?? null }) as Array<Record<string, unknown>>;
+      return records.map((record) => rowToCall(recordFromSqlite<JobCallRow>(record, [], ['success'])));
+    },
+
+    async getCachedPage(url) {
+      const record = db.prepare('SELECT * FROM crawl_cache WHERE url = ?').get(url) as
+        | Record<string, unknown>
+        | undefined;
+      return record ? rowToCacheEntry(recordFromSqlite<CrawlCacheRow>(record, CRAWL_CACHE_JSON_COLUMNS, [])) : null;
+    },
+
+    async putCachedPage(entry) {
+      const values = recordToSqlite(cacheEntryToRow(entry), CRAWL_CACHE_JSON_COLUMNS);
+      const columns = Object.keys(values);
+      db.prepare(
+        `INSERT OR REPLACE INTO crawl_cache (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})`
+      ).run(values);
+    },
+
+    async pruneCachedPages(fetchedBefore) {
+      return db.prepare('DELETE FROM crawl_cache WHERE fetched_at < ?').run(fetchedBefore).changes;
+    },
+  };
+}
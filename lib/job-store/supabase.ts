@@ -0,0 +1,328 @@
+/**
+ * Job store backed by the Supabase jobs table
+ * Claiming and lease release run as Postgres functions (claim_job,
+ * release_expired_jobs) so they stay atomic across concurrent workers
+ */
+
+import { getSupabase } from '../supabase';
+import {
+  appliesToCancelled,
+  batchToRow,
+  cacheEntryToRow,
+  callToRow,
+  jobToRow,
+  PROGRESS_COLUMNS,
+  rowToBatch,
+  rowToCacheEntry,
+  rowToCall,
+  rowToJob,
+  rowToProgress,
+  rowToSchedule,
+  scheduleToRow,
+  scheduleUpdatesToRow,
+  updatesToRow,
+  type BatchRow,
+  type CrawlCacheRow,
+  type JobCallRow,
+  type JobRow,
+  type ScheduleRow,
+} from './rows';
+import { JobStatus, type JobCall, type JobListQuery, type JobStore, type ReleasedJob } from './types';
+
+const ORDER_COLUMNS = { createdAt: 'created_at', updatedAt: 'updated_at' } as const;
+
+// PostgREST caps each response, so longer call lists are read in pages
+const PAGE_SIZE = 1000;
+
+/**
+ * Apply the shared list filters to a query
+ */
+function applyFilters<T extends { in: any; eq: any; gte: any; lt: any }>(query: T, filters: JobListQuery): T {
+  let filtered = query;
+  if (filters.statuses) filtered = filtered.in('status', filters.statuses);
+  if (filters.batchId !== undefined) filtered = filtered.eq('batch_id', filters.batchId);
+  if (filters.scheduleId !== undefined) filtered = filtered.eq('schedule_id', filters.scheduleId);
+  if (filters.createdAfter !== undefined) filtered = filtered.gte('created_at', filters.createdAfter);
+  if (filters.updatedBefore !== undefined) filtered = filtered.lt('updated_at', filters.updatedBefore);
+  return filtered;
+}
+
+export function createSupabaseJobStore(): JobStore {
+  return {
+    name: 'supabase',
+
+    async create(job) {
+      const { error } = await getSupabase().from('jobs').insert(jobToRow(job));
+      if (error) {
+        throw new Error(`Failed to create job: ${error.message}`);
+      }
+    },
+
+    async get(jobId) {
+      const { data, error } = await getSupabase()
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get job: ${error.message}`);
+      }
+      return data ? rowToJob(data as JobRow) : null;
+    },
+
+    async getProgress(jobId) {
+      const { data, error } = await getSupabase()
+        .from('jobs')
+        .select(PROGRESS_COLUMNS.join(','))
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get job progress: ${error.message}`);
+      }
+      return data ? rowToProgress(data as unknown as JobRow) : null;
+    },
+
+    async update(jobId, updates, condition = {}) {
+      let request = getSupabase().from('jobs').update(updatesToRow(updates)).eq('id', jobId);
+      if (!appliesToCancelled(updates)) request = request.neq('status', JobStatus.CANCELLED);
+      if (condition.leaseOwner === null) request = request.is('lease_owner', null);
+      else if (condition.leaseOwner !== undefined) request = request.eq('lease_owner', condition.leaseOwner);
+      if (condition.statuses) request = request.in('status', condition.statuses);
+
+      const { data, error } = await request.select('id');
+
+      if (error) {
+        throw new Error(`Failed to update job: ${error.message}`);
+      }
+      return !!data && data.length > 0;
+    },
+
+    async claim(workerId, now, leaseMs, options = {}) {
+      const { data, error } = await getSupabase().rpc('claim_job', {
+        p_worker_id: workerId,
+        p_now: now,
+        p_lease_ms: leaseMs,
+        p_job_id: options.jobId ?? null,
+        p_domain_limit: options.domainLimit ?? 0,
+        p_domain_limits: options.domainLimits ?? {},
+      });
+
+      if (error) {
+        throw new Error(`Failed to claim job: ${error.message}`);
+      }
+
+      const rows = (data || []) as JobRow[];
+      return rows.length > 0 ? rowToJob(rows[0]) : null;
+    },
+
+    async renewLease(jobId, workerId, expiresAt) {
+      const { data, error } = await getSupabase()
+        .from('jobs')
+        .update({ lease_expires_at: expiresAt })
+        .eq('id', jobId)
+        .eq('lease_owner', workerId)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to renew lease: ${error.message}`);
+      }
+      return !!data && data.length > 0;
+    },
+
+    async list(query = {}) {
+      let request = applyFilters(getSupabase().from('jobs').select('*'), query).order(
+        ORDER_COLUMNS[query.orderBy || 'createdAt'],
+        { ascending: !!query.ascending }
+      );
+      if (query.limit !== undefined) request = request.limit(query.limit);
+
+      const { data, error } = await request;
+      if (error) {
+        throw new Error(`Failed to list jobs: ${error.message}`);
+      }
+      return (data as JobRow[]).map(rowToJob);
+    },
+
+    async countByStatus(query = {}) {
+      const { data, error } = await applyFilters(getSupabase().from('jobs').select('status'), query);
+      if (error) {
+        throw new Error(`Failed to count jobs: ${error.message}`);
+      }
+
+      const counts: Record<string, number> = {};
+      for (const row of data as Array<{ status: string }>) {
+        counts[row.status] = (counts[row.status] || 0) + 1;
+      }
+      return counts;
+    },
+
+    async resetStuck(now, maxAttempts) {
+      const { data, error } = await getSupabase().rpc('release_expired_jobs', {
+        p_now: now,
+        p_max_attempts: maxAttempts,
+      });
+
+      if (error) {
+        throw new Error(`Failed to release expired jobs: ${error.message}`);
+      }
+      return (data || []) as ReleasedJob[];
+    },
+
+    async cleanup(statuses, updatedBefore) {
+      const { error, count } = await getSupabase()
+        .from('jobs')
+        .delete({ count: 'exact' })
+        .in('status', statuses)
+        .is('batch_id', null)
+        .lt('updated_at', updatedBefore);
+
+      if (error) {
+        throw new Error(`Failed to clean up jobs: ${error.message}`);
+      }
+      return count || 0;
+    },
+
+    async createBatch(batch) {
+      const { error } = await getSupabase().from('batches').insert(batchToRow(batch));
+      if (error) {
+        throw new Error(`Failed to create batch: ${error.message}`);
+      }
+    },
+
+    async getBatch(batchId) {
+      const { data, error } = await getSupabase()
+        .from('batches')
+        .select('*')
+        .eq('id', batchId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get batch: ${error.message}`);
+      }
+      return data ? rowToBatch(data as BatchRow) : null;
+    },
+
+    async listBatches(limit) {
+      const { data, error } = await getSupabase()
+        .from('batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to list batches: ${error.message}`);
+      }
+      return (data as BatchRow[]).map(rowToBatch);
+    },
+
+    async createSchedule(schedule) {
+      const { error } = await getSupabase().from('schedules').insert(scheduleToRow(schedule));
+      if (error) {
+        throw new Error(`Failed to create schedule: ${error.message}`);
+      }
+    },
+
+    async getSchedule(scheduleId) {
+      const { data, error } = await getSupabase()
+        .from('schedules')
+        .select('*')
+        .eq('id', scheduleId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get schedule: ${error.message}`);
+      }
+      return data ? rowToSchedule(data as ScheduleRow) : null;
+    },
+
+    async listSchedules({ dueBefore, limit }) {
+      let request = getSupabase().from('schedules').select('*');
+      request =
+        dueBefore === undefined
+          ? request.order('created_at', { ascending: false })
+          : request.eq('enabled', true).lte('next_run_at', dueBefore).order('next_run_at', { ascending: true });
+      if (limit !== undefined) request = request.limit(limit);
+
+      const { data, error } = await request;
+      if (error) {
+        throw new Error(`Failed to list schedules: ${error.message}`);
+      }
+      return (data as ScheduleRow[]).map(rowToSchedule);
+    },
+
+    async updateSchedule(scheduleId, updates, expectedNextRunAt) {
+      let request = getSupabase().from('schedules').update(scheduleUpdatesToRow(updates)).eq('id', scheduleId);
+      if (expectedNextRunAt !== undefined) request = request.eq('next_run_at', expectedNextRunAt);
+
+      const { data, error } = await request.select('id');
+      if (error) {
+        throw new Error(`Failed to update schedule: ${error.message}`);
+      }
+      return !!data && data.length > 0;
+    },
+
+    async deleteSchedule(scheduleId) {
+      // jobs.schedule_id is ON DELETE SET NULL, so the schedule's jobs are kept
+      const { data, error } = await getSupabase().from('schedules').delete().eq('id', scheduleId).select('id');
+      if (error) {
+        throw new Error(`Failed to delete schedule: ${error.message}`);
+      }
+      return !!data && data.length > 0;
+    },
+
+    async recordCall(call) {
+      const { error } = await getSupabase().from('job_calls').insert(callToRow(call));
+      if (error) {
+        throw new Error(`Failed to record model call: ${error.message}`);
+      }
+    },
+
+    async listCalls({ jobId, from, to }) {
+      const calls: JobCall[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        let request = getSupabase().from('job_calls').select('*');
+        if (jobId !== undefined) request = request.eq('job_id', jobId);
+        if (from !== undefined) request = request.gte('created_at', from);
+        if (to !== undefined) request = request.lt('created_at', to);
+
+        const { data, error } = await request
+          .order('created_at', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) {
+          throw new Error(`Failed to list model calls: ${error.message}`);
+        }
+        calls.push(...(data as JobCallRow[]).map(rowToCall));
+        if (data.length < PAGE_SIZE) return calls;
+      }
+    },
+
+    async getCachedPage(url) {
+      const { data, error } = await getSupabase().from('crawl_cache').select('*').eq('url', url).maybeSingle();
+      if (error) {
+        throw new Error(`Failed to read crawl cache: ${error.message}`);
+      }
+      return data ? rowToCacheEntry(data as CrawlCacheRow) : null;
+    },
+
+    async putCachedPage(entry) {
+      const { error } = await getSupabase().from('crawl_cache').upsert(cacheEntryToRow(entry));
+      if (error) {
+        throw new Error(`Failed to write crawl cache: ${error.message}`);
+      }
+    },
+
+    async pruneCachedPages(fetchedBefore) {
+      const { error, count } = await getSupabase()
+        .from('crawl_cache')
+        .delete({ count: 'exact' })
+        .lt('fetched_at', fetchedBefore);
+
+      if (error) {
+        throw new Error(`Failed to prune crawl cache: ${error.message}`);
+      }
+      return count || 0;
+    },
+  };
+}
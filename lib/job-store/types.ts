@@ -0,0 +1,271 @@
+/**
+ * Job model and the storage interface every job store backend implements
+ */
+
+import type {
+  FaqItem,
+  GenerationState,
+  GroundingReport,
+  JobCheckpoints,
+  ModelCallRecord,
+  ProviderName,
+  RevisionAttempt,
+  SchemaReport,
+  SeoReport,
+  SiteFacts,
+  SourceDocument,
+  SourcePage,
+} from '../typing';
+
+// Job status enum
+export enum JobStatus {
+  PENDING = 'pending',
+  CRAWLING = 'crawling',
+  GENERATING = 'generating',
+  PARSING = 'parsing',
+  COMPLETED = 'completed',
+  COMPLETED_WITH_WARNINGS = 'completed_with_warnings', // Output had to be repaired or partly regenerated
+  FAILED = 'failed',
+  CANCELLED = 'cancelled', // Stopped through /api/jobs/[jobId]/cancel; checkpoints are kept for a rerun
+}
+
+// Statuses of a job a worker is running; an expired lease in one of these means the worker died
+export const PROCESSING_STATUSES: JobStatus[] = [JobStatus.CRAWLING, JobStatus.GENERATING, JobStatus.PARSING];
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === 'string' && (Object.values(JobStatus) as string[]).includes(value);
+}
+
+// Job data structure
+export interface Job {
+  id: string;
+  status: JobStatus;
+  progress: number; // 0-100
+  message: string;
+  createdAt: number;
+  updatedAt: number;
+  attempts: number; // Number of processing attempts
+  lastAttemptAt?: number; // Timestamp of last attempt
+  leaseOwner?: string; // Worker run holding the job; '' in updates releases the lease
+  leaseExpiresAt?: number; // Until when the claim holds unless renewed by a heartbeat
+  batchId?: string; // Batch the job was submitted in (bulk generation)
+  scheduleId?: string; // Schedule that created the job (scheduled and recurring generation)
+  priority: number; // Higher priorities are claimed first (default 0)
+  clientKey?: string; // Who submitted the job (API key or site domain); claims rotate between clients
+  input: {
+    url?: string; // Optional when source documents are supplied
+    topic: string;
+    keywords: string[];
+    length: number;
+    additionalNotes?: string;
+    sources?: SourceDocument[]; // Client-supplied documents (extracted text)
+    provider?: ProviderName; // Content model provider; CONTENT_PROVIDER when unset
+  };
+  result?: {
+    metaTitle: string;
+    metaDescription: string;
+    contentMarkdown: string;
+    faqRaw: string;
+    faq?: FaqItem[]; // Absent for jobs created before FAQs were stored as pairs
+    schemaJsonString: string;
+    schemaReport?: SchemaReport; // Absent for jobs created before schema validation
+    seoReport?: SeoReport; // Absent for jobs created before SEO scoring
+    groundingReport?: GroundingReport; // Absent for jobs created before grounding checks
+    pages: SourcePage[];
+  };
+  partialContent?: string; // Model output streamed so far while generating
+  generationState?: GenerationState; // Sectioned pipeline checkpoint (outline, finished sections)
+  checkpoints?: JobCheckpoints; // Output of every finished stage, so retries resume instead of starting over
+  warnings?: string[]; // What was repaired or regenerated (completed_with_warnings)
+  revisions?: RevisionAttempt[]; // Targeted revisions made because acceptance checks failed
+  error?: string;
+}
+
+// The fields progress polling reads, without the job's sources, checkpoints or result
+export type JobProgress = Pick<Job, 'id' | 'status' | 'progress' | 'message' | 'updatedAt' | 'partialContent'>;
+
+// Fields a job update may change; '' clears partialContent and releases the lease, null clears result and generationState
+export type JobUpdates = Partial<
+  Omit<Job, 'id' | 'createdAt' | 'batchId' | 'scheduleId' | 'priority' | 'clientKey' | 'input' | 'result' | 'generationState'>
+> & {
+  result?: Job['result'] | null;
+  generationState?: GenerationState | null;
+  rerun?: boolean; // An explicit rerun or reset; only these may requeue a cancelled job
+};
+
+// What must still hold for an update to apply
+export interface UpdateCondition {
+  leaseOwner?: string | null; // The job is still claimed by this worker; null: no worker claims it
+  statuses?: JobStatus[]; // The job is in one of these statuses
+}
+
+export interface JobListQuery {
+  statuses?: JobStatus[];
+  batchId?: string;
+  scheduleId?: string;
+  createdAfter?: number; // Inclusive
+  updatedBefore?: number; // Exclusive
+  orderBy?: 'createdAt' | 'updatedAt'; // Default createdAt
+  ascending?: boolean; // Default newest first
+  limit?: number;
+}
+
+// Which job a claim may take
+export interface ClaimOptions {
+  jobId?: string; // Only this job; domain limits don't apply to a forced claim
+  domainLimit?: number; // Leased jobs allowed per site domain at once; 0 or unset for no limit
+  domainLimits?: Record<string, number>; // Per-domain overrides of domainLimit
+}
+
+// A processing job whose lease expired, after it was requeued or failed
+export interface ReleasedJob {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+}
+
+// Jobs submitted together through /api/batches; progress is counted from the jobs themselves
+export interface Batch {
+  id: string;
+  name: string;
+  createdAt: number;
+  jobCount: number; // Jobs created for the batch
+}
+
+// One topic of a schedule's list; keywords default to the schedule's
+export interface ScheduleTopic {
+  topic: string;
+  keywords?: string[];
+}
+
+// Creates jobs from /api/schedules: once at runAt, or on every match of a cron rule;
+// each run takes the next topic from the list
+export interface Schedule {
+  id: string;
+  name: string;
+  cron?: string; // Five-field cron expression in UTC; unset for a one-off run
+  runAt?: number; // When a one-off schedule runs; unset for recurring rules
+  input: Omit<Job['input'], 'topic' | 'sources'>; // Shared by every job the schedule creates
+  topics: ScheduleTopic[];
+  nextTopic: number; // Index of the topic the next run uses
+  loopTopics: boolean; // Start the list over after the last topic instead of ending
+  priority: number;
+  clientKey?: string;
+  enabled: boolean; // False while paused
+  nextRunAt?: number; // Unset while paused and once nothing is left to run
+  lastRunAt?: number;
+  lastJobId?: string;
+  lastError?: string; // Why the last run failed to queue its jobs; cleared by a successful run
+  runCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields a schedule update may change; null clears nextRunAt, '' clears lastError
+export type ScheduleUpdates = Partial<Omit<Schedule, 'id' | 'createdAt' | 'nextRunAt'>> & {
+  nextRunAt?: number | null;
+};
+
+// One model request (usage accounting); kept after its job is cleaned up
+export interface JobCall extends ModelCallRecord {
+  jobId: string | null;
+  domain: string | null; // Client site, so per-domain totals survive job cleanup
+  createdAt: number;
+}
+
+export interface JobCallQuery {
+  jobId?: string;
+  from?: number; // Inclusive
+  to?: number; // Exclusive
+}
+
+// Extracted page text cached per URL and reused across jobs for the same site
+export interface CrawlCacheEntry {
+  url: string;
+  title: string;
+  text: string;
+  links: string[]; // Ranked internal links found on the page
+  facts?: SiteFacts; // Structured business facts found on the page
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number; // Last time the page was fetched or revalidated
+}
+
+export type JobStoreName = 'supabase' | 'sqlite' | 'memory';
+
+export interface JobStore {
+  readonly name: JobStoreName;
+  create(job: Job): Promise<void>;
+  get(jobId: string): Promise<Job | null>;
+  /**
+   * Read only the progress fields (for polling)
+   */
+  getProgress(jobId: string): Promise<JobProgress | null>;
+  /**
+   * Apply the updates atomically while the condition holds; a cancelled job is
+   * left alone unless they cancel it again or rerun it (see appliesToCancelled),
+   * so a worker that hasn't noticed the cancellation yet can't overwrite it.
+   * False when nothing was updated.
+   */
+  update(jobId: string, updates: JobUpdates, condition?: UpdateCondition): Promise<boolean>;
+  /**
+   * Atomically claim the next pending job (or the given one) that no live lease
+   * holds: start a lease for the worker and count an attempt. The next job is the
+   * highest priority, then the client claimed from longest ago, then the oldest;
+   * jobs of a domain at its limit of leased jobs are skipped.
+   */
+  claim(workerId: string, now: number, leaseMs: number, options?: ClaimOptions): Promise<Job | null>;
+  /**
+   * Extend a lease while the worker still owns it; false once it doesn't
+   */
+  renewLease(jobId: string, workerId: string, expiresAt: number): Promise<boolean>;
+  list(query?: JobListQuery): Promise<Job[]>;
+  countByStatus(query?: Omit<JobListQuery, 'orderBy' | 'ascending' | 'limit'>): Promise<Record<string, number>>;
+  /**
+   * Requeue processing jobs whose lease expired, failing those that used up
+   * maxAttempts; the lease is re-checked atomically so a renewed job is left alone
+   */
+  resetStuck(now: number, maxAttempts: number): Promise<ReleasedJob[]>;
+  /**
+   * Delete jobs in the given statuses last updated before the cutoff
+   * Jobs that belong to a batch are kept, so the batch's counts and download stay whole
+   */
+  cleanup(statuses: JobStatus[], updatedBefore: number): Promise<number>;
+  createBatch(batch: Batch): Promise<void>;
+  getBatch(batchId: string): Promise<Batch | null>;
+  /**
+   * Most recent batches first
+   */
+  listBatches(limit: number): Promise<Batch[]>;
+  createSchedule(schedule: Schedule): Promise<void>;
+  getSchedule(scheduleId: string): Promise<Schedule | null>;
+  /**
+   * Newest first; with dueBefore, only enabled schedules whose next run is at or
+   * before it, soonest first
+   */
+  listSchedules(query: { dueBefore?: number; limit?: number }): Promise<Schedule[]>;
+  /**
+   * Apply the updates; with expectedNextRunAt, only while the schedule's next run
+   * is still that time, so two workers can't both take the same run. False when
+   * nothing was updated.
+   */
+  updateSchedule(scheduleId: string, updates: ScheduleUpdates, expectedNextRunAt?: number): Promise<boolean>;
+  /**
+   * Delete the schedule; the jobs it created are kept
+   */
+  deleteSchedule(scheduleId: string): Promise<boolean>;
+  recordCall(call: JobCall): Promise<void>;
+  /**
+   * Model calls matching the query, oldest first
+   */
+  listCalls(query: JobCallQuery): Promise<JobCall[]>;
+  getCachedPage(url: string): Promise<CrawlCacheEntry | null>;
+  /**
+   * Insert the entry or replace the one cached for its URL
+   */
+  putCachedPage(entry: CrawlCacheEntry): Promise<void>;
+  /**
+   * Delete entries last fetched before the cutoff
+   */
+  pruneCachedPages(fetchedBefore: number): Promise<number>;
+}
@@ -54,16 +54,10 @@ export function splitKeywords(keywords: string): string[] {
 }
 
 /**
- * Count words in a markdown string
- * Strips markdown formatting and counts meaningful words
+ * Markdown reduced to plain words: formatting, code, links and HTML removed
  */
-export function wordCount(markdown: string): number {
-  if (!markdown || !markdown.trim()) {
-    return 0;
-  }
-
-  // Remove markdown formatting
-  let text = markdown
+export function stripMarkdown(markdown: string): string {
+  return markdown
     // Remove code blocks
     .replace(/```[\s\S]*?```/g, '')
     // Remove inline code
@@ -81,13 +75,25 @@ export function wordCount(markdown: string): number {
     .replace(/<[^>]+>/g, '')
     // Remove special characters but keep spaces
     .replace(/[^\w\s'-]/g, ' ');
+}
+
+/**
+ * Split plain text into meaningful words
+ */
+export function toWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.length > 0 && /[a-zA-Z0-9]/.test(word));
+}
 
-  // Split by whitespace and count non-empty tokens
-  const words = text
-    .split(/\s+/)
-    .filter((word) => word.length > 0 && /[a-zA-Z0-9]/.test(word));
+/**
+ * Count words in a markdown string
+ * Strips markdown formatting and counts meaningful words
+ */
+export function wordCount(markdown: string): number {
+  if (!markdown || !markdown.trim()) {
+    return 0;
+  }
 
-  return words.length;
+  return toWords(stripMarkdown(markdown)).length;
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * Article outlines for the sectioned generation pipeline
+ * The model proposes an outline as JSON; it is validated here, word budgets are
+ * rescaled to the target length, and finished sections are stitched together
+ */
+
+import { z } from 'zod';
+import type { ArticleOutline, GenerationState } from './typing';
+
+const MIN_SECTION_WORDS = 80;
+
+const OutlineSchema = z.object({
+  title: z.string().min(1),
+  introduction: z.object({
+    wordBudget: z.number().positive(),
+    keywords: z.array(z.string()).default([]),
+    summary: z.string().default(''),
+  }),
+  sections: z
+    .array(
+      z.object({
+        heading: z.string().min(1),
+        subheadings: z.array(z.string()).default([]),
+        wordBudget: z.number().positive(),
+        keywords: z.array(z.string()).default([]),
+        summary: z.string().default(''),
+      })
+    )
+    .min(2)
+    .max(20),
+});
+
+/**
+ * Word count at or above which jobs use the sectioned pipeline (SECTIONED_MIN_WORDS)
+ */
+export function getSectionedThreshold(): number {
+  const threshold = parseInt(process.env.SECTIONED_MIN_WORDS || '2500', 10);
+  return Number.isNaN(threshold) ? 2500 : threshold;
+}
+
+/**
+ * Scale word budgets so the outline adds up to the target length
+ */
+function rescaleBudgets(outline: ArticleOutline, targetLength: number): ArticleOutline {
+  const total =
+    outline.introduction.wordBudget +
+    outline.sections.reduce((sum, section) => sum + section.wordBudget, 0);
+  const scale = targetLength / total;
+  const scaled = (budget: number) => Math.max(MIN_SECTION_WORDS, Math.round(budget * scale));
+
+  return {
+    ...outline,
+    introduction: { ...outline.introduction, wordBudget: scaled(outline.introduction.wordBudget) },
+    sections: outline.sections.map((section) => ({ ...section, wordBudget: scaled(section.wordBudget) })),
+  };
+}
+
+/**
+ * Parse and validate the model's outline JSON (bare or in a code fence)
+ */
+export function parseOutline(text: string, targetLength: number): ArticleOutline {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Outline JSON not found in output');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(candidate.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Invalid JSON in outline: ${error}`);
+  }
+
+  const result = OutlineSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+    throw new Error(`Outline does not match the expected shape: ${issues}`);
+  }
+
+  return rescaleBudgets(result.data, targetLength);
+}
+
+/**
+ * Article markdown from the finished sections (H1, introduction, H2 sections)
+ */
+export function assembleArticle(outline: ArticleOutline, sections: string[]): string {
+  return [`# ${outline.title}`, ...sections.map((section) => section.trim())].join('\n\n');
+}
+
+/**
+ * Full marker-format output: the assembly stage's META/FAQ/SCHEMA blocks with
+ * the article inserted as the CONTENT block, so parseSections() reads it as usual
+ */
+export function buildSectionedOutput(state: GenerationState): string {
+  if (!state.outline || state.assembly === undefined) {
+    throw new Error('Sectioned generation is incomplete');
+  }
+
+  const contentBlock = `===CONTENT START===\n\n${assembleArticle(state.outline, state.sections)}\n\n===CONTENT END===`;
+  const faqIndex = state.assembly.indexOf('===FAQ START===');
+  if (faqIndex === -1) {
+    return `${state.assembly.trim()}\n\n${contentBlock}\n`;
+  }
+
+  return `${state.assembly.slice(0, faqIndex).trim()}\n\n${contentBlock}\n\n${state.assembly.slice(faqIndex).trim()}\n`;
+}
+
+/**
+ * Tidy one written section: drop code fences and stray headings the model added,
+ * and make sure H2 sections start with their heading
+ */
+export function normalizeSection(text: string, heading?: string): string {
+  let section = text
+    .trim()
+    .replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/, '$1')
+    .trim();
+
+  // The H1 is added by assembleArticle()
+  section = section.replace(/^# [^\n]*\n+/, '');
+
+  if (heading && !/^##\s/.test(section)) {
+    section = `## ${heading}\n\n${section}`;
+  }
+  return section;
+}
@@ -2,6 +2,7 @@
  * Parse Claude's structured output into sections
  */
 
+import { parseFaq } from './faq';
 import type { ParsedSections } from './typing';
 
 /**
@@ -92,6 +93,7 @@ export function parseSections(text: string): ParsedSections {
       metaDescription,
       contentMarkdown,
       faqRaw,
+      faq: parseFaq(faqRaw),
       schemaJsonString,
       schemaJson,
     };
@@ -101,6 +103,192 @@ export function parseSections(text: string): ParsedSections {
   }
 }
 
+export type SectionName = 'metaTitle' | 'metaDescription' | 'contentMarkdown' | 'faqRaw' | 'schemaJson';
+
+export const SECTION_LABELS: Record<SectionName, string> = {
+  metaTitle: 'meta title',
+  metaDescription: 'meta description',
+  contentMarkdown: 'content',
+  faqRaw: 'FAQ',
+  schemaJson: 'schema',
+};
+
+export interface LenientParseResult {
+  sections: Partial<ParsedSections>;
+  missing: SectionName[]; // Sections that could not be recovered
+  repairs: string[]; // What had to be fixed to recover the others
+}
+
+// Smart double quotes models sometimes write instead of "
+const SMART_QUOTES = /[\u201C\u201D\u201E\u201F\u2033]/;
+
+/**
+ * Replace smart quotes used as string delimiters with straight ones
+ * A smart quote outside a string opens one, which ends at the next quote followed
+ * by : , } ] or the end of the JSON; smart quotes inside strings are content and kept
+ */
+function normalizeSmartQuotes(json: string): string {
+  let out = '';
+  let inString: 'straight' | 'smart' | null = null;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    const isQuote = char === '"' || SMART_QUOTES.test(char);
+
+    if (char === '\\' && inString) {
+      out += char + (json[++i] ?? '');
+    } else if (inString === 'straight') {
+      out += char;
+      if (char === '"') inString = null;
+    } else if (inString === 'smart') {
+      if (isQuote && /^\s*([:,}\]]|$)/.test(json.slice(i + 1))) {
+        out += '"';
+        inString = null;
+      } else {
+        out += char === '"' ? '\\"' : char;
+      }
+    } else if (isQuote) {
+      out += '"';
+      inString = char === '"' ? 'straight' : 'smart';
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+/**
+ * Fix the JSON mistakes models make most often: smart quotes and trailing commas
+ */
+export function repairJson(jsonString: string): { json: object; jsonString: string; repairs: string[] } {
+  try {
+    return { json: JSON.parse(jsonString), jsonString, repairs: [] };
+  } catch {
+    // Fall through to the repairs below
+  }
+
+  const repairs: string[] = [];
+  let repaired = jsonString;
+
+  const unquoted = normalizeSmartQuotes(repaired);
+  if (unquoted !== repaired) {
+    repairs.push('replaced smart quotes in schema JSON');
+    repaired = unquoted;
+  }
+
+  const uncommaed = repaired.replace(/,(\s*[}\]])/g, '$1');
+  if (uncommaed !== repaired) {
+    repairs.push('removed trailing commas in schema JSON');
+    repaired = uncommaed;
+  }
+
+  try {
+    return { json: JSON.parse(repaired), jsonString: repaired, repairs };
+  } catch (error) {
+    throw new Error(`Invalid JSON in SCHEMA block: ${error}`);
+  }
+}
+
+/**
+ * Text between a start marker and its end marker; a missing end marker ends
+ * the block at the next start marker (or the end of the output)
+ */
+function extractBlock(text: string, name: string, repairs: string[]): string | undefined {
+  const start = text.indexOf(`===${name} START===`);
+  if (start === -1) return undefined;
+
+  const bodyStart = start + `===${name} START===`.length;
+  const end = text.indexOf(`===${name} END===`, bodyStart);
+  if (end !== -1) return text.slice(bodyStart, end).trim();
+
+  repairs.push(`${name} END marker missing`);
+  const next = text.slice(bodyStart).search(/===[A-Z]+ START===/);
+  return (next === -1 ? text.slice(bodyStart) : text.slice(bodyStart, bodyStart + next)).trim();
+}
+
+/**
+ * Meta line, also when the model bolded the label ("**META TITLE:** ...")
+ */
+function extractMetaLine(text: string, label: string): string | undefined {
+  const match = text.match(new RegExp(`^[*#\\s]*${label}:?\\**:?\\s*(.+?)\\s*$`, 'im'));
+  return match && match[1] ? match[1].replace(/^\*+|\*+$/g, '').trim() || undefined : undefined;
+}
+
+/**
+ * Schema JSON from its block, a bare ```json fence, or the outermost braces
+ */
+function extractSchemaLenient(text: string, outsideContent: string, repairs: string[]): { jsonString: string; json: object } | undefined {
+  let block = extractBlock(text, 'SCHEMA', repairs);
+  if (block === undefined) {
+    const fenced = outsideContent.match(/```json\s*([\s\S]*?)\s*```/);
+    if (!fenced) return undefined;
+    repairs.push('SCHEMA markers missing');
+    block = fenced[0];
+  }
+
+  const fenced = block.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  let candidate = fenced ? fenced[1].trim() : undefined;
+  if (candidate === undefined) {
+    const start = block.indexOf('{');
+    const end = block.lastIndexOf('}');
+    if (start === -1 || end <= start) return undefined;
+    repairs.push('JSON code fence missing in SCHEMA block');
+    candidate = block.slice(start, end + 1);
+  }
+
+  try {
+    const { json, jsonString, repairs: jsonRepairs } = repairJson(candidate);
+    repairs.push(...jsonRepairs);
+    return { json, jsonString };
+  } catch (error) {
+    console.warn('[Parse] Unrecoverable schema JSON:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Recovery mode: keep every section that can be extracted, repairing what can
+ * be repaired, and report the rest as missing instead of throwing
+ */
+export function parseSectionsLenient(text: string): LenientParseResult {
+  const repairs: string[] = [];
+  const sections: Partial<ParsedSections> = {};
+
+  const metaTitle = extractMetaLine(text, 'META TITLE');
+  if (metaTitle) sections.metaTitle = metaTitle;
+  const metaDescription = extractMetaLine(text, 'META DESCRIPTION');
+  if (metaDescription) sections.metaDescription = metaDescription;
+
+  const contentMarkdown = extractBlock(text, 'CONTENT', repairs);
+  if (contentMarkdown) sections.contentMarkdown = contentMarkdown;
+  const outsideContent = contentMarkdown ? text.replace(contentMarkdown, '') : text;
+
+  let faqRaw = extractBlock(text, 'FAQ', repairs);
+  if (faqRaw === undefined) {
+    // Q:/A: pairs written without the markers
+    const start = outsideContent.search(/^Q:/m);
+    if (start !== -1) {
+      repairs.push('FAQ markers missing');
+      faqRaw = outsideContent.slice(start).split(/===SCHEMA START===|```json/)[0].trim();
+    }
+  }
+  // An FAQ without any Q:/A: pairs counts as missing
+  const faq = faqRaw ? parseFaq(faqRaw) : [];
+  if (faqRaw && faq.length > 0) {
+    sections.faqRaw = faqRaw;
+    sections.faq = faq;
+  }
+
+  const schema = extractSchemaLenient(text, outsideContent, repairs);
+  if (schema) {
+    sections.schemaJsonString = schema.jsonString;
+    sections.schemaJson = schema.json;
+  }
+
+  const missing = (Object.keys(SECTION_LABELS) as SectionName[]).filter((name) => sections[name] === undefined);
+  return { sections, missing, repairs };
+}
+
 /**
  * Safely truncate a string to a maximum length
  */
@@ -0,0 +1,78 @@
+/**
+ * Model price table for cost accounting
+ * Prices are USD per million tokens. MODEL_PRICES (JSON) adds or overrides
+ * entries, e.g. {"claude-sonnet-4-5": {"input": 3, "output": 15}}
+ */
+
+import type { ModelUsage } from './typing';
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number; // Defaults to the input price
+  cacheWrite?: number; // Defaults to the input price
+}
+
+// Keys are model id prefixes so dated snapshots (…-20250929) match
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'fixture': { input: 0, output: 0 },
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+/**
+ * Default prices merged with the MODEL_PRICES override
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    let overrides: Record<string, ModelPrice> = {};
+    if (process.env.MODEL_PRICES) {
+      try {
+        overrides = JSON.parse(process.env.MODEL_PRICES);
+      } catch (error) {
+        console.error('[Pricing] MODEL_PRICES is not valid JSON, using defaults:', error);
+      }
+    }
+    priceTable = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return priceTable;
+}
+
+/**
+ * Find the price for a model by longest matching prefix
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const table = getPriceTable();
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/**
+ * Cost of one call in USD, or null when the model isn't in the price table
+ * Input tokens exclude cache reads and writes, which are billed separately
+ */
+export function computeCost(model: string, usage: ModelUsage): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  const cost =
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * (price.cacheRead ?? price.input) +
+    usage.cacheWriteTokens * (price.cacheWrite ?? price.input);
+
+  return cost / 1_000_000;
+}
@@ -2,6 +2,8 @@
  * Enhanced prompt templates for SEO-optimized content generation with Claude API
  */
 
+import type { AcceptanceFailure, ArticleOutline } from './typing';
+
 export const SYSTEM_PROMPT = `You are an elite SEO content strategist and expert copywriter specializing in creating comprehensive, search-optimized content that ranks well in both traditional search engines and AI-powered systems like ChatGPT, Gemini, and Perplexity.
 
 CRITICAL ANTI-HALLUCINATION RULES:
@@ -29,12 +31,28 @@ FORMATTING RULES:
 - Create scannable, visually organized content
 - Use internal linking opportunities where relevant (based on site context)`;
 
+/**
+ * Format the verified site facts block, or an empty string when none were found
+ */
+function buildSiteFactsSection(siteFacts?: string): string {
+  if (!siteFacts) return '';
+
+  return `
+[SITE FACTS START]
+${siteFacts}
+[SITE FACTS END]
+
+These facts were read from the site's structured data and contact details. Use them verbatim for the business name, address, phone, opening hours, services and prices in both the article and the JSON-LD schema. Never alter or embellish them.
+`;
+}
+
 export function buildComprehensivePrompt(
   siteContext: string,
   topic: string,
   joinedKeywords: string,
   length: number,
-  additionalNotes?: string
+  additionalNotes?: string,
+  siteFacts?: string
 ): string {
   const notesSection = additionalNotes ? `
 ADDITIONAL NOTES & REQUIREMENTS:
@@ -52,6 +70,8 @@ IMPORTANT: Follow the additional notes carefully. These are specific requirement
 [SITE CONTEXT START]
 ${siteContext}
 [SITE CONTEXT END]
+${buildSiteFactsSection(siteFacts)}
+Blocks labelled [SOURCE: ...] are documents supplied by the client (briefs, product specs, interview notes). They are as authoritative as the website itself; when a fact comes from one, you may attribute it naturally (e.g. "according to our product specification").
 
 CONTENT PARAMETERS:
 Topic: ${topic}
@@ -414,3 +434,285 @@ CRITICAL GLOBAL RULES:
 
 Return the complete, publication-ready content in the exact required format with all fences and labels.`;
 }
+
+/**
+ * Client notes for the sectioned pipeline prompts
+ */
+function buildNotesSection(additionalNotes?: string): string {
+  if (!additionalNotes) return '';
+
+  return `
+ADDITIONAL NOTES & REQUIREMENTS (high-priority client constraints - they override general guidelines):
+${additionalNotes}
+`;
+}
+
+/**
+ * Sectioned pipeline, stage 1: plan the article as a JSON outline
+ */
+export function buildOutlinePrompt(
+  siteContext: string,
+  topic: string,
+  joinedKeywords: string,
+  length: number,
+  additionalNotes?: string,
+  siteFacts?: string
+): string {
+  return `You are planning a long-form, SEO-optimized article for the website described below. The article will be written one section at a time from your outline, so the outline must be complete and well balanced. Use ONLY the site context for facts.
+
+[SITE CONTEXT START]
+${siteContext}
+[SITE CONTEXT END]
+${buildSiteFactsSection(siteFacts)}
+CONTENT PARAMETERS:
+Topic: ${topic}
+Primary Keywords: ${joinedKeywords}
+Target Length: ${length} words
+${buildNotesSection(additionalNotes)}
+OUTLINE REQUIREMENTS:
+- A question-based or benefit-focused H1 title with the primary keyword
+- An introduction of 150-250 words
+- H2 sections that cover the topic completely without overlap; about 40% should be questions ("What", "Why", "How")
+- 2-4 H3 subheadings for longer sections
+- A word budget per section; budgets should add up to roughly ${length} words
+- Distribute the keywords: each keyword assigned to the section(s) where it fits naturally
+- End with a conclusion section with clear next steps based on the site's offerings
+
+OUTPUT FORMAT (MANDATORY):
+Return ONLY a JSON object in a \`\`\`json code fence, with this shape:
+\`\`\`json
+{
+  "title": "H1 title",
+  "introduction": { "wordBudget": 200, "keywords": ["keyword"], "summary": "What the introduction covers" },
+  "sections": [
+    {
+      "heading": "H2 heading",
+      "subheadings": ["H3 heading", "H3 heading"],
+      "wordBudget": 400,
+      "keywords": ["keyword"],
+      "summary": "What this section covers and which site facts it uses"
+    }
+  ]
+}
+\`\`\``;
+}
+
+/**
+ * Sectioned pipeline, stage 2: write one section of the outline
+ * index 0 is the introduction; index n is outline.sections[n - 1]
+ */
+export function buildSectionPrompt(
+  siteContext: string,
+  topic: string,
+  outline: ArticleOutline,
+  index: number,
+  previousExcerpt?: string,
+  additionalNotes?: string,
+  siteFacts?: string
+): string {
+  const overview = [
+    `# ${outline.title}`,
+    `Introduction - ${outline.introduction.summary}`,
+    ...outline.sections.map((section, i) =>
+      [
+        `${i + 1 === index ? '>> ' : ''}## ${section.heading} - ${section.summary}`,
+        ...section.subheadings.map((sub) => `   ### ${sub}`),
+      ].join('\n')
+    ),
+  ].join('\n');
+
+  const isIntroduction = index === 0;
+  const section = isIntroduction ? null : outline.sections[index - 1];
+  const wordBudget = isIntroduction ? outline.introduction.wordBudget : section!.wordBudget;
+  const keywords = (isIntroduction ? outline.introduction.keywords : section!.keywords).join(', ');
+
+  const task = isIntroduction
+    ? `Write the INTRODUCTION only (no heading - the H1 is added separately).
+- Put the primary keyword in the first sentence and preview what the article covers
+- Give a direct answer first if the topic is a question`
+    : `Write ONLY this section, starting with the line "## ${section!.heading}".
+${section!.subheadings.length > 0 ? `- Use these H3 subheadings in order: ${section!.subheadings.map((s) => `"### ${s}"`).join(', ')}\n` : ''}- If the heading is a question, answer it directly in the first sentence
+- Do not write an introduction or conclusion for the whole article unless this IS the conclusion section`;
+
+  return `You are writing one section of a long-form SEO article for the website described below. Use ONLY the site context for all factual claims.
+
+[SITE CONTEXT START]
+${siteContext}
+[SITE CONTEXT END]
+${buildSiteFactsSection(siteFacts)}
+Topic: ${topic}
+${buildNotesSection(additionalNotes)}
+ARTICLE OUTLINE (the section to write is marked >>):
+${overview}
+
+${previousExcerpt ? `The previous section ended with:\n"""\n${previousExcerpt}\n"""\nContinue naturally from it without repeating it.\n` : ''}
+SECTION TO WRITE:
+Section: ${isIntroduction ? 'Introduction' : section!.heading}
+Word Budget: ${wordBudget} words
+Keywords: ${keywords || 'use the topic terms naturally'}
+${task}
+- Stay within the section's scope - other sections cover the rest of the outline
+- Use lists, tables or blockquotes where they help
+- NEVER use an em dash - always use a normal hyphen instead
+
+Return ONLY the section's markdown - no preamble, no markers, no notes.`;
+}
+
+/**
+ * Sectioned pipeline, stage 3: meta tags, FAQ and schema for the finished article
+ */
+export function buildAssemblyPrompt(
+  article: string,
+  topic: string,
+  joinedKeywords: string,
+  siteFacts?: string
+): string {
+  return `The SEO article below is finished. Produce its meta tags, FAQ and JSON-LD schema. Use ONLY information present in the article and the site facts.
+${buildSiteFactsSection(siteFacts)}
+Topic: ${topic}
+Primary Keywords: ${joinedKeywords}
+
+[ARTICLE START]
+${article}
+[ARTICLE END]
+
+OUTPUT FORMAT (MANDATORY - do not repeat the article):
+
+META TITLE: <50-60 characters, primary keyword front-loaded>
+META DESCRIPTION: <150-160 characters, includes primary keyword and a call-to-action>
+
+===FAQ START===
+5-7 Q&A pairs that the article answers but that are phrased the way users search. Format each as:
+Q: [Question]
+A: [Answer, 2-4 sentences, consistent with the article]
+===FAQ END===
+
+===SCHEMA START===
+\`\`\`json
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "Article", "headline": "...", "description": "...", "author": { "@type": "Organization", "name": "..." }, "publisher": { "@type": "Organization", "name": "..." }, "datePublished": "...", "dateModified": "..." },
+    { "@type": "FAQPage", "mainEntity": [ { "@type": "Question", "name": "...", "acceptedAnswer": { "@type": "Answer", "text": "..." } } ] }
+  ]
+}
+\`\`\`
+===SCHEMA END===`;
+}
+
+/**
+ * Appended to a prompt when the answer is requested through the content tool
+ * The marker format above still describes what each part should contain
+ */
+export function buildStructuredOutputNote(toolName: string, fields: string[]): string {
+  return `
+
+STRUCTURED OUTPUT (overrides the OUTPUT FORMAT delivery above):
+Do NOT write the ===MARKER=== text. Call the ${toolName} tool exactly once with these fields: ${fields.join(', ')}.
+- metaTitle / metaDescription: the META TITLE and META DESCRIPTION values, one line each
+- contentMarkdown: everything that would go between the CONTENT markers, starting with the H1
+- faq: one {question, answer} item per Q&A pair
+- schema: the JSON-LD as a JSON object (not a string)
+Apply every content, SEO and accuracy rule above exactly as before.`;
+}
+
+/**
+ * Follow-up request when tool input failed validation: ask again for only the
+ * invalid fields, showing what was wrong with them
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  toolName: string,
+  fields: string[],
+  issues: string[],
+  previousInput: Record<string, unknown>
+): string {
+  const previous = Object.keys(previousInput).length > 0
+    ? `\nWhat you submitted for these fields:\n\`\`\`json\n${JSON.stringify(previousInput, null, 2)}\n\`\`\`\n`
+    : '\nThese fields were missing from your submission.\n';
+
+  return `${originalPrompt}
+
+REPAIR REQUEST:
+Your previous ${toolName} call did not pass validation. Problems:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+${previous}
+Call ${toolName} again with corrected values for ONLY these fields: ${fields.join(', ')}. Keep everything that was already correct unchanged.`;
+}
+
+/**
+ * Recovery: ask again for only the parts of the output that could not be parsed
+ * Reuses the assembly prompt, which produces exactly these blocks for an article
+ */
+export function buildMissingSectionsPrompt(
+  article: string,
+  topic: string,
+  joinedKeywords: string,
+  missing: string[],
+  siteFacts?: string
+): string {
+  return `${buildAssemblyPrompt(article, topic, joinedKeywords, siteFacts)}
+
+ONLY THESE PARTS ARE NEEDED: ${missing.join(', ')}
+The rest was already produced. Output just these parts, in the format above, with all their markers.`;
+}
+
+/**
+ * Acceptance revision: fix only the checks that failed
+ * Shows the current article and asks for just the parts the failures concern
+ * (META lines and/or the CONTENT block), leaving everything else untouched
+ */
+export function buildRevisionPrompt(
+  siteContext: string,
+  current: { metaTitle: string; metaDescription: string; contentMarkdown: string },
+  failures: AcceptanceFailure[],
+  limits: { length: number; metaTitleMax: number; metaDescriptionMax: number },
+  lengthNote: string,
+  additionalNotes?: string,
+  siteFacts?: string
+): string {
+  const fixes = failures.map((failure) => {
+    switch (failure.check) {
+      case 'length':
+        return `- LENGTH: ${failure.message}. ${lengthNote || `Bring the article to about ${limits.length} words.`} Keep every section; adjust depth, not structure.`;
+      case 'metaTitle':
+        return `- META TITLE: ${failure.message}. Rewrite it to at most ${limits.metaTitleMax} characters, primary keyword front-loaded.`;
+      case 'metaDescription':
+        return `- META DESCRIPTION: ${failure.message}. Rewrite it to at most ${limits.metaDescriptionMax} characters, keeping the primary keyword and the call-to-action.`;
+      case 'keywords':
+        return `- KEYWORDS: these keywords never appear in the article: ${(failure.items || []).join(', ')}. Work each one in naturally at least once, where it fits the content.`;
+      case 'forbiddenTopics':
+        return `- FORBIDDEN TOPICS: the client notes ask to avoid ${(failure.items || []).join(', ')}, but the article mentions them. Remove every mention and rewrite the surrounding sentences so they still read well.`;
+    }
+  });
+
+  const checks = new Set(failures.map((failure) => failure.check));
+  const rewriteContent = checks.has('length') || checks.has('keywords') || checks.has('forbiddenTopics');
+  const format = [
+    checks.has('metaTitle') ? 'META TITLE: <revised meta title>' : '',
+    checks.has('metaDescription') ? 'META DESCRIPTION: <revised meta description>' : '',
+    rewriteContent ? '===CONTENT START===\n<the complete revised article in Markdown, starting with the H1>\n===CONTENT END===' : '',
+  ].filter(Boolean);
+
+  return `The SEO content below failed some acceptance checks. Revise ONLY what is needed to fix them. Use only the site context and site facts for any information you add.
+
+[SITE CONTEXT START]
+${siteContext}
+[SITE CONTEXT END]
+${buildSiteFactsSection(siteFacts)}${buildNotesSection(additionalNotes)}
+META TITLE: ${current.metaTitle}
+META DESCRIPTION: ${current.metaDescription}
+
+[ARTICLE START]
+${current.contentMarkdown}
+[ARTICLE END]
+
+FIX THESE PROBLEMS:
+${fixes.join('\n')}
+
+Everything that is not listed above already passed - keep headings, facts, formatting and tone as they are. Never use em dashes - only hyphens.
+
+OUTPUT FORMAT (MANDATORY - output only these parts, nothing else):
+
+${format.join('\n\n')}`;
+}
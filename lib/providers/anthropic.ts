@@ -0,0 +1,172 @@
+/**
+ * Anthropic Claude provider
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ContentModelProvider, ModelRequest, ModelResponse } from '../typing';
+import { cancelledError, classifyStatus, isModelError, modelError, parseRetryAfter } from './errors';
+
+let anthropicClient: Anthropic | null = null;
+
+/**
+ * Get or create Anthropic client instance
+ */
+export function getAnthropic(): Anthropic {
+  if (!anthropicClient) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is required');
+    }
+    // Retries and model fallback are handled by lib/ai.ts
+    anthropicClient = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+  return anthropicClient;
+}
+
+/**
+ * Call Claude with messages and system prompt
+ * Uses the streaming Messages API so partial text can be reported as it arrives;
+ * a requested tool is forced with tool_choice; includes timeout protection to prevent hanging,
+ * and request.signal aborts the stream
+ */
+async function callClaude(request: ModelRequest, model: string): Promise<ModelResponse> {
+  const client = getAnthropic();
+  const { timeoutMs } = request;
+
+  try {
+    const stream = client.messages.stream({
+      model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+      ],
+      ...(request.tool
+        ? {
+            tools: [
+              {
+                name: request.tool.name,
+                description: request.tool.description,
+                input_schema: request.tool.inputSchema,
+              },
+            ],
+            tool_choice: { type: 'tool' as const, name: request.tool.name },
+          }
+        : {}),
+    });
+
+    if (request.onText) {
+      const onText = request.onText;
+      stream.on('text', (_delta, snapshot) => onText(snapshot));
+    }
+    if (request.onToolInput) {
+      const onToolInput = request.onToolInput;
+      stream.on('inputJson', (_delta, snapshot) => onToolInput(snapshot));
+    }
+
+    // Create timeout promise
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        stream.abort();
+        reject(new Error(`Claude API timeout after ${timeoutMs / 1000}s - consider reducing content length or max_tokens`));
+      }, timeoutMs);
+    });
+
+    // Cancelling the job aborts the stream the same way
+    const signal = request.signal;
+    let onAbort: (() => void) | undefined;
+    const cancelPromise = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        stream.abort();
+        reject(cancelledError(model));
+      };
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    // Race between the finished stream, timeout and cancellation
+    const response = await Promise.race([stream.finalMessage(), timeoutPromise, cancelPromise]).finally(() => {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    });
+
+    const text = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+    const toolUse = response.content.find(
+      (block) => block.type === 'tool_use' && block.name === request.tool?.name
+    );
+    if (!request.tool && !text) {
+      throw modelError('Unexpected response type from Claude', 'retryable', { model });
+    }
+
+    // Cache counters are newer than this SDK's Usage type
+    const usage = response.usage as typeof response.usage & {
+      cache_read_input_tokens?: number | null;
+      cache_creation_input_tokens?: number | null;
+    };
+
+    return {
+      text,
+      model: response.model || model,
+      toolInput: toolUse?.type === 'tool_use' ? toolUse.input : undefined,
+      usage: {
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+        cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+      },
+    };
+  } catch (error: any) {
+    if (isModelError(error)) throw error;
+
+    // Handle timeout errors specifically
+    if (error?.message?.includes('timeout')) {
+      console.error('[AI] Claude API timeout detected:', error.message);
+      throw modelError(error.message, 'retryable', { model });
+    }
+
+    // Handle Anthropic API errors
+    if (error instanceof Anthropic.APIError) {
+      const status = error.status;
+      const kind = classifyStatus(status);
+      const retryAfterMs = parseRetryAfter((name) => error.headers?.[name]);
+      const details = { status, retryAfterMs, model };
+
+      if (status === 401) {
+        throw modelError('Invalid API key. Please check your ANTHROPIC_API_KEY.', kind, details);
+      } else if (status === 404) {
+        throw modelError(`Model '${model}' not found. Your API key may not have access to this model.`, kind, details);
+      } else if (status === 429) {
+        throw modelError('Rate limit exceeded.', kind, details);
+      } else if (status === 529) {
+        throw modelError(`Model '${model}' is overloaded.`, kind, details);
+      } else if ((error.error as any)?.error?.message) {
+        throw modelError(`Anthropic API error: ${(error.error as any).error.message}`, kind, details);
+      }
+      throw modelError(`Claude API error: ${error.message}`, kind, details);
+    }
+
+    if (error?.message) {
+      throw new Error(`Claude API error: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export function createAnthropicProvider(): ContentModelProvider {
+  const model = process.env.CLAUDE_MODEL || 'claude-sonnet-4-5-20250929';
+
+  return {
+    name: 'anthropic',
+    model,
+    fallbackModels: (process.env.CLAUDE_FALLBACK_MODELS || '').split(',').map((m) => m.trim()).filter(Boolean),
+    supportsTools: true,
+    generate: (request) => callClaude(request, request.model || model),
+  };
+}
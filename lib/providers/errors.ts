@@ -0,0 +1,73 @@
+/**
+ * Classified model errors
+ * retryable   - transient (rate limit, overload, 5xx, network, timeout); retry with backoff
+ * unavailable - this model can't serve the request (unknown model); try the next fallback model
+ * fatal       - retrying can't help (bad key, invalid request); fail the job
+ */
+
+export type ModelErrorKind = 'retryable' | 'unavailable' | 'fatal';
+
+export interface ModelError extends Error {
+  kind: ModelErrorKind;
+  status?: number;
+  retryAfterMs?: number; // From retry-after / retry-after-ms response headers
+  model?: string;
+}
+
+/**
+ * Create an Error tagged with its classification
+ */
+export function modelError(
+  message: string,
+  kind: ModelErrorKind,
+  details: { status?: number; retryAfterMs?: number; model?: string } = {}
+): ModelError {
+  const error = new Error(message) as ModelError;
+  error.kind = kind;
+  error.status = details.status;
+  error.retryAfterMs = details.retryAfterMs;
+  error.model = details.model;
+  return error;
+}
+
+/**
+ * Error for a request aborted through ModelRequest.signal; fatal so it is never retried
+ */
+export function cancelledError(model?: string): ModelError {
+  return modelError('Model request cancelled', 'fatal', { model });
+}
+
+export function isModelError(error: unknown): error is ModelError {
+  return error instanceof Error && typeof (error as ModelError).kind === 'string';
+}
+
+/**
+ * Classify an HTTP status from a model API
+ */
+export function classifyStatus(status: number | undefined): ModelErrorKind {
+  if (status === undefined) return 'retryable'; // Network error, no response
+  if (status === 408 || status === 409 || status === 429 || status >= 500) return 'retryable'; // Includes 529 overloaded
+  if (status === 404) return 'unavailable';
+  return 'fatal';
+}
+
+/**
+ * Parse retry-after-ms / retry-after (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  getHeader: (name: string) => string | null | undefined
+): number | undefined {
+  const ms = parseFloat(getHeader('retry-after-ms') || '');
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = getHeader('retry-after');
+  if (!value) return undefined;
+
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
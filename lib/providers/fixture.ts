@@ -0,0 +1,319 @@
+/**
+ * Deterministic fixture provider
+ * Builds a well-formed response from the prompt itself so the whole pipeline
+ * can run offline (CI, local development) without calling a model
+ */
+
+import type { ContentModelProvider, ModelRequest, ModelResponse, ModelTool } from '../typing';
+import { wordCount } from '../normalize';
+import { estimateTokens } from '../retrieval';
+
+const FIXTURE_MODEL = 'fixture-v1';
+const FIXTURE_DATE = '2024-01-01';
+
+interface FixtureParams {
+  topic: string;
+  keywords: string[];
+  primary: string;
+  facts: string[];
+}
+
+/**
+ * Read a "Label: value" line from the prompt
+ */
+function readParam(prompt: string, label: string): string | undefined {
+  const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'));
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Collect sentences from the site context block, skipping block headers
+ */
+function contextSentences(prompt: string): string[] {
+  const match = prompt.match(/\[SITE CONTEXT START\]([\s\S]*?)\[SITE CONTEXT END\]/);
+  if (!match) return [];
+
+  const sentences: string[] = [];
+  for (const line of match[1].split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('[')) continue;
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      const words = sentence.split(/\s+/).length;
+      if (words >= 6 && words <= 40 && !sentences.includes(sentence)) {
+        sentences.push(sentence);
+      }
+    }
+  }
+  return sentences;
+}
+
+function readParams(prompt: string): FixtureParams {
+  const topic = readParam(prompt, 'Topic') || 'Our services';
+  const keywords = (readParam(prompt, 'Primary Keywords') || topic)
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean);
+  return { topic, keywords, primary: keywords[0] || topic, facts: contextSentences(prompt) };
+}
+
+function fixtureHeadings({ primary, keywords }: FixtureParams): string[] {
+  return [
+    `What is ${primary}?`,
+    `Why does ${primary} matter?`,
+    `How to get started with ${primary}`,
+    ...keywords.slice(1).map((k) => `Understanding ${k}`),
+  ];
+}
+
+/**
+ * Paragraphs of at least `words` words (one paragraph minimum), cycling
+ * through the site context sentences
+ */
+function fixtureParagraphs(params: FixtureParams, words: number, offset: number): string {
+  const paragraphs: string[] = [];
+  let factIndex = offset;
+  do {
+    const paragraph: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      if (params.facts.length > 0) {
+        paragraph.push(params.facts[factIndex % params.facts.length]);
+        factIndex++;
+      } else {
+        paragraph.push(`This section explains one aspect of ${params.primary} in plain language for readers who are comparing their options.`);
+      }
+    }
+    paragraphs.push(paragraph.join(' '));
+  } while (wordCount(paragraphs.join('\n\n')) < words);
+  return paragraphs.join('\n\n');
+}
+
+interface FixtureExtras {
+  metaTitle: string;
+  metaDescription: string;
+  faqs: { question: string; answer: string }[];
+  schema: Record<string, unknown>;
+  meta: string; // META lines
+  faqAndSchema: string; // FAQ and SCHEMA blocks
+}
+
+/**
+ * Meta tags, FAQ and schema, as values and in marker format
+ */
+function fixtureExtras(params: FixtureParams, headline: string): FixtureExtras {
+  const { primary, facts } = params;
+  const faqs = fixtureHeadings(params)
+    .slice(0, 5)
+    .map((question, i) => ({
+      question,
+      answer: facts[i] || `This guide covers ${primary} in detail.`,
+    }));
+
+  const schema = {
+    '@context': 'https://schema.org',
+    '@graph': [
+      {
+        '@type': 'Article',
+        headline,
+        description: `A practical guide to ${primary}.`,
+        datePublished: FIXTURE_DATE,
+        dateModified: FIXTURE_DATE,
+      },
+      {
+        '@type': 'FAQPage',
+        mainEntity: faqs.map((faq) => ({
+          '@type': 'Question',
+          name: faq.question,
+          acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+        })),
+      },
+    ],
+  };
+
+  const metaTitle = headline.slice(0, 60);
+  const metaDescription = `A practical guide to ${primary}: what it is, why it matters and how to get started.`;
+
+  return {
+    metaTitle,
+    metaDescription,
+    faqs,
+    schema,
+    meta: [`META TITLE: ${metaTitle}`, `META DESCRIPTION: ${metaDescription}`].join('\n'),
+    faqAndSchema: [
+      '===FAQ START===',
+      faqs.map((faq) => `Q: ${faq.question}\nA: ${faq.answer}`).join('\n\n'),
+      '===FAQ END===',
+      '',
+      '===SCHEMA START===',
+      '```json',
+      JSON.stringify(schema, null, 2),
+      '```',
+      '===SCHEMA END===',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Single-pass article body, sections filled up to the target length
+ */
+function buildArticleBody(prompt: string): string {
+  const params = readParams(prompt);
+  const targetLength = parseInt(readParam(prompt, 'Target Length') || '', 10) || 800;
+  const headings = fixtureHeadings(params);
+
+  const sections: string[] = [
+    `# ${params.topic}`,
+    `${params.primary} is the focus of this guide. It covers what you need to know about ${params.topic.toLowerCase()} and how to act on it.`,
+  ];
+
+  // Fill sections in a fixed order until the target length is reached
+  let sectionIndex = 0;
+  const body = () => sections.join('\n\n');
+  while (wordCount(body()) < targetLength && sectionIndex < 50) {
+    const heading = headings[sectionIndex % headings.length];
+    sections.push(`## ${sectionIndex < headings.length ? heading : `${heading} (part ${Math.floor(sectionIndex / headings.length) + 1})`}`);
+    sections.push(fixtureParagraphs(params, 0, sectionIndex * 4));
+    sectionIndex++;
+  }
+
+  sections.push('## Conclusion');
+  sections.push(`Use this guide to plan your next steps with ${params.primary}. Contact the team to discuss your needs.`);
+  return body();
+}
+
+/**
+ * Single-pass output: META, CONTENT, FAQ and SCHEMA in marker format
+ */
+function buildArticleResponse(prompt: string): string {
+  const params = readParams(prompt);
+  const extras = fixtureExtras(params, params.topic);
+  return [
+    extras.meta,
+    '',
+    '===CONTENT START===',
+    buildArticleBody(prompt),
+    '===CONTENT END===',
+    '',
+    extras.faqAndSchema,
+  ].join('\n');
+}
+
+/**
+ * Sectioned pipeline, stage 1: outline JSON with budgets adding up to the target
+ */
+function buildOutlineResponse(prompt: string): string {
+  const params = readParams(prompt);
+  const targetLength = parseInt(readParam(prompt, 'Target Length') || '', 10) || 2500;
+  const headings = [...fixtureHeadings(params), 'Conclusion'];
+  const introBudget = 200;
+  const sectionBudget = Math.max(100, Math.round((targetLength - introBudget) / headings.length));
+
+  const outline = {
+    title: params.topic,
+    introduction: { wordBudget: introBudget, keywords: [params.primary], summary: `Introduces ${params.primary}` },
+    sections: headings.map((heading, i) => ({
+      heading,
+      subheadings: [],
+      wordBudget: sectionBudget,
+      keywords: [params.keywords[i % params.keywords.length]],
+      summary: heading,
+    })),
+  };
+  return '```json\n' + JSON.stringify(outline, null, 2) + '\n```';
+}
+
+/**
+ * Sectioned pipeline, stage 2: one section of about its word budget
+ */
+function buildSectionResponse(prompt: string): string {
+  const params = readParams(prompt);
+  const section = readParam(prompt, 'Section') || 'Introduction';
+  const budget = parseInt(readParam(prompt, 'Word Budget') || '', 10) || 200;
+  const body = fixtureParagraphs(params, budget, section.length); // Offset varies the sentences per section
+  return section === 'Introduction' ? body : `## ${section}\n\n${body}`;
+}
+
+/**
+ * Sectioned pipeline, stage 3: META, FAQ and SCHEMA for the finished article
+ */
+function buildAssemblyResponse(prompt: string): string {
+  const extras = assemblyExtras(prompt);
+  return `${extras.meta}\n\n${extras.faqAndSchema}`;
+}
+
+function assemblyExtras(prompt: string): FixtureExtras {
+  const params = readParams(prompt);
+  const headline = prompt.match(/\[ARTICLE START\]\s*# ([^\n]+)/)?.[1] || params.topic;
+  return fixtureExtras(params, headline);
+}
+
+/**
+ * Structured output: the same content as the marker format, limited to the
+ * fields the tool asks for (a repair request asks for fewer)
+ */
+function buildToolInput(prompt: string, tool: ModelTool): Record<string, unknown> {
+  const params = readParams(prompt);
+  const isAssembly = prompt.includes('[ARTICLE START]');
+  const extras = isAssembly ? assemblyExtras(prompt) : fixtureExtras(params, params.topic);
+  const input: Record<string, unknown> = {
+    metaTitle: extras.metaTitle,
+    metaDescription: extras.metaDescription,
+    faq: extras.faqs,
+    schema: extras.schema,
+  };
+  if (!isAssembly) {
+    input.contentMarkdown = buildArticleBody(prompt);
+  }
+  return Object.fromEntries(Object.entries(input).filter(([field]) => field in tool.inputSchema.properties));
+}
+
+/**
+ * Pick the response shape from the kind of prompt
+ */
+export function buildFixtureResponse(prompt: string): string {
+  if (prompt.includes('OUTLINE REQUIREMENTS:')) return buildOutlineResponse(prompt);
+  if (prompt.includes('SECTION TO WRITE:')) return buildSectionResponse(prompt);
+  if (prompt.includes('[ARTICLE START]')) return buildAssemblyResponse(prompt);
+  return buildArticleResponse(prompt);
+}
+
+export function createFixtureProvider(): ContentModelProvider {
+  return {
+    name: 'fixture',
+    model: FIXTURE_MODEL,
+    fallbackModels: [],
+    supportsTools: true,
+    generate: async (request: ModelRequest): Promise<ModelResponse> => {
+      const toolInput = request.tool ? buildToolInput(request.prompt, request.tool) : undefined;
+      const text = toolInput ? '' : buildFixtureResponse(request.prompt);
+
+      // Replay the article paragraph by paragraph, as the streamed tool input would arrive
+      if (toolInput && request.onToolInput && typeof toolInput.contentMarkdown === 'string') {
+        const paragraphs = toolInput.contentMarkdown.split('\n\n');
+        for (let i = 1; i <= paragraphs.length; i++) {
+          request.onToolInput({ ...toolInput, contentMarkdown: paragraphs.slice(0, i).join('\n\n') });
+        }
+      }
+
+      // Replay the response paragraph by paragraph so streaming consumers see partial text
+      if (request.onText) {
+        const paragraphs = text.split('\n\n');
+        for (let i = 1; i <= paragraphs.length; i++) {
+          request.onText(paragraphs.slice(0, i).join('\n\n'));
+        }
+      }
+
+      return {
+        text,
+        model: request.model || FIXTURE_MODEL,
+        toolInput,
+        // Estimated so usage accounting has numbers to show
+        usage: {
+          inputTokens: estimateTokens(request.system) + estimateTokens(request.prompt),
+          outputTokens: estimateTokens(toolInput ? JSON.stringify(toolInput) : text),
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Content model provider registry
+ * A job can name its provider; otherwise CONTENT_PROVIDER picks the default
+ */
+
+import type { ContentModelProvider, ProviderName } from '../typing';
+import { createAnthropicProvider } from './anthropic';
+import { createOpenAIProvider } from './openai';
+import { createFixtureProvider } from './fixture';
+
+export { getAnthropic } from './anthropic';
+
+export const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'fixture'];
+
+const factories: Record<ProviderName, () => ContentModelProvider> = {
+  anthropic: createAnthropicProvider,
+  openai: createOpenAIProvider,
+  fixture: createFixtureProvider,
+};
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Provider used when a job doesn't name one (env CONTENT_PROVIDER, default anthropic)
+ */
+export function getDefaultProviderName(): ProviderName {
+  const configured = process.env.CONTENT_PROVIDER?.trim().toLowerCase();
+  if (!configured) return 'anthropic';
+  if (!isProviderName(configured)) {
+    throw new Error(`Unknown CONTENT_PROVIDER '${configured}'. Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return configured;
+}
+
+/**
+ * Resolve a provider by name, falling back to the configured default
+ */
+export function getContentProvider(name?: ProviderName | null): ContentModelProvider {
+  return factories[name || getDefaultProviderName()]();
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI itself and local servers that expose the same API
+ * (Ollama, llama.cpp server, vLLM, LM Studio)
+ */
+
+import type { ContentModelProvider, ModelRequest, ModelResponse, ModelUsage } from '../typing';
+import { cancelledError, classifyStatus, modelError, parseRetryAfter } from './errors';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Map an OpenAI usage object; prompt_tokens includes cached tokens, so report them separately
+ */
+function toUsage(usage: any): ModelUsage | undefined {
+  if (!usage) return undefined;
+  const cached = usage.prompt_tokens_details?.cached_tokens || 0;
+  return {
+    inputTokens: (usage.prompt_tokens || 0) - cached,
+    outputTokens: usage.completion_tokens || 0,
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+  };
+}
+
+/**
+ * Read a streamed (SSE) chat completion, reporting the text as it grows
+ */
+async function readStream(
+  response: Response,
+  model: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ModelResponse> {
+  if (!response.body) {
+    throw modelError('Empty streaming response from OpenAI-compatible API', 'retryable', { model });
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let reportedModel = model;
+  let usage: ModelUsage | undefined;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        const chunk = JSON.parse(data);
+        reportedModel = chunk.model || reportedModel;
+        usage = toUsage(chunk.usage) || usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    }
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw cancelledError(model);
+    }
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+      throw modelError('OpenAI-compatible API timeout while streaming', 'retryable', { model });
+    }
+    throw modelError(`OpenAI-compatible stream error: ${error?.message || 'read failed'}`, 'retryable', { model });
+  }
+
+  return { text, model: reportedModel, usage };
+}
+
+/**
+ * Call a /chat/completions endpoint with the system prompt and user message
+ * Streams the response when the caller wants partial text
+ */
+async function callChatCompletions(
+  request: ModelRequest,
+  model: string,
+  baseUrl: string
+): Promise<ModelResponse> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually accept requests without a key
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        ...(request.onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal
+        ? AbortSignal.any([request.signal, AbortSignal.timeout(request.timeoutMs)])
+        : AbortSignal.timeout(request.timeoutMs),
+    });
+  } catch (error: any) {
+    if (request.signal?.aborted) {
+      throw cancelledError(model);
+    }
+    if (error?.name === 'TimeoutError') {
+      console.error('[AI] OpenAI-compatible API timeout detected');
+      throw modelError(`OpenAI-compatible API timeout after ${request.timeoutMs / 1000}s`, 'retryable', { model });
+    }
+    // Connection refused, DNS failure, reset - no response at all
+    throw modelError(`OpenAI-compatible API error: ${error?.message || 'request failed'} (${baseUrl})`, 'retryable', { model });
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    let detail = body.slice(0, 300);
+    try {
+      detail = JSON.parse(body)?.error?.message || detail;
+    } catch {
+      // Not JSON - keep the raw body excerpt
+    }
+
+    const status = response.status;
+    const kind = classifyStatus(status);
+    const details = { status, retryAfterMs: parseRetryAfter((name) => response.headers.get(name)), model };
+
+    if (status === 401) {
+      throw modelError('Invalid API key. Please check your OPENAI_API_KEY.', kind, details);
+    } else if (status === 404) {
+      throw modelError(`Model '${model}' not found at ${baseUrl}.`, kind, details);
+    } else if (status === 429) {
+      throw modelError('Rate limit exceeded.', kind, details);
+    }
+    throw modelError(`OpenAI-compatible API error (${status}): ${detail}`, kind, details);
+  }
+
+  if (request.onText) {
+    return readStream(response, model, request.onText, request.signal);
+  }
+
+  const data = await response.json();
+  const text = data?.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') {
+    throw modelError('Unexpected response shape from OpenAI-compatible API', 'retryable', { model });
+  }
+
+  return { text, model: data.model || model, usage: toUsage(data.usage) };
+}
+
+export function createOpenAIProvider(): ContentModelProvider {
+  const model = process.env.OPENAI_MODEL || 'gpt-4o';
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  return {
+    name: 'openai',
+    model,
+    fallbackModels: (process.env.OPENAI_FALLBACK_MODELS || '').split(',').map((m) => m.trim()).filter(Boolean),
+    supportsTools: false, // Tool calling varies too much across compatible servers; uses the marker format
+    generate: (request) => callChatCompletions(request, request.model || model, baseUrl),
+  };
+}
@@ -1,191 +1,73 @@
 /**
- * Job Queue Management with Supabase PostgreSQL
+ * Job Queue Management
+ * Storage goes through the configured job store (lib/job-store: Supabase, SQLite or in-memory)
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-
-// Job status enum
-export enum JobStatus {
-  PENDING = 'pending',
-  CRAWLING = 'crawling',
-  GENERATING = 'generating',
-  PARSING = 'parsing',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
-}
-
-// Job data structure
-export interface Job {
-  id: string;
-  status: JobStatus;
-  progress: number; // 0-100
-  message: string;
-  createdAt: number;
-  updatedAt: number;
-  attempts: number; // Number of processing attempts
-  lastAttemptAt?: number; // Timestamp of last attempt
-  input: {
-    url: string;
-    topic: string;
-    keywords: string[];
-    length: number;
-    additionalNotes?: string;
-  };
-  result?: {
-    metaTitle: string;
-    metaDescription: string;
-    contentMarkdown: string;
-    faqRaw: string;
-    schemaJsonString: string;
-    pages: Array<{ title: string; url: string }>;
-  };
-  error?: string;
-}
-
-// Database row type (matches SQL schema)
-interface JobRow {
-  id: string;
-  status: string;
-  progress: number;
-  message: string;
-  created_at: number;
-  updated_at: number;
-  attempts: number;
-  last_attempt_at: number | null;
-  input_url: string;
-  input_topic: string;
-  input_keywords: any; // JSONB
-  input_length: number;
-  input_additional_notes: string | null;
-  result_meta_title: string | null;
-  result_meta_description: string | null;
-  result_content_markdown: string | null;
-  result_faq_raw: string | null;
-  result_schema_json_string: string | null;
-  result_pages: any | null; // JSONB
-  error: string | null;
-}
-
-let supabase: SupabaseClient | null = null;
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  getJobStore,
+  JobStatus,
+  type Batch,
+  type ClaimOptions,
+  type Job,
+  type JobProgress,
+  type JobUpdates,
+  type UpdateCondition,
+} from './job-store';
+import { domainFromUrl } from './usage';
+
+export { JobStatus };
+export type { Batch, Job };
 
 /**
- * Get or create Supabase client
- * IMPORTANT: Forces cache: 'no-store' to bypass Next.js Data Cache
+ * Generate unique job ID
  */
-export function getSupabase(): SupabaseClient {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!url || !key) {
-    throw new Error(
-      'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment variables'
-    );
-  }
-
-  // Create client with fetch override to bypass Next.js Data Cache
-  return createClient(url, key, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-    db: {
-      schema: 'public',
-    },
-    global: {
-      // Force every supabase-js fetch to bypass Next.js Data Cache
-      fetch: (url: RequestInfo | URL, init?: RequestInit) =>
-        fetch(url, { ...init, cache: 'no-store' }),
-    },
-  });
+export function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
-/**
- * Convert database row to Job object
- */
-function rowToJob(row: JobRow): Job {
-  const hasResult = !!row.result_meta_title;
-
-  console.log(`[Queue] rowToJob for ${row.id}:`, {
-    status: row.status,
-    hasResult,
-    hasMetaTitle: !!row.result_meta_title,
-    hasMetaDescription: !!row.result_meta_description,
-    hasContentMarkdown: !!row.result_content_markdown,
-    hasFaqRaw: !!row.result_faq_raw,
-    hasSchemaJsonString: !!row.result_schema_json_string,
-    hasPages: !!row.result_pages,
-  });
+// How a job is queued: its batch or schedule, priority and the client it counts against
+export interface CreateJobOptions {
+  batchId?: string;
+  scheduleId?: string;
+  priority?: number; // Default 0; higher priorities are claimed first
+  clientKey?: string; // Default: the site domain (see getClientKey)
+}
 
-  return {
-    id: row.id,
-    status: row.status as JobStatus,
-    progress: row.progress,
-    message: row.message,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    attempts: row.attempts || 0,
-    lastAttemptAt: row.last_attempt_at || undefined,
-    input: {
-      url: row.input_url,
-      topic: row.input_topic,
-      keywords: row.input_keywords,
-      length: row.input_length,
-      additionalNotes: row.input_additional_notes || undefined,
-    },
-    result: hasResult
-      ? {
-          metaTitle: row.result_meta_title!,
-          metaDescription: row.result_meta_description!,
-          contentMarkdown: row.result_content_markdown!,
-          faqRaw: row.result_faq_raw!,
-          schemaJsonString: row.result_schema_json_string!,
-          pages: row.result_pages!,
-        }
-      : undefined,
-    error: row.error || undefined,
-  };
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
 }
 
 /**
- * Convert Job object to database row
+ * Whether the key is one of the client API keys configured in CLIENT_API_KEYS
+ * (comma-separated); unknown keys must not get a queue turn or priority of their own
  */
-function jobToRow(job: Job): Partial<JobRow> {
-  return {
-    id: job.id,
-    status: job.status,
-    progress: job.progress,
-    message: job.message,
-    created_at: job.createdAt,
-    updated_at: job.updatedAt,
-    attempts: job.attempts || 0,
-    last_attempt_at: job.lastAttemptAt || null,
-    input_url: job.input.url,
-    input_topic: job.input.topic,
-    input_keywords: job.input.keywords,
-    input_length: job.input.length,
-    input_additional_notes: job.input.additionalNotes || null,
-    result_meta_title: job.result?.metaTitle || null,
-    result_meta_description: job.result?.metaDescription || null,
-    result_content_markdown: job.result?.contentMarkdown || null,
-    result_faq_raw: job.result?.faqRaw || null,
-    result_schema_json_string: job.result?.schemaJsonString || null,
-    result_pages: job.result?.pages || null,
-    error: job.error || null,
-  };
+export function isValidApiKey(apiKey?: string | null): apiKey is string {
+  if (!apiKey) return false;
+  const hash = sha256(apiKey);
+  return (process.env.CLIENT_API_KEYS || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .some((key) => timingSafeEqual(sha256(key), hash));
 }
 
 /**
- * Generate unique job ID
+ * Client a job counts against for fair scheduling: the API key the request was
+ * made with when it is a configured one (only a hash is stored), else the site's domain
  */
-export function generateJobId(): string {
-  return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+export function getClientKey(url?: string, apiKey?: string | null): string {
+  if (isValidApiKey(apiKey)) {
+    return `key:${sha256(apiKey).toString('hex').slice(0, 16)}`;
+  }
+  const domain = domainFromUrl(url);
+  return domain ? `domain:${domain}` : 'anonymous';
 }
 
 /**
- * Create a new job
+ * Create a new job, optionally as part of a batch
  */
-export async function createJob(input: Job['input']): Promise<string> {
-  const client = getSupabase();
+export async function createJob(input: Job['input'], options: CreateJobOptions = {}): Promise<string> {
   const jobId = generateJobId();
 
   const job: Job = {
@@ -196,267 +78,476 @@ export async function createJob(input: Job['input']): Promise<string> {
     createdAt: Date.now(),
     updatedAt: Date.now(),
     attempts: 0,
+    batchId: options.batchId,
+    scheduleId: options.scheduleId,
+    priority: options.priority ?? 0,
+    clientKey: options.clientKey ?? getClientKey(input.url),
     input,
   };
 
-  const row = jobToRow(job);
-
-  const { error } = await client.from('jobs').insert(row);
-
-  if (error) {
+  try {
+    await getJobStore().create(job);
+  } catch (error) {
     console.error('[Queue] Failed to create job:', error);
-    throw new Error(`Failed to create job: ${error.message}`);
+    throw error;
   }
 
-  console.log(`[Queue] Created job ${jobId}`);
+  console.log(`[Queue] Created job ${jobId} (priority ${job.priority}, client ${job.clientKey})`);
   return jobId;
 }
 
 /**
- * Get job by ID
- * Note: getSupabase() now forces cache: 'no-store' to bypass Next.js Data Cache
+ * Create a batch and one pending job per input, in input order
+ * The jobs run through the queue like any other; the batch only groups them
  */
-export async function getJob(jobId: string): Promise<Job | null> {
-  const client = getSupabase();
+export async function createBatch(
+  name: string,
+  inputs: Array<Job['input']>,
+  options: Omit<CreateJobOptions, 'batchId'> = {}
+): Promise<{ batchId: string; jobIds: string[] }> {
+  const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+  try {
+    await getJobStore().createBatch({ id: batchId, name, createdAt: Date.now(), jobCount: inputs.length });
+  } catch (error) {
+    console.error('[Queue] Failed to create batch:', error);
+    throw error;
+  }
+
+  const jobIds: string[] = [];
+  for (const input of inputs) {
+    jobIds.push(await createJob(input, { ...options, batchId }));
+  }
+
+  console.log(`[Queue] Created batch ${batchId} with ${jobIds.length} jobs`);
+  return { batchId, jobIds };
+}
+
+/**
+ * Get batch by ID
+ */
+export async function getBatch(batchId: string): Promise<Batch | null> {
+  try {
+    return await getJobStore().getBatch(batchId);
+  } catch (error) {
+    console.error('[Queue] Failed to get batch:', error);
+    throw error;
+  }
+}
+
+/**
+ * A batch's jobs in the order they were created
+ */
+export async function getBatchJobs(batchId: string): Promise<Job[]> {
+  return getJobStore().list({ batchId, orderBy: 'createdAt', ascending: true });
+}
 
-  const { data, error } = await client
-    .from('jobs')
-    .select('*')
-    .eq('id', jobId)
-    .maybeSingle();
+/**
+ * Requeue a batch's failed jobs with fresh attempts; their checkpoints are kept,
+ * so each one resumes from the stage it failed in. Returns the requeued job IDs.
+ */
+export async function retryFailedBatchJobs(batchId: string): Promise<string[]> {
+  const failed = await getJobStore().list({ batchId, statuses: [JobStatus.FAILED] });
+
+  for (const job of failed) {
+    await updateJob(job.id, {
+      status: JobStatus.PENDING,
+      progress: 0,
+      message: 'Queued to retry (batch retry of failed jobs)',
+      attempts: 0,
+      error: '',
+      partialContent: '',
+      leaseOwner: '',
+    });
+  }
+
+  console.log(`[Queue] Requeued ${failed.length} failed job(s) of batch ${batchId}`);
+  return failed.map((job) => job.id);
+}
 
-  if (error) {
+/**
+ * Get job by ID
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  try {
+    return await getJobStore().get(jobId);
+  } catch (error) {
     console.error('[Queue] Failed to get job:', error);
-    throw new Error(`Failed to get job: ${error.message}`);
+    throw error;
   }
+}
 
-  if (!data) {
-    return null;
+/**
+ * Get only a job's progress fields, for polling
+ */
+export async function getJobProgress(jobId: string): Promise<JobProgress | null> {
+  try {
+    return await getJobStore().getProgress(jobId);
+  } catch (error) {
+    console.error('[Queue] Failed to get job progress:', error);
+    throw error;
   }
+}
 
-  return rowToJob(data as JobRow);
+// What clients see of a job; sources, checkpoints, generation state and lease
+// details stay on the debug routes
+export type PublicJob = Pick<
+  Job,
+  'id' | 'status' | 'progress' | 'message' | 'createdAt' | 'updatedAt' | 'result' | 'partialContent' | 'warnings' | 'revisions' | 'error'
+>;
+
+/**
+ * Public projection of a job for the status and stream routes
+ */
+export function toPublicJob(job: Job): PublicJob {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    result: job.result,
+    partialContent: job.partialContent,
+    warnings: job.warnings,
+    revisions: job.revisions,
+    error: job.error,
+  };
 }
 
 /**
  * Update job status and progress
  * IMPORTANT: Does NOT read existing job to avoid cache issues - directly updates fields
+ * With a condition the update only applies while it holds (checked atomically by
+ * the store); false when nothing was updated.
  */
-export async function updateJob(
+export async function updateJob(jobId: string, updates: JobUpdates, condition?: UpdateCondition): Promise<boolean> {
+  let updated: boolean;
+  try {
+    updated = await getJobStore().update(jobId, { ...updates, updatedAt: Date.now() }, condition);
+  } catch (error) {
+    console.error('[Queue] Failed to update job:', error);
+    throw error;
+  }
+
+  if (updated) {
+    console.log(`[Queue] Updated job ${jobId}: ${updates.status || 'progress'} ${updates.progress || ''}%`);
+  } else {
+    console.log(`[Queue] Update of job ${jobId} skipped (cancelled, or its condition no longer holds)`);
+  }
+  return updated;
+}
+
+/**
+ * Throttled persistence of streamed model output
+ * push() keeps only the latest text; at most one write is made per interval and
+ * writes never overlap. stop() waits for the in-flight write and drops the rest.
+ */
+export function createPartialContentWriter(
   jobId: string,
-  updates: Partial<Omit<Job, 'id' | 'createdAt' | 'input'>>
-): Promise<void> {
-  const client = getSupabase();
-
-  // Build partial row update directly without reading existing job
-  // This avoids cache issues and race conditions
-  const rowUpdates: Partial<JobRow> = {
-    updated_at: Date.now(),
+  toUpdates: (text: string) => JobUpdates,
+  intervalMs: number = 1500
+): { push: (text: string) => void; stop: () => Promise<void> } {
+  let latest: string | null = null;
+  let lastWriteAt = 0;
+  let inFlight: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const schedule = () => {
+    if (timer || stopped) return;
+    timer = setTimeout(write, Math.max(0, intervalMs - (Date.now() - lastWriteAt)));
   };
 
-  // Map Job updates to database row format
-  if (updates.status !== undefined) rowUpdates.status = updates.status;
-  if (updates.progress !== undefined) rowUpdates.progress = updates.progress;
-  if (updates.message !== undefined) rowUpdates.message = updates.message;
-  if (updates.attempts !== undefined) rowUpdates.attempts = updates.attempts;
-  if (updates.lastAttemptAt !== undefined) rowUpdates.last_attempt_at = updates.lastAttemptAt;
-  if (updates.error !== undefined) rowUpdates.error = updates.error;
-
-  // Handle result object fields
-  if (updates.result !== undefined) {
-    rowUpdates.result_meta_title = updates.result.metaTitle;
-    rowUpdates.result_meta_description = updates.result.metaDescription;
-    rowUpdates.result_content_markdown = updates.result.contentMarkdown;
-    rowUpdates.result_faq_raw = updates.result.faqRaw;
-    rowUpdates.result_schema_json_string = updates.result.schemaJsonString;
-    rowUpdates.result_pages = updates.result.pages;
-  }
+  const write = () => {
+    timer = null;
+    if (stopped || latest === null || inFlight) return;
+
+    const text = latest;
+    latest = null;
+    lastWriteAt = Date.now();
+    inFlight = updateJob(jobId, { ...toUpdates(text), partialContent: text })
+      .then(() => undefined)
+      .catch((error) => console.error(`[Queue] Failed to save partial content for ${jobId}:`, error))
+      .finally(() => {
+        inFlight = null;
+        if (latest !== null) schedule();
+      });
+  };
 
-  const { error } = await client
-    .from('jobs')
-    .update(rowUpdates)
-    .eq('id', jobId);
+  return {
+    push(text) {
+      if (stopped) return;
+      latest = text;
+      schedule();
+    },
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await inFlight;
+    },
+  };
+}
 
-  if (error) {
-    console.error('[Queue] Failed to update job:', error);
-    throw new Error(`Failed to update job: ${error.message}`);
-  }
+/**
+ * How long a claim holds without a heartbeat (env JOB_LEASE_MS, default 120000)
+ */
+export function getLeaseMs(): number {
+  return parseInt(process.env.JOB_LEASE_MS || '120000', 10);
+}
 
-  console.log(`[Queue] Updated job ${jobId}: ${updates.status || 'progress'} ${updates.progress || ''}%`);
+/**
+ * Leased jobs allowed per site domain at once, so parallel workers don't crawl
+ * one site together: DOMAIN_CONCURRENCY (default 1, 0 for no limit), with
+ * per-domain overrides in DOMAIN_CONCURRENCY_LIMITS, e.g. {"example.com": 3}
+ */
+export function getDomainLimits(): Pick<ClaimOptions, 'domainLimit' | 'domainLimits'> {
+  let domainLimits: Record<string, number> = {};
+  if (process.env.DOMAIN_CONCURRENCY_LIMITS) {
+    try {
+      domainLimits = JSON.parse(process.env.DOMAIN_CONCURRENCY_LIMITS);
+    } catch (error) {
+      console.error('[Queue] DOMAIN_CONCURRENCY_LIMITS is not valid JSON, ignoring it:', error);
+    }
+  }
+  return {
+    domainLimit: parseInt(process.env.DOMAIN_CONCURRENCY || '1', 10),
+    domainLimits,
+  };
 }
 
 /**
- * Get next pending job
- * Note: getSupabase() now forces cache: 'no-store' to bypass Next.js Data Cache
+ * Atomically claim the next pending job (or the given one) for a worker run
+ * The next job is the highest priority one, rotating between clients within a
+ * priority (the client claimed from longest ago goes first), oldest first per
+ * client; domains at their concurrency limit wait. The store guarantees
+ * concurrent workers can never claim the same job (Supabase runs the
+ * claim_job() Postgres function). The claim counts as an attempt and starts a
+ * lease; null when nothing was claimable.
  */
-export async function getNextPendingJob(): Promise<string | null> {
-  const client = getSupabase();
-
-  const { data, error } = await client
-    .from('jobs')
-    .select('id')
-    .eq('status', 'pending')
-    .order('created_at', { ascending: true })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
-    console.error('[Queue] Failed to get next pending job:', error);
-    return null;
+export async function claimJob(workerId: string, jobId?: string): Promise<Job | null> {
+  let job: Job | null;
+  try {
+    job = await getJobStore().claim(workerId, Date.now(), getLeaseMs(), { jobId, ...getDomainLimits() });
+  } catch (error) {
+    console.error('[Queue] Failed to claim job:', error);
+    throw error;
   }
 
-  if (!data) {
-    return null;
+  if (job) {
+    console.log(
+      `[Queue] Worker ${workerId} claimed job ${job.id} (attempt ${job.attempts}, priority ${job.priority}, client ${job.clientKey || 'unknown'})`
+    );
   }
+  return job;
+}
+
+/**
+ * Renew a claimed job's lease every third of the lease while the worker runs
+ * The renewal only applies while this worker still owns the lease; once it
+ * doesn't (the lease expired and the job was requeued or reclaimed), lost()
+ * turns true and the worker must stop writing to the job.
+ */
+export function startLeaseHeartbeat(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = getLeaseMs()
+): { lost: () => boolean; stop: () => void } {
+  let lost = false;
+  let inFlight = false;
+
+  const renew = async () => {
+    if (inFlight || lost) return;
+    inFlight = true;
+    try {
+      if (!(await getJobStore().renewLease(jobId, workerId, Date.now() + leaseMs))) {
+        lost = true;
+        clearInterval(timer);
+        console.warn(`[Queue] Worker ${workerId} lost the lease on job ${jobId}`);
+      }
+    } catch (error) {
+      // Transient - the next beat tries again while the lease still has time left
+      console.error(`[Queue] Lease heartbeat failed for ${jobId}:`, error);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(renew, Math.max(1000, Math.floor(leaseMs / 3)));
+
+  return {
+    lost: () => lost,
+    stop: () => clearInterval(timer),
+  };
+}
 
-  return data.id;
+/**
+ * Whether the job has been cancelled (POST /api/jobs/[jobId]/cancel)
+ */
+export async function isJobCancelled(jobId: string): Promise<boolean> {
+  const job = await getJob(jobId);
+  return job?.status === JobStatus.CANCELLED;
+}
+
+/**
+ * Poll a running job for cancellation so in-flight work can be aborted
+ * onCancelled is called once, on the first poll that finds the job cancelled
+ */
+export function watchForCancellation(
+  jobId: string,
+  onCancelled: () => void,
+  intervalMs: number = 3000
+): { stop: () => void } {
+  let inFlight = false;
+
+  const check = async () => {
+    if (inFlight) return;
+    inFlight = true;
+    try {
+      if (await isJobCancelled(jobId)) {
+        clearInterval(timer);
+        console.log(`[Queue] Job ${jobId} was cancelled`);
+        onCancelled();
+      }
+    } catch (error) {
+      // Transient - the next poll tries again
+      console.error(`[Queue] Cancellation check failed for ${jobId}:`, error);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(check, intervalMs);
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
+
+/**
+ * Whether a job finished with a result (with or without warnings)
+ */
+export function isCompletedStatus(status: string): boolean {
+  return status === JobStatus.COMPLETED || status === JobStatus.COMPLETED_WITH_WARNINGS;
 }
 
 /**
  * Mark job as completed with result
+ * Any warnings mark it completed_with_warnings instead. With a condition (the
+ * worker's lease) nothing is written once the job is no longer ours; returns
+ * whether the job was updated.
  */
-export async function completeJob(jobId: string, result: Job['result']): Promise<void> {
+export async function completeJob(
+  jobId: string,
+  result: Job['result'],
+  message: string = 'Content generation completed successfully',
+  warnings: string[] = [],
+  condition?: UpdateCondition
+): Promise<boolean> {
   console.log(`[Queue] completeJob called for ${jobId}:`, {
     hasResult: !!result,
     hasMetaTitle: !!result?.metaTitle,
     hasMetaDescription: !!result?.metaDescription,
     hasContentMarkdown: !!result?.contentMarkdown,
     hasFaqRaw: !!result?.faqRaw,
+    faqCount: result?.faq?.length || 0,
     hasSchemaJsonString: !!result?.schemaJsonString,
     pagesCount: result?.pages?.length || 0,
   });
 
-  await updateJob(jobId, {
-    status: JobStatus.COMPLETED,
-    progress: 100,
-    message: 'Content generation completed successfully',
-    result,
-  });
+  const updated = await updateJob(
+    jobId,
+    {
+      status: warnings.length > 0 ? JobStatus.COMPLETED_WITH_WARNINGS : JobStatus.COMPLETED,
+      progress: 100,
+      message,
+      result,
+      warnings,
+      partialContent: '',
+      leaseOwner: '',
+    },
+    condition
+  );
 
-  console.log(`[Queue] Job ${jobId} marked as completed in database`);
+  console.log(updated ? `[Queue] Job ${jobId} marked as completed in database` : `[Queue] Job ${jobId} not completed (condition not met)`);
+  return updated;
 }
 
 /**
  * Mark job as failed with error
+ * Like completeJob, a condition keeps a worker that lost the job from writing;
+ * returns whether the job was updated.
  */
-export async function failJob(jobId: string, error: string): Promise<void> {
-  await updateJob(jobId, {
-    status: JobStatus.FAILED,
-    progress: 0,
-    message: 'Job failed',
-    error,
-  });
-}
-
-/**
- * Increment job attempt counter and update last attempt timestamp
- */
-export async function incrementJobAttempt(jobId: string): Promise<void> {
-  const job = await getJob(jobId);
-  if (!job) {
-    throw new Error(`Job ${jobId} not found`);
-  }
-
-  await updateJob(jobId, {
-    attempts: job.attempts + 1,
-    lastAttemptAt: Date.now(),
-  });
+export async function failJob(jobId: string, error: string, condition?: UpdateCondition): Promise<boolean> {
+  return updateJob(
+    jobId,
+    {
+      status: JobStatus.FAILED,
+      progress: 0,
+      message: 'Job failed',
+      error,
+      leaseOwner: '',
+    },
+    condition
+  );
 }
 
 /**
- * Reset stuck jobs (jobs that are processing but haven't been updated in a while)
- * This handles cases where worker crashed or was killed
+ * Requeue jobs whose worker stopped sending heartbeats (lease expired while
+ * processing); jobs that used up their attempts are failed instead
+ * The store re-checks the lease atomically (Supabase runs the
+ * release_expired_jobs() Postgres function), so a job renewed in the meantime is left alone.
  */
-export async function resetStuckJobs(stuckThresholdMs: number = 600000): Promise<number> {
-  const client = getSupabase();
-  const cutoffTime = Date.now() - stuckThresholdMs;
-
-  // Find jobs that are "in progress" but haven't been updated recently
-  const { data, error } = await client
-    .from('jobs')
-    .select('id, attempts')
-    .in('status', ['crawling', 'generating', 'parsing'])
-    .lt('updated_at', cutoffTime);
-
-  if (error) {
-    console.error('[Queue] Failed to find stuck jobs:', error);
+export async function resetStuckJobs(maxAttempts: number = 3): Promise<number> {
+  let released;
+  try {
+    released = await getJobStore().resetStuck(Date.now(), maxAttempts);
+  } catch (error) {
+    console.error('[Queue] Failed to release expired jobs:', error);
     return 0;
   }
 
-  if (!data || data.length === 0) {
-    return 0;
+  for (const job of released) {
+    console.log(`[Queue] Lease expired on job ${job.id} after ${job.attempts} attempt(s); now ${job.status}`);
   }
 
-  console.log(`[Queue] Found ${data.length} stuck jobs, resetting...`);
-
-  // Reset each stuck job
-  let resetCount = 0;
-  for (const row of data) {
-    const MAX_RETRIES = 3;
-
-    if (row.attempts >= MAX_RETRIES) {
-      // Max retries reached, mark as failed
-      await failJob(
-        row.id,
-        `Job exceeded maximum retry attempts (${MAX_RETRIES}). Last known status: processing.`
-      );
-    } else {
-      // Reset to pending for retry
-      await updateJob(row.id, {
-        status: JobStatus.PENDING,
-        progress: 0,
-        message: `Retry attempt ${row.attempts + 1}/${MAX_RETRIES} - Previous attempt timed out`,
-      });
-    }
-    resetCount++;
-  }
-
-  console.log(`[Queue] Reset ${resetCount} stuck jobs`);
-  return resetCount;
+  return released.length;
 }
 
 /**
- * Clean up old completed and failed jobs
+ * Clean up old completed, failed and cancelled jobs
+ * Jobs of a batch are kept (see JobStore.cleanup)
  */
 export async function cleanupOldJobs(maxAgeMs: number = 86400000): Promise<number> {
-  const client = getSupabase();
   const cutoffTime = Date.now() - maxAgeMs;
 
-  const { error, count } = await client
-    .from('jobs')
-    .delete()
-    .in('status', ['completed', 'failed'])
-    .lt('updated_at', cutoffTime);
-
-  if (error) {
+  let count: number;
+  try {
+    count = await getJobStore().cleanup(
+      [JobStatus.COMPLETED, JobStatus.COMPLETED_WITH_WARNINGS, JobStatus.FAILED, JobStatus.CANCELLED],
+      cutoffTime
+    );
+  } catch (error) {
     console.error('[Queue] Failed to cleanup old jobs:', error);
     return 0;
   }
 
-  if (count && count > 0) {
+  if (count > 0) {
     console.log(`[Queue] Cleaned up ${count} old jobs`);
   }
 
-  return count || 0;
+  return count;
 }
 
 /**
  * Check if there are any pending jobs in the queue
- * Note: getSupabase() now forces cache: 'no-store' to bypass Next.js Data Cache
  */
 export async function hasPendingJobs(): Promise<boolean> {
-  const client = getSupabase();
-
-  const { data, error} = await client
-    .from('jobs')
-    .select('id')
-    .eq('status', 'pending')
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
+  try {
+    const pending = await getJobStore().list({ statuses: [JobStatus.PENDING], limit: 1 });
+    return pending.length > 0;
+  } catch (error) {
     console.error('[Queue] Failed to check for pending jobs:', error);
     return false;
   }
-
-  return !!data;
 }
@@ -0,0 +1,199 @@
+/**
+ * Local passage retrieval - ranks scraped page passages against the topic and keywords
+ * Uses BM25 so the most relevant site content fits within the prompt token budget
+ */
+
+import type { Passage, RankedContext, ScrapedPage, SourcePage } from './typing';
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Passage size in words - small enough to rank precisely, large enough to keep context
+const PASSAGE_TARGET_WORDS = 120;
+
+// Rough characters-per-token ratio for English text
+const CHARS_PER_TOKEN = 4;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on',
+  'or', 'our', 'so', 'than', 'that', 'the', 'their', 'them', 'there', 'these', 'they',
+  'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+]);
+
+/**
+ * Estimate token count from text length
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Lowercase, split into words, drop stopwords and apply light plural stemming
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Split a scraped page into passages of roughly PASSAGE_TARGET_WORDS words
+ * Lines (headings, paragraphs, list items) are kept whole where possible
+ */
+export function splitIntoPassages(page: ScrapedPage, startIndex = 0): Passage[] {
+  const passages: Passage[] = [];
+  let buffer: string[] = [];
+  let bufferWords = 0;
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    passages.push({
+      id: startIndex + passages.length,
+      url: page.url,
+      title: page.title,
+      text: buffer.join('\n'),
+      position: passages.length,
+    });
+    buffer = [];
+    bufferWords = 0;
+  };
+
+  for (const line of page.text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const lineWords = trimmed.split(/\s+/).length;
+    if (bufferWords > 0 && bufferWords + lineWords > PASSAGE_TARGET_WORDS) {
+      flush();
+    }
+
+    buffer.push(trimmed);
+    bufferWords += lineWords;
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * Score passages against a query with BM25
+ * Returns a score per passage id
+ */
+export function scorePassages(passages: Passage[], query: string): Map<number, number> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const docs = passages.map((passage) => tokenize(`${passage.title} ${passage.text}`));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, docs.length);
+
+  // Document frequency per query term
+  const docFreq = new Map<string, number>();
+  for (const term of queryTerms) {
+    docFreq.set(term, docs.filter((doc) => doc.includes(term)).length);
+  }
+
+  const scores = new Map<number, number>();
+  passages.forEach((passage, index) => {
+    const doc = docs[index];
+    const termFreq = new Map<string, number>();
+    for (const token of doc) {
+      termFreq.set(token, (termFreq.get(token) || 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term) || 0;
+      if (tf === 0) continue;
+
+      const df = docFreq.get(term) || 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength)));
+    }
+
+    scores.set(passage.id, score);
+  });
+
+  return scores;
+}
+
+/**
+ * Rank scraped pages by relevance to the topic and keywords and pack the best
+ * passages into a context string under tokenBudget
+ * The homepage lead passage is always kept so the business identity is never lost,
+ * as is the opening of each client-supplied source (labelled [SOURCE: ...]);
+ * passages with no query overlap are only used when nothing matched at all.
+ */
+export function buildRankedContext(
+  pages: ScrapedPage[],
+  topic: string,
+  keywords: string[],
+  tokenBudget: number
+): RankedContext {
+  const passages: Passage[] = [];
+  for (const page of pages) {
+    passages.push(...splitIntoPassages(page, passages.length));
+  }
+
+  // Keywords are weighted twice as heavily as the topic by repeating them
+  const query = [topic, ...keywords, ...keywords].join(' ');
+  const scores = scorePassages(passages, query);
+
+  const ranked = [...passages].sort((a, b) => {
+    const diff = (scores.get(b.id) || 0) - (scores.get(a.id) || 0);
+    return diff !== 0 ? diff : a.id - b.id;
+  });
+
+  const selected = new Set<number>();
+  let usedTokens = 0;
+
+  const trySelect = (passage: Passage) => {
+    const cost = estimateTokens(passage.text) + estimateTokens(passage.title) + 8;
+    if (usedTokens + cost > tokenBudget) return;
+    selected.add(passage.id);
+    usedTokens += cost;
+  };
+
+  // Lead passages of the first page and of every client-supplied source are always kept
+  const leads = passages.filter(
+    (passage, index) =>
+      index === 0 ||
+      (passage.position === 0 && pages.some((page) => page.url === passage.url && page.kind === 'source'))
+  );
+  leads.forEach(trySelect);
+  for (const passage of ranked) {
+    if ((scores.get(passage.id) || 0) > 0 && !selected.has(passage.id)) trySelect(passage);
+  }
+
+  // Nothing matched the query (e.g. only synonyms used) - fall back to reading order
+  if (selected.size <= leads.length) {
+    for (const passage of passages) {
+      if (!selected.has(passage.id)) trySelect(passage);
+    }
+  }
+
+  // Re-group selected passages by page, preserving original reading order
+  const blocks: string[] = [];
+  const usedPages: SourcePage[] = [];
+
+  for (const page of pages) {
+    const pagePassages = passages.filter((p) => p.url === page.url && selected.has(p.id));
+    if (pagePassages.length === 0) continue;
+
+    const header = page.kind === 'source' ? `[SOURCE: ${page.title}]` : `[PAGE: ${page.title} | ${page.url}]`;
+    blocks.push(`${header}\n${pagePassages.map((p) => p.text).join('\n')}`);
+    usedPages.push({ title: page.title, url: page.url, fromCache: page.fromCache, kind: page.kind });
+  }
+
+  console.log(
+    `[Retrieval] Selected ${selected.size}/${passages.length} passages (~${usedTokens} tokens) from ${usedPages.length} page(s)`
+  );
+
+  return {
+    context: blocks.join('\n\n'),
+    pages: usedPages,
+    passages: passages.filter((p) => selected.has(p.id)),
+  };
+}
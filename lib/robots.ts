@@ -0,0 +1,143 @@
+/**
+ * robots.txt parsing and URL matching
+ * Implements the group selection and longest-match rules from RFC 9309,
+ * plus the widely supported Crawl-delay and Sitemap extensions
+ */
+
+import type { RobotsRules } from './typing';
+
+interface RobotsGroup {
+  agents: string[];
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * Rules used when robots.txt is missing (a 4xx response) - everything is allowed
+ */
+export const ALLOW_ALL: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+
+/**
+ * Rules used when robots.txt can't be fetched (server error or unreachable) and
+ * no earlier copy is cached - nothing may be crawled (RFC 9309 "unreachable")
+ */
+export const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'], sitemaps: [] };
+
+/**
+ * Extract the product token from a user agent string
+ * e.g. "SEOContentCreatorBot/1.0 (+https://...)" -> "seocontentcreatorbot"
+ */
+export function userAgentToken(userAgent: string): string {
+  return userAgent.split(/[\/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Parse robots.txt into the rules that apply to the given user agent
+ * Groups naming our product token (compared case-insensitively) win; "*" is used
+ * when no group names the agent
+ */
+export function parseRobotsTxt(robotsTxt: string, userAgent: string): RobotsRules {
+  const token = userAgentToken(userAgent);
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) {
+      current.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      current.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!Number.isNaN(seconds) && seconds >= 0) {
+        current.crawlDelayMs = Math.round(seconds * 1000);
+      }
+    }
+  }
+
+  const specific = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && userAgentToken(agent) === token)
+  );
+  const applicable = specific.length > 0 ? specific : groups.filter((group) => group.agents.includes('*'));
+
+  const rules: RobotsRules = { allow: [], disallow: [], sitemaps };
+  for (const group of applicable) {
+    rules.allow.push(...group.allow);
+    rules.disallow.push(...group.disallow);
+    if (group.crawlDelayMs !== undefined) {
+      rules.crawlDelayMs = Math.max(rules.crawlDelayMs || 0, group.crawlDelayMs);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Convert a robots.txt path pattern into a RegExp (supports * and $)
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check whether a URL may be fetched under the given rules
+ * The longest matching pattern wins; Allow wins a tie
+ */
+export function isUrlAllowed(rules: RobotsRules, url: string): boolean {
+  let path: string;
+  try {
+    const urlObj = new URL(url);
+    path = (urlObj.pathname || '/') + urlObj.search;
+  } catch {
+    return false;
+  }
+
+  let bestAllow = -1;
+  let bestDisallow = -1;
+
+  for (const pattern of rules.allow) {
+    if (patternToRegExp(pattern).test(path)) bestAllow = Math.max(bestAllow, pattern.length);
+  }
+  for (const pattern of rules.disallow) {
+    if (patternToRegExp(pattern).test(path)) bestDisallow = Math.max(bestDisallow, pattern.length);
+  }
+
+  return bestDisallow === -1 || bestAllow >= bestDisallow;
+}
@@ -0,0 +1,169 @@
+/**
+ * Scheduled and recurring generation
+ * A schedule creates ordinary pending jobs: a one-off schedule queues a job for
+ * every topic on its list at runAt; a recurring one queues the next topic each
+ * time its cron rule matches. The per-minute /api/worker cron materializes due
+ * schedules, so runs are at most a minute late. Runs missed while nothing called
+ * the worker are not made up - the schedule runs once and moves to its next match.
+ */
+
+import { getJobStore, type Schedule, type ScheduleTopic } from './job-store';
+import { createJob } from './queue';
+import { nextCronRun, parseCron } from './cron';
+
+export type { Schedule, ScheduleTopic };
+
+export interface NewSchedule {
+  name: string;
+  cron?: string;
+  runAt?: number;
+  input: Schedule['input'];
+  topics: ScheduleTopic[];
+  loopTopics?: boolean;
+  priority?: number;
+  clientKey?: string;
+}
+
+/**
+ * Next run of a schedule after the given time; null when it has nothing left to run
+ */
+export function nextRunAfter(schedule: Pick<Schedule, 'cron' | 'runAt' | 'topics' | 'nextTopic'>, after: number): number | null {
+  if (schedule.nextTopic >= schedule.topics.length) return null;
+  if (schedule.cron) return nextCronRun(parseCron(schedule.cron), after);
+  return schedule.runAt !== undefined ? Math.max(schedule.runAt, after) : null;
+}
+
+/**
+ * Create a schedule; throws on an invalid cron expression or one that never matches
+ */
+export async function createSchedule(params: NewSchedule): Promise<Schedule> {
+  const now = Date.now();
+  const schedule: Schedule = {
+    id: `schedule_${now}_${Math.random().toString(36).substring(2, 9)}`,
+    name: params.name,
+    cron: params.cron,
+    runAt: params.cron ? undefined : params.runAt,
+    input: params.input,
+    topics: params.topics,
+    nextTopic: 0,
+    loopTopics: !!params.loopTopics,
+    priority: params.priority ?? 0,
+    clientKey: params.clientKey,
+    enabled: true,
+    runCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const nextRunAt = params.cron ? nextRunAfter(schedule, now) : params.runAt;
+  if (nextRunAt === null || nextRunAt === undefined) {
+    throw new Error(`Cron expression "${params.cron}" never matches`);
+  }
+  schedule.nextRunAt = nextRunAt;
+
+  await getJobStore().createSchedule(schedule);
+  console.log(
+    `[Schedules] Created schedule ${schedule.id} "${schedule.name}" (${schedule.cron || 'one-off'}), first run ${new Date(nextRunAt).toISOString()}`
+  );
+  return schedule;
+}
+
+/**
+ * Pause or resume a schedule; resuming picks the next run from now
+ */
+export async function setScheduleEnabled(schedule: Schedule, enabled: boolean): Promise<Schedule | null> {
+  const now = Date.now();
+  const nextRunAt = enabled ? nextRunAfter(schedule, now) : null;
+  await getJobStore().updateSchedule(schedule.id, { enabled, nextRunAt, updatedAt: now });
+  console.log(`[Schedules] Schedule ${schedule.id} ${enabled ? 'resumed' : 'paused'}`);
+  return getJobStore().getSchedule(schedule.id);
+}
+
+/**
+ * Queue the jobs of one due run
+ * The run is taken by moving the schedule on first, guarded by its current
+ * nextRunAt, so when several workers see the same due schedule only one of them
+ * creates the jobs. If creating a job fails, the topics not yet queued are given
+ * back and the schedule stays due, so the next worker pass retries them; the
+ * error is recorded in lastError. Returns the created job IDs; empty when another
+ * worker took the run.
+ */
+async function runSchedule(schedule: Schedule, now: number): Promise<string[]> {
+  const store = getJobStore();
+
+  // A recurring run takes the next topic; a one-off run takes every remaining one
+  const topics = schedule.cron
+    ? schedule.topics.slice(schedule.nextTopic, schedule.nextTopic + 1)
+    : schedule.topics.slice(schedule.nextTopic);
+  let nextTopic = schedule.nextTopic + topics.length;
+  if (schedule.cron && schedule.loopTopics && nextTopic >= schedule.topics.length) {
+    nextTopic = 0;
+  }
+
+  const nextRunAt = nextRunAfter({ ...schedule, nextTopic }, now);
+  const taken = await store.updateSchedule(
+    schedule.id,
+    {
+      nextTopic,
+      nextRunAt,
+      lastRunAt: now,
+      runCount: schedule.runCount + 1,
+      updatedAt: now,
+    },
+    schedule.nextRunAt
+  );
+  if (!taken) return [];
+
+  const jobIds: string[] = [];
+  try {
+    for (const { topic, keywords } of topics) {
+      jobIds.push(
+        await createJob(
+          { ...schedule.input, topic, keywords: keywords?.length ? keywords : schedule.input.keywords },
+          { priority: schedule.priority, clientKey: schedule.clientKey, scheduleId: schedule.id }
+        )
+      );
+    }
+  } catch (error) {
+    // Guarded by the nextRunAt set above, so a pause or edit made meanwhile wins
+    await store.updateSchedule(
+      schedule.id,
+      {
+        nextTopic: schedule.nextTopic + jobIds.length,
+        nextRunAt: schedule.nextRunAt,
+        runCount: jobIds.length > 0 ? schedule.runCount + 1 : schedule.runCount,
+        ...(jobIds.length > 0 ? { lastJobId: jobIds[jobIds.length - 1] } : {}),
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: Date.now(),
+      },
+      nextRunAt ?? undefined
+    );
+    throw error;
+  }
+
+  await store.updateSchedule(schedule.id, { lastJobId: jobIds[jobIds.length - 1], lastError: '' });
+  return jobIds;
+}
+
+/**
+ * Turn every due schedule into pending jobs; returns the created job IDs
+ * A schedule that fails is logged and skipped so the others still run
+ */
+export async function runDueSchedules(now: number = Date.now(), limit: number = 50): Promise<string[]> {
+  const due = await getJobStore().listSchedules({ dueBefore: now, limit });
+  const jobIds: string[] = [];
+
+  for (const schedule of due) {
+    try {
+      const created = await runSchedule(schedule, now);
+      if (created.length > 0) {
+        console.log(`[Schedules] Schedule ${schedule.id} "${schedule.name}" queued ${created.length} job(s): ${created.join(', ')}`);
+      }
+      jobIds.push(...created);
+    } catch (error) {
+      console.error(`[Schedules] Failed to run schedule ${schedule.id}:`, error);
+    }
+  }
+
+  return jobIds;
+}
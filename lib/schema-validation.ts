@@ -0,0 +1,361 @@
+/**
+ * Local schema.org validation of the generated JSON-LD
+ * Checks the types we produce against the properties Google's rich results
+ * require (errors) or recommend (warnings); other types are listed but not checked
+ */
+
+import type { SchemaIssue, SchemaReport } from './typing';
+
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle'];
+const LOCAL_BUSINESS_TYPES = [
+  'LocalBusiness',
+  'Store',
+  'Restaurant',
+  'Dentist',
+  'Attorney',
+  'Plumber',
+  'Electrician',
+  'ProfessionalService',
+  'HomeAndConstructionBusiness',
+  'MedicalBusiness',
+  'AutomotiveBusiness',
+  'FoodEstablishment',
+  'LegalService',
+  'RealEstateAgent',
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const ISO_DURATION = /^P(?!$)(?:\d+Y)?(?:\d+M)?(?:\d+W)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?$/;
+const OPENING_HOURS = /^(?:Mo|Tu|We|Th|Fr|Sa|Su)(?:[-,](?:Mo|Tu|We|Th|Fr|Sa|Su))*(?: \d{2}:\d{2}-\d{2}:\d{2})?$/;
+const PLACEHOLDER = /^\[[^\]]*\]$|^\.\.\.$/;
+
+/**
+ * Collects issues for one node; paths are relative to the JSON-LD root
+ */
+interface Reporter {
+  error(property: string, message: string): void;
+  warning(property: string, message: string): void;
+}
+
+type NodeCheck = (node: any, report: Reporter) => void;
+
+function typesOf(node: any): string[] {
+  const type = node?.['@type'];
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string');
+  return typeof type === 'string' ? [type] : [];
+}
+
+function asList(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hasText(value: any): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isIsoDate(value: any): boolean {
+  if (typeof value !== 'string' || !ISO_DATE.test(value)) return false;
+  return !Number.isNaN(Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value));
+}
+
+function isUrl(value: any): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * URL of an image property: a URL string or an ImageObject with url/contentUrl
+ */
+function imageUrl(value: any): any {
+  return typeof value === 'object' && value !== null ? value.url ?? value.contentUrl : value;
+}
+
+function checkDate(node: any, property: string, report: Reporter, recommended: boolean): void {
+  if (node[property] === undefined) {
+    if (recommended) report.warning(property, 'Recommended property is missing');
+    return;
+  }
+  if (!isIsoDate(node[property])) {
+    report.error(property, `"${node[property]}" is not an ISO 8601 date (YYYY-MM-DD or YYYY-MM-DDThh:mm:ssZ)`);
+  }
+}
+
+function checkUrl(node: any, property: string, report: Reporter, recommended: boolean): void {
+  const values = asList(node[property]);
+  if (values.length === 0) {
+    if (recommended) report.warning(property, 'Recommended property is missing');
+    return;
+  }
+  values.forEach((value, i) => {
+    const url = imageUrl(value);
+    if (!isUrl(url)) {
+      report.error(values.length > 1 ? `${property}[${i}]` : property, `"${url}" is not an absolute http(s) URL`);
+    }
+  });
+}
+
+function checkRequiredText(node: any, property: string, report: Reporter): boolean {
+  if (!hasText(node[property])) {
+    report.error(property, 'Required property is missing or empty');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Author/publisher: a Person or Organization with a name
+ */
+function checkParty(node: any, property: string, report: Reporter): void {
+  const parties = asList(node[property]);
+  if (parties.length === 0) {
+    report.warning(property, 'Recommended property is missing');
+    return;
+  }
+  parties.forEach((party, i) => {
+    const path = parties.length > 1 ? `${property}[${i}]` : property;
+    if (typeof party !== 'object' || party === null) {
+      report.warning(path, 'Should be a Person or Organization object, not a plain value');
+      return;
+    }
+    const types = typesOf(party);
+    if (!types.some((type) => type === 'Person' || type === 'Organization' || LOCAL_BUSINESS_TYPES.includes(type))) {
+      report.warning(`${path}.@type`, 'Should be Person or Organization');
+    }
+    if (!hasText(party.name)) {
+      report.error(`${path}.name`, 'Required property is missing or empty');
+    }
+  });
+}
+
+const checkArticle: NodeCheck = (node, report) => {
+  if (checkRequiredText(node, 'headline', report) && node.headline.length > 110) {
+    report.warning('headline', `Headline is ${node.headline.length} characters; Google truncates after 110`);
+  }
+  checkParty(node, 'author', report);
+  checkParty(node, 'publisher', report);
+  checkDate(node, 'datePublished', report, true);
+  checkDate(node, 'dateModified', report, false);
+  if (isIsoDate(node.datePublished) && isIsoDate(node.dateModified) && Date.parse(node.dateModified) < Date.parse(node.datePublished)) {
+    report.warning('dateModified', 'Is earlier than datePublished');
+  }
+  checkUrl(node, 'image', report, true);
+};
+
+const checkFaqPage: NodeCheck = (node, report) => {
+  const questions = asList(node.mainEntity);
+  if (questions.length === 0) {
+    report.error('mainEntity', 'Required property is missing or empty (at least one Question)');
+    return;
+  }
+  questions.forEach((question, i) => {
+    const path = `mainEntity[${i}]`;
+    if (!typesOf(question).includes('Question')) {
+      report.error(`${path}.@type`, 'Must be Question');
+    }
+    if (!hasText(question?.name)) {
+      report.error(`${path}.name`, 'Required property is missing or empty');
+    }
+    const answer = question?.acceptedAnswer;
+    if (!answer || typeof answer !== 'object') {
+      report.error(`${path}.acceptedAnswer`, 'Required property is missing');
+      return;
+    }
+    if (!typesOf(answer).includes('Answer')) {
+      report.warning(`${path}.acceptedAnswer.@type`, 'Should be Answer');
+    }
+    if (!hasText(answer.text)) {
+      report.error(`${path}.acceptedAnswer.text`, 'Required property is missing or empty');
+    }
+  });
+};
+
+const checkHowTo: NodeCheck = (node, report) => {
+  checkRequiredText(node, 'name', report);
+  const steps = asList(node.step);
+  if (steps.length === 0) {
+    report.error('step', 'Required property is missing or empty');
+  }
+  steps.forEach((step, i) => {
+    const path = `step[${i}]`;
+    const types = typesOf(step);
+    if (types.includes('HowToSection')) {
+      if (asList(step.itemListElement).length === 0) {
+        report.error(`${path}.itemListElement`, 'A HowToSection needs at least one step');
+      }
+    } else if (typeof step === 'string') {
+      report.warning(path, 'Should be a HowToStep object rather than plain text');
+    } else {
+      if (!types.includes('HowToStep')) report.warning(`${path}.@type`, 'Should be HowToStep or HowToSection');
+      if (!hasText(step?.text) && asList(step?.itemListElement).length === 0) {
+        report.error(`${path}.text`, 'Required property is missing or empty');
+      }
+    }
+  });
+  for (const property of ['totalTime', 'prepTime', 'performTime']) {
+    if (node[property] !== undefined && (typeof node[property] !== 'string' || !ISO_DURATION.test(node[property]))) {
+      report.error(property, `"${node[property]}" is not an ISO 8601 duration (e.g. PT30M)`);
+    }
+  }
+  checkUrl(node, 'image', report, true);
+};
+
+const checkOrganization: NodeCheck = (node, report) => {
+  checkRequiredText(node, 'name', report);
+  checkUrl(node, 'url', report, true);
+  checkUrl(node, 'logo', report, true);
+  checkUrl(node, 'sameAs', report, false);
+};
+
+const checkLocalBusiness: NodeCheck = (node, report) => {
+  checkRequiredText(node, 'name', report);
+  checkUrl(node, 'url', report, true);
+  checkUrl(node, 'image', report, true);
+
+  const address = node.address;
+  if (!address) {
+    report.error('address', 'Required property is missing');
+  } else if (typeof address === 'object') {
+    if (!typesOf(address).includes('PostalAddress')) report.warning('address.@type', 'Should be PostalAddress');
+    if (!hasText(address.streetAddress)) report.warning('address.streetAddress', 'Recommended property is missing');
+    if (!hasText(address.addressLocality)) report.warning('address.addressLocality', 'Recommended property is missing');
+  }
+
+  if (!hasText(node.telephone)) report.warning('telephone', 'Recommended property is missing');
+  asList(node.openingHours).forEach((hours, i) => {
+    if (typeof hours !== 'string' || !OPENING_HOURS.test(hours.trim())) {
+      report.warning(`openingHours[${i}]`, `"${hours}" is not in the "Mo-Fr 09:00-17:00" format`);
+    }
+  });
+};
+
+const checkProduct: NodeCheck = (node, report) => {
+  checkRequiredText(node, 'name', report);
+  if (node.offers === undefined && node.review === undefined && node.aggregateRating === undefined) {
+    report.error('offers', 'A Product needs offers, review or aggregateRating');
+  }
+  asList(node.offers).forEach((offer, i) => {
+    const path = asList(node.offers).length > 1 ? `offers[${i}]` : 'offers';
+    if (offer?.price === undefined && offer?.lowPrice === undefined) {
+      report.error(`${path}.price`, 'Required property is missing');
+    } else if (offer.price !== undefined && Number.isNaN(Number(offer.price))) {
+      report.error(`${path}.price`, `"${offer.price}" is not a number (no currency symbols)`);
+    }
+    if (!/^[A-Z]{3}$/.test(offer?.priceCurrency || '')) {
+      report.error(`${path}.priceCurrency`, 'Required ISO 4217 currency code (e.g. USD) is missing or invalid');
+    }
+    if (offer?.availability !== undefined && !/^https?:\/\/schema\.org\//.test(String(offer.availability))) {
+      report.warning(`${path}.availability`, 'Should be a schema.org URL such as https://schema.org/InStock');
+    }
+  });
+};
+
+const checkBreadcrumbList: NodeCheck = (node, report) => {
+  const items = asList(node.itemListElement);
+  if (items.length === 0) {
+    report.error('itemListElement', 'Required property is missing or empty');
+    return;
+  }
+  items.forEach((item, i) => {
+    const path = `itemListElement[${i}]`;
+    if (!typesOf(item).includes('ListItem')) report.error(`${path}.@type`, 'Must be ListItem');
+    if (!Number.isInteger(item?.position) || item.position < 1) {
+      report.error(`${path}.position`, 'Required positive integer is missing or invalid');
+    }
+    const target = item?.item;
+    const name = item?.name ?? target?.name;
+    if (!hasText(name)) report.error(`${path}.name`, 'Required property is missing or empty');
+    // The last crumb (the current page) may omit its URL
+    const url = typeof target === 'object' && target !== null ? target['@id'] ?? target.url : target;
+    if (url === undefined ? i < items.length - 1 : !isUrl(url)) {
+      report.error(`${path}.item`, url === undefined ? 'Required URL is missing' : `"${url}" is not an absolute http(s) URL`);
+    }
+  });
+};
+
+const CHECKS: Record<string, NodeCheck> = {
+  ...Object.fromEntries(ARTICLE_TYPES.map((type) => [type, checkArticle])),
+  ...Object.fromEntries(LOCAL_BUSINESS_TYPES.map((type) => [type, checkLocalBusiness])),
+  FAQPage: checkFaqPage,
+  HowTo: checkHowTo,
+  Organization: checkOrganization,
+  Product: checkProduct,
+  BreadcrumbList: checkBreadcrumbList,
+};
+
+/**
+ * Template placeholders the model left in ("[Current date]", "...")
+ */
+function findPlaceholders(value: any, path: string, found: string[]): void {
+  if (typeof value === 'string') {
+    if (PLACEHOLDER.test(value.trim())) found.push(path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => findPlaceholders(item, `${path}[${i}]`, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      findPlaceholders(item, path ? `${path}.${key}` : key, found);
+    }
+  }
+}
+
+/**
+ * Validate a JSON-LD document (single node, array or @graph)
+ */
+export function validateSchema(schemaJson: any): SchemaReport {
+  const issues: SchemaIssue[] = [];
+  const types: string[] = [];
+
+  const root = schemaJson && typeof schemaJson === 'object' ? schemaJson : {};
+  const context = root['@context'];
+  if (typeof context !== 'string' || !/^https?:\/\/schema\.org\/?$/.test(context)) {
+    issues.push({ severity: 'error', type: '', path: '@context', message: 'Must be "https://schema.org"' });
+  }
+
+  const graph: any[] = Array.isArray(root) ? root : Array.isArray(root['@graph']) ? root['@graph'] : [root];
+  const prefix = Array.isArray(root) ? '' : Array.isArray(root['@graph']) ? '@graph' : '';
+
+  graph.forEach((node, index) => {
+    const base = prefix || Array.isArray(root) ? `${prefix}[${index}]` : ''; // '' for a single root node
+    const nodeTypes = typesOf(node);
+    const label = nodeTypes.join(', ') || '(no type)';
+    const report: Reporter = {
+      error: (property, message) =>
+        issues.push({ severity: 'error', type: label, path: base ? `${base}.${property}` : property, message }),
+      warning: (property, message) =>
+        issues.push({ severity: 'warning', type: label, path: base ? `${base}.${property}` : property, message }),
+    };
+
+    if (nodeTypes.length === 0) {
+      report.error('@type', 'Every node needs a @type');
+      return;
+    }
+    types.push(...nodeTypes);
+
+    const checked = nodeTypes.filter((type) => CHECKS[type]);
+    if (checked.length === 0) {
+      report.warning('@type', `${label} is not checked by the local validator`);
+    }
+    // A node typed ["Article", "BlogPosting"] only needs one pass
+    Array.from(new Set(checked.map((type) => CHECKS[type]))).forEach((check) => check(node, report));
+
+    const placeholders: string[] = [];
+    findPlaceholders(node, '', placeholders);
+    placeholders
+      .filter((path) => !issues.some((issue) => issue.path === (base ? `${base}.${path}` : path))) // Already reported
+      .forEach((path) => report.error(path, 'Contains a template placeholder instead of a real value'));
+  });
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    types,
+    issues,
+  };
+}
@@ -1,28 +1,192 @@
 /**
  * Web scraping functionality using axios and cheerio
+ * Crawls politely: identifiable user agent, robots.txt rules and per-host request spacing
  */
 
-import axios from 'axios';
+import axios, { type AxiosResponse, type ResponseType } from 'axios';
 import * as cheerio from 'cheerio';
 import pLimit from 'p-limit';
-import type { CrawlResult, ScrapedPage, LinkScore } from './typing';
+import { ALLOW_ALL, DISALLOW_ALL, isUrlAllowed, parseRobotsTxt, userAgentToken } from './robots';
+import { getCrawlCache, isFresh, type CrawlCacheEntry, type CrawlCacheStore } from './crawl-cache';
+import { extractSiteFacts, mergeSiteFacts } from './facts';
+import type { CrawlResult, ScrapedPage, LinkScore, RobotsRules } from './typing';
+
+const DEFAULT_USER_AGENT =
+  'SEOContentCreatorBot/1.0 (+https://github.com/JLcilliers/SEO_Content_Creator)';
+
+// Minimum gap between two requests to the same host when robots.txt sets no Crawl-delay
+const DEFAULT_MIN_DELAY_MS = 1000;
+
+// robots.txt rules per origin, cached for the lifetime of the worker process
+const robotsCache = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+// After a failed fetch, the fallback rules are kept this long before trying again
+const ROBOTS_RETRY_MS = 5 * 60 * 1000;
+
+// Next allowed request time per host
+const hostNextSlot = new Map<string, number>();
+
+// Redirect hops followed per request; each hop is checked against robots.txt
+const MAX_REDIRECTS = 5;
+
+interface FetchedPage {
+  notModified: boolean; // 304 response to a conditional request
+  html: string;
+  etag?: string;
+  lastModified?: string;
+}
 
-const USER_AGENT =
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+/**
+ * Get the crawler user agent (configurable via SCRAPE_USER_AGENT)
+ */
+export function getUserAgent(): string {
+  return process.env.SCRAPE_USER_AGENT || DEFAULT_USER_AGENT;
+}
 
 /**
- * Fetch HTML from a URL with timeout and user agent
+ * Minimum gap between requests to one host (SCRAPE_MIN_DELAY_MS)
  */
-export async function fetchHtml(url: string, timeoutMs = 12000): Promise<string> {
-  const response = await axios.get(url, {
-    timeout: timeoutMs,
-    headers: {
-      'User-Agent': USER_AGENT,
-    },
-    maxRedirects: 5,
+function getMinDelayMs(): number {
+  const delay = parseInt(process.env.SCRAPE_MIN_DELAY_MS || String(DEFAULT_MIN_DELAY_MS), 10);
+  return Number.isNaN(delay) ? DEFAULT_MIN_DELAY_MS : Math.max(0, delay);
+}
+
+/**
+ * Reserve the next request slot for a host and wait until it arrives
+ * Slots are reserved synchronously, so parallel requests to one host are spaced out
+ */
+async function waitForHostSlot(host: string, delayMs: number): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, hostNextSlot.get(host) || 0);
+  hostNextSlot.set(host, slot + delayMs);
+
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Get the robots.txt rules that apply to our user agent for a URL's origin
+ * A missing robots.txt (4xx) allows everything. When it can't be fetched (5xx or
+ * network error) the last copy fetched for the origin is used, and without one
+ * nothing is allowed; either way the fetch is retried after ROBOTS_RETRY_MS.
+ */
+export async function getRobotsRules(url: string, timeoutMs = 12000): Promise<RobotsRules> {
+  const origin = new URL(url).origin;
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.rules;
+  }
+
+  let rules: RobotsRules;
+  let ttlMs = ROBOTS_CACHE_TTL_MS;
+  try {
+    const robotsTxt = await fetchRobotsTxt(`${origin}/robots.txt`, timeoutMs);
+    rules = robotsTxt !== null ? parseRobotsTxt(robotsTxt, getUserAgent()) : ALLOW_ALL;
+  } catch (error) {
+    rules = cached?.rules || DISALLOW_ALL;
+    ttlMs = ROBOTS_RETRY_MS;
+    console.warn(
+      `[Scrape] robots.txt for ${origin} unavailable (${error instanceof Error ? error.message : 'Unknown error'}); ${cached ? 'using the last fetched copy' : 'treating the site as disallowed'}`
+    );
+  }
+
+  robotsCache.set(origin, { rules, expiresAt: Date.now() + ttlMs });
+  return rules;
+}
+
+/**
+ * Build the error raised when robots.txt forbids fetching a URL
+ */
+function disallowedError(url: string, rules: RobotsRules): Error {
+  if (rules === DISALLOW_ALL) {
+    return new Error(`Crawling ${url} is not allowed: its robots.txt could not be fetched (server error or unreachable)`);
+  }
+  return new Error(
+    `Crawling ${url} is disallowed by robots.txt for user agent "${userAgentToken(getUserAgent())}"`
+  );
+}
+
+function isRedirect(status: number): boolean {
+  return status >= 300 && status < 400 && status !== 304;
+}
+
+/**
+ * GET a URL politely: refuses URLs disallowed by robots.txt, waits for the host's
+ * crawl delay and follows redirects by hand, so every hop goes through the same
+ * checks. Validators are only sent to the first URL.
+ */
+async function politeGet(
+  url: string,
+  timeoutMs: number,
+  options: {
+    validators?: { etag?: string; lastModified?: string };
+    responseType?: ResponseType;
+    validateStatus: (status: number) => boolean;
+  }
+): Promise<AxiosResponse> {
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const rules = await getRobotsRules(current, timeoutMs);
+    if (!isUrlAllowed(rules, current)) {
+      throw disallowedError(current, rules);
+    }
+    await waitForHostSlot(new URL(current).host, Math.max(getMinDelayMs(), rules.crawlDelayMs || 0));
+
+    const headers: Record<string, string> = {
+      'User-Agent': getUserAgent(),
+    };
+    if (hop === 0 && options.validators?.etag) headers['If-None-Match'] = options.validators.etag;
+    if (hop === 0 && options.validators?.lastModified) headers['If-Modified-Since'] = options.validators.lastModified;
+
+    const response = await axios.get(current, {
+      timeout: timeoutMs,
+      headers,
+      maxRedirects: 0,
+      responseType: options.responseType,
+      validateStatus: (status) => options.validateStatus(status) || isRedirect(status),
+    });
+
+    const location = response.headers['location'];
+    if (!isRedirect(response.status) || !location) {
+      return response;
+    }
+    current = new URL(location, current).href;
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`);
+}
+
+/**
+ * Fetch a page with timeout and user agent, optionally as a conditional request
+ * Refuses URLs disallowed by robots.txt and waits for the host's crawl delay
+ */
+async function fetchPage(
+  url: string,
+  timeoutMs: number,
+  validators: { etag?: string; lastModified?: string } = {}
+): Promise<FetchedPage> {
+  const response = await politeGet(url, timeoutMs, {
+    validators,
+    validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
   });
 
-  return response.data;
+  return {
+    notModified: response.status === 304,
+    html: response.status === 304 ? '' : response.data,
+    etag: response.headers['etag'] || undefined,
+    lastModified: response.headers['last-modified'] || undefined,
+  };
+}
+
+/**
+ * Fetch HTML from a URL with timeout and user agent
+ * Refuses URLs disallowed by robots.txt and waits for the host's crawl delay
+ */
+export async function fetchHtml(url: string, timeoutMs = 12000): Promise<string> {
+  const { html } = await fetchPage(url, timeoutMs);
+  return html;
 }
 
 /**
@@ -30,7 +194,7 @@ export async function fetchHtml(url: string, timeoutMs = 12000): Promise<string>
  * Prioritizes <main> element, removes nav/header/footer/aside
  * Keeps only semantic content: h1-h3, p, li, blockquote
  */
-export function extractMainText(html: string): { text: string; title: string } {
+export function extractMainText(html: string, maxWords = 1200): { text: string; title: string } {
   const $ = cheerio.load(html);
 
   // Extract page title
@@ -65,20 +229,100 @@ export function extractMainText(html: string): { text: string; title: string } {
     lines.push(text);
   }
 
-  // Join lines and limit to roughly 1200 words
+  // Join lines and limit to roughly maxWords words, keeping line breaks intact
   let fullText = lines.join('\n');
   const words = fullText.split(/\s+/);
-  if (words.length > 1200) {
-    fullText = words.slice(0, 1200).join(' ') + '...';
+  if (words.length > maxWords) {
+    const kept: string[] = [];
+    let count = 0;
+    for (const line of lines) {
+      const lineWords = line.split(/\s+/);
+      if (count + lineWords.length > maxWords) {
+        kept.push(lineWords.slice(0, maxWords - count).join(' ') + '...');
+        break;
+      }
+      kept.push(line);
+      count += lineWords.length;
+    }
+    fullText = kept.join('\n');
   }
 
   return { text: fullText, title };
 }
 
+
+// Path/anchor terms that indicate pages worth crawling for business context
+const IMPORTANT_TERMS = [
+  'about',
+  'company',
+  'team',
+  'services',
+  'service',
+  'product',
+  'solutions',
+  'pricing',
+  'contact',
+  'blog',
+  'why',
+  'how',
+  'what',
+];
+
+// Per-page word cap while crawling - passage ranking trims the context afterwards
+const CRAWL_MAX_WORDS_PER_PAGE = 4000;
+
+// Upper bounds that keep sitemap discovery from running away on huge sites
+const MAX_SITEMAP_FETCHES = 5;
+const MAX_SITEMAP_URLS = 500;
+
+/**
+ * Check whether a path points at a non-HTML asset
+ */
+function isAssetPath(pathname: string): boolean {
+  return /\.(jpg|jpeg|png|gif|webp|svg|pdf|zip|doc|docx|xls|xlsx|mp4|mp3|css|js|xml)$/i.test(
+    pathname
+  );
+}
+
+/**
+ * Normalize a URL for deduplication (drops hash and trailing slash)
+ */
+function normalizeLink(urlObj: URL): string {
+  return urlObj.origin + urlObj.pathname.replace(/\/$/, '') + urlObj.search;
+}
+
+/**
+ * Score a URL based on importance indicators in its path and anchor text
+ */
+function scoreLink(urlObj: URL, anchorText = '', href = ''): number {
+  const pathLower = urlObj.pathname.toLowerCase();
+  const hrefLower = href.toLowerCase();
+  const anchorLower = anchorText.toLowerCase();
+
+  let score = 0;
+
+  for (const term of IMPORTANT_TERMS) {
+    if (pathLower.includes(term) || hrefLower.includes(term) || anchorLower.includes(term)) {
+      score += 10;
+    }
+  }
+
+  // Prefer shorter paths (likely more important)
+  const pathDepth = urlObj.pathname.split('/').filter((p) => p.length > 0).length;
+  score -= pathDepth;
+
+  return score;
+}
+
 /**
  * Find internal links from HTML, prioritize important pages
+ * Links disallowed by the given robots.txt rules are dropped
  */
-export function findInternalLinks(html: string, baseUrl: string): string[] {
+export function findInternalLinks(
+  html: string,
+  baseUrl: string,
+  rules: RobotsRules = ALLOW_ALL
+): string[] {
   const $ = cheerio.load(html);
   const baseUrlObj = new URL(baseUrl);
   const links: LinkScore[] = [];
@@ -89,59 +333,24 @@ export function findInternalLinks(html: string, baseUrl: string): string[] {
     if (!href) return;
 
     try {
-      const absolute = new URL(href, baseUrl).href;
-      const absUrlObj = new URL(absolute);
+      const absUrlObj = new URL(href, baseUrl);
 
       // Same origin only
       if (absUrlObj.origin !== baseUrlObj.origin) return;
 
       // Remove hash and trailing slash for deduplication
-      const normalized = absUrlObj.origin + absUrlObj.pathname.replace(/\/$/, '') + absUrlObj.search;
+      const normalized = normalizeLink(absUrlObj);
 
       if (seen.has(normalized)) return;
       seen.add(normalized);
 
-      // Skip non-HTML-like paths
-      if (
-        /\.(jpg|jpeg|png|gif|pdf|zip|doc|docx|xls|xlsx|mp4|mp3|css|js)$/i.test(
-          absUrlObj.pathname
-        )
-      ) {
+      // Skip non-HTML-like paths and anything robots.txt disallows
+      if (isAssetPath(absUrlObj.pathname) || !isUrlAllowed(rules, normalized)) {
         return;
       }
 
-      // Score links based on importance indicators
       const anchorText = $(elem).text().toLowerCase();
-      const pathLower = absUrlObj.pathname.toLowerCase();
-      const hrefLower = href.toLowerCase();
-
-      let score = 0;
-
-      const importantTerms = [
-        'about',
-        'company',
-        'team',
-        'services',
-        'service',
-        'product',
-        'solutions',
-        'pricing',
-        'contact',
-        'blog',
-        'why',
-        'how',
-        'what',
-      ];
-
-      for (const term of importantTerms) {
-        if (pathLower.includes(term) || hrefLower.includes(term) || anchorText.includes(term)) {
-          score += 10;
-        }
-      }
-
-      // Prefer shorter paths (likely more important)
-      const pathDepth = absUrlObj.pathname.split('/').filter((p) => p.length > 0).length;
-      score -= pathDepth;
+      const score = scoreLink(absUrlObj, anchorText, href);
 
       links.push({ url: normalized, score, text: anchorText });
     } catch {
@@ -156,44 +365,280 @@ export function findInternalLinks(html: string, baseUrl: string): string[] {
 }
 
 /**
- * Crawl a website - simplified to analyze ONLY the homepage
- * This prevents Claude API timeouts by keeping context small and focused
+ * Fetch robots.txt, returning null when it is missing (any 4xx response)
+ * Server errors and network failures throw, as the site's rules are then unknown.
+ * robots.txt itself isn't subject to robots rules, so redirects are followed
+ * directly (RFC 9309 asks for at least five); the host's minimum delay still applies
+ */
+async function fetchRobotsTxt(url: string, timeoutMs: number): Promise<string | null> {
+  await waitForHostSlot(new URL(url).host, getMinDelayMs());
+  const response = await axios.get(url, {
+    timeout: timeoutMs,
+    headers: {
+      'User-Agent': getUserAgent(),
+    },
+    maxRedirects: MAX_REDIRECTS,
+    responseType: 'text',
+    validateStatus: (status) => status === 200 || (status >= 400 && status < 500),
+  });
+
+  if (response.status !== 200) return null;
+  return typeof response.data === 'string' ? response.data : '';
+}
+
+/**
+ * Fetch a sitemap through the robots.txt and crawl-delay checks, returning null
+ * when it is missing, disallowed or unreadable
+ */
+async function fetchSitemap(url: string, timeoutMs: number): Promise<string | null> {
+  try {
+    const response = await politeGet(url, timeoutMs, {
+      responseType: 'text',
+      validateStatus: (status) => status === 200,
+    });
+    return typeof response.data === 'string' ? response.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ * Returns page URLs from <urlset> and child sitemap URLs from <sitemapindex>
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  const urls = $('urlset > url > loc')
+    .toArray()
+    .map((node) => $(node).text().trim())
+    .filter(Boolean);
+
+  const sitemaps = $('sitemapindex > sitemap > loc')
+    .toArray()
+    .map((node) => $(node).text().trim())
+    .filter(Boolean);
+
+  return { urls, sitemaps };
+}
+
+/**
+ * Discover page URLs from robots.txt sitemap directives and /sitemap.xml
+ * Follows sitemap indexes breadth-first, bounded by MAX_SITEMAP_FETCHES
+ * URLs disallowed by robots.txt are dropped
+ */
+export async function discoverSitemapUrls(baseUrl: string, timeoutMs = 12000): Promise<string[]> {
+  const baseUrlObj = new URL(baseUrl);
+
+  const rules = await getRobotsRules(baseUrl, timeoutMs);
+  const queue = rules.sitemaps.length > 0 ? [...rules.sitemaps] : [`${baseUrlObj.origin}/sitemap.xml`];
+  const visited = new Set<string>();
+  const urls = new Set<string>();
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAP_FETCHES && urls.size < MAX_SITEMAP_URLS) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    const xml = await fetchSitemap(sitemapUrl, timeoutMs);
+    if (!xml) continue;
+
+    const parsed = parseSitemap(xml);
+    queue.push(...parsed.sitemaps);
+
+    for (const loc of parsed.urls) {
+      try {
+        const locObj = new URL(loc);
+        if (locObj.origin !== baseUrlObj.origin || isAssetPath(locObj.pathname)) continue;
+
+        const normalized = normalizeLink(locObj);
+        if (!isUrlAllowed(rules, normalized)) continue;
+        urls.add(normalized);
+      } catch {
+        // Invalid URL, skip
+      }
+
+      if (urls.size >= MAX_SITEMAP_URLS) break;
+    }
+  }
+
+  console.log(`[Scrape] Sitemap discovery found ${urls.size} URLs from ${visited.size} sitemap(s)`);
+
+  // Rank sitemap URLs with the same importance scoring as internal links
+  return Array.from(urls).sort((a, b) => scoreLink(new URL(b)) - scoreLink(new URL(a)));
+}
+
+/**
+ * Read a cache entry, treating cache failures as a miss
+ */
+async function readCache(cache: CrawlCacheStore | null, url: string): Promise<CrawlCacheEntry | null> {
+  if (!cache) return null;
+  try {
+    return await cache.get(url);
+  } catch (error) {
+    console.warn(`[Scrape] Crawl cache read failed for ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry, logging instead of failing the crawl
+ */
+async function writeCache(cache: CrawlCacheStore | null, entry: CrawlCacheEntry): Promise<void> {
+  if (!cache) return;
+  try {
+    await cache.set(entry);
+  } catch (error) {
+    console.warn(`[Scrape] Crawl cache write failed for ${entry.url}:`, error);
+  }
+}
+
+/**
+ * Scrape a single page, going through the crawl cache
+ * Fresh entries are used without a request; stale entries with validators are
+ * revalidated with a conditional request and reused on 304 Not Modified.
+ * Returns the page plus its ranked internal links (not yet filtered by robots.txt).
+ */
+async function scrapePage(
+  url: string,
+  timeoutMs: number,
+  cache: CrawlCacheStore | null
+): Promise<{ page: ScrapedPage; links: string[] }> {
+  const cached = await readCache(cache, url);
+
+  if (cached && isFresh(cached)) {
+    // Even cached pages must still be allowed by the current robots.txt
+    const rules = await getRobotsRules(url, timeoutMs);
+    if (!isUrlAllowed(rules, url)) {
+      throw disallowedError(url, rules);
+    }
+
+    return {
+      page: { url, title: cached.title, text: cached.text, fromCache: true, facts: cached.facts },
+      links: cached.links,
+    };
+  }
+
+  const fetched = await fetchPage(url, timeoutMs, cached || undefined);
+
+  if (fetched.notModified && cached) {
+    await writeCache(cache, {
+      ...cached,
+      etag: fetched.etag || cached.etag,
+      lastModified: fetched.lastModified || cached.lastModified,
+      fetchedAt: Date.now(),
+    });
+
+    return {
+      page: { url, title: cached.title, text: cached.text, fromCache: true, facts: cached.facts },
+      links: cached.links,
+    };
+  }
+
+  // Facts are read before extractMainText strips scripts and page chrome
+  const facts = extractSiteFacts(fetched.html, url);
+  const { text, title } = extractMainText(fetched.html, CRAWL_MAX_WORDS_PER_PAGE);
+  const links = findInternalLinks(fetched.html, url);
+
+  if (text && text.length >= 50) {
+    await writeCache(cache, {
+      url,
+      title,
+      text,
+      links,
+      facts,
+      etag: fetched.etag,
+      lastModified: fetched.lastModified,
+      fetchedAt: Date.now(),
+    });
+  }
+
+  return { page: { url, title, text, fromCache: false, facts }, links };
+}
+
+/**
+ * Crawl a website starting from the homepage
+ * Candidate pages come from sitemap.xml (via robots.txt), falling back to scored
+ * internal links. Pages are fetched in parallel; the prompt context is built from
+ * the returned documents by buildRankedContext within its own token budget.
+ * Disallowed URLs are never fetched; requests to the site are spaced by its
+ * Crawl-delay (or SCRAPE_MIN_DELAY_MS), so concurrency mostly helps slow responses.
+ * Pages go through the crawl cache, and each page records whether it was cached.
  */
 export async function crawl(
   startUrl: string,
-  maxPages = 10, // Kept for API compatibility but ignored
-  concurrency = 3, // Kept for API compatibility but ignored
+  maxPages = 10,
+  concurrency = 3,
   timeoutMs = 12000
 ): Promise<CrawlResult> {
-  console.log(`[Scrape] Analyzing homepage only: ${startUrl}`);
+  console.log(`[Scrape] Crawling ${startUrl} (max ${maxPages} pages, concurrency ${concurrency})`);
+
+  // Refuse up front when robots.txt disallows the start page - this is a job error
+  const rules = await getRobotsRules(startUrl, timeoutMs);
+  if (!isUrlAllowed(rules, startUrl)) {
+    throw disallowedError(startUrl, rules);
+  }
 
+  const cache = getCrawlCache();
+
+  // The homepage is required - without it there is nothing to anchor the crawl
+  let homepage: ScrapedPage;
+  let homepageLinks: string[];
   try {
-    // Fetch only the homepage
-    const html = await fetchHtml(startUrl, timeoutMs);
-    const { text, title } = extractMainText(html);
+    const scraped = await scrapePage(startUrl, timeoutMs, cache);
 
-    if (!text || text.length < 50) {
+    if (!scraped.page.text || scraped.page.text.length < 50) {
       throw new Error(
         'No content could be extracted from the homepage. The site may be JavaScript-rendered or inaccessible.'
       );
     }
 
-    // Create single page result
-    const page: ScrapedPage = { url: startUrl, title, text };
-
-    // Build context string from homepage only
-    const context = `[HOMEPAGE: ${page.title} | ${page.url}]\n${page.text}`;
-
-    console.log(`[Scrape] Homepage analyzed: ${text.length} characters, ~${text.split(/\s+/).length} words`);
-
-    return {
-      context,
-      pages: [{ title: page.title, url: page.url }]
-    };
+    homepage = scraped.page;
+    homepageLinks = scraped.links;
   } catch (error) {
     console.error(`[Scrape] Failed to analyze homepage ${startUrl}:`, error);
     throw new Error(
       `Failed to analyze homepage: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
+
+  // Prefer the sitemap, fall back to links found on the homepage
+  let candidates = await discoverSitemapUrls(startUrl, timeoutMs);
+  if (candidates.length === 0) {
+    candidates = homepageLinks.filter((link) => isUrlAllowed(rules, link));
+    console.log(`[Scrape] No sitemap found, using ${candidates.length} internal links`);
+  }
+
+  const homepageKey = normalizeLink(new URL(startUrl));
+  const targets = candidates
+    .filter((url) => normalizeLink(new URL(url)) !== homepageKey)
+    .slice(0, Math.max(0, maxPages - 1));
+
+  const limit = pLimit(Math.max(1, concurrency));
+  const fetched = await Promise.all(
+    targets.map((url) =>
+      limit(async (): Promise<ScrapedPage | null> => {
+        try {
+          const { page } = await scrapePage(url, timeoutMs, cache);
+          if (!page.text || page.text.length < 50) return null;
+          return page;
+        } catch (error) {
+          console.warn(
+            `[Scrape] Skipping ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+          return null;
+        }
+      })
+    )
+  );
+
+  const pages = [homepage, ...fetched.filter((page): page is ScrapedPage => page !== null)];
+  const cachedCount = pages.filter((page) => page.fromCache).length;
+  console.log(`[Scrape] Crawled ${pages.length}/${targets.length + 1} pages (${cachedCount} from cache)`);
+
+  return {
+    pages: pages.map((page) => ({ title: page.title, url: page.url, fromCache: page.fromCache })),
+    documents: pages,
+    facts: mergeSiteFacts(pages.map((page) => page.facts)),
+  };
 }
@@ -0,0 +1,239 @@
+/**
+ * On-page SEO scoring of a finished article
+ * Measures the article against the targets the generation prompt sets
+ * (length, keyword placement and density, headings, meta lengths, formatted elements)
+ */
+
+import { stripMarkdown, toWords, wordCount } from './normalize';
+import type { KeywordStats, SeoCheck, SeoReport } from './typing';
+
+const META_TITLE_RANGE = [50, 60];
+const META_DESCRIPTION_RANGE = [150, 160];
+const DENSITY_RANGE = [0.5, 1.5]; // Percent, primary keyword
+const QUESTION_H2_SHARE = 0.4;
+const QUESTION_WORDS = /^(why|what|how|when|who|where|which|can|do|does|is|are|should|will)\b/i;
+
+interface Heading {
+  level: number;
+  text: string;
+}
+
+/**
+ * Headings outside code fences, in document order
+ */
+function readHeadings(markdown: string): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match) headings.push({ level: match[1].length, text: match[2].trim() });
+  }
+  return headings;
+}
+
+/**
+ * Number of separate blocks of consecutive lines matching a pattern
+ */
+function countBlocks(markdown: string, pattern: RegExp): number {
+  let blocks = 0;
+  let inBlock = false;
+  for (const line of markdown.split('\n')) {
+    const matches = pattern.test(line);
+    if (matches && !inBlock) blocks++;
+    inBlock = matches;
+  }
+  return blocks;
+}
+
+function normalizeWords(text: string): string[] {
+  return toWords(stripMarkdown(text)).map((word) => word.toLowerCase());
+}
+
+/**
+ * Occurrences of a keyword phrase in a list of lowercased words
+ */
+function countPhrase(words: string[], phrase: string[]): number {
+  if (phrase.length === 0) return 0;
+  let count = 0;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) count++;
+  }
+  return count;
+}
+
+/**
+ * Occurrences of a keyword in markdown or plain text (case-insensitive, whole words)
+ */
+export function countKeyword(text: string, keyword: string): number {
+  return countPhrase(normalizeWords(text), normalizeWords(keyword));
+}
+
+function containsPhrase(text: string, phrase: string[]): boolean {
+  return countPhrase(normalizeWords(text), phrase) > 0;
+}
+
+/**
+ * Problems with the H1 > H2 > H3 structure
+ */
+function headingProblems(headings: Heading[]): string[] {
+  const problems: string[] = [];
+  const h1Count = headings.filter((h) => h.level === 1).length;
+
+  if (h1Count === 0) problems.push('No H1 heading');
+  if (h1Count > 1) problems.push(`${h1Count} H1 headings (expected one)`);
+  if (headings.length > 0 && headings[0].level !== 1) problems.push('The first heading is not the H1');
+  if (!headings.some((h) => h.level === 2)) problems.push('No H2 sections');
+
+  headings.forEach((heading, i) => {
+    if (!heading.text) problems.push(`Empty H${heading.level} heading`);
+    const previous = headings[i - 1];
+    if (previous && heading.level > previous.level + 1) {
+      problems.push(`"${heading.text}" skips from H${previous.level} to H${heading.level}`);
+    }
+  });
+
+  return problems;
+}
+
+function check(id: string, label: string, status: SeoCheck['status'], detail: string): SeoCheck {
+  return { id, label, status, detail };
+}
+
+function rangeStatus(value: number, [min, max]: number[], tolerance: number): SeoCheck['status'] {
+  if (value >= min && value <= max) return 'pass';
+  return value >= min - tolerance && value <= max + tolerance ? 'warn' : 'fail';
+}
+
+/**
+ * Score an article; the score is the share of passed checks (warnings count half)
+ */
+export function scoreSeo(
+  content: { metaTitle: string; metaDescription: string; contentMarkdown: string },
+  keywords: string[],
+  targetLength: number
+): SeoReport {
+  const { metaTitle, metaDescription, contentMarkdown } = content;
+  const headings = readHeadings(contentMarkdown);
+  const h1 = headings.find((h) => h.level === 1)?.text || '';
+  const h2s = headings.filter((h) => h.level === 2);
+
+  const words = normalizeWords(contentMarkdown);
+  const count = wordCount(contentMarkdown);
+  const bodyWords = normalizeWords(contentMarkdown.replace(/^#{1,6}\s+.*$/gm, ''));
+  const first100 = bodyWords.slice(0, 100);
+
+  const keywordStats: KeywordStats[] = keywords.map((keyword) => {
+    const phrase = normalizeWords(keyword);
+    const occurrences = countPhrase(words, phrase);
+    return {
+      keyword,
+      count: occurrences,
+      density: words.length > 0 ? Math.round(((occurrences * phrase.length) / words.length) * 10000) / 100 : 0,
+      inH1: containsPhrase(h1, phrase),
+      inFirst100Words: countPhrase(first100, phrase) > 0,
+      inMetaTitle: containsPhrase(metaTitle, phrase),
+    };
+  });
+
+  const questionH2s = h2s.filter((h) => h.text.endsWith('?') || QUESTION_WORDS.test(h.text)).length;
+  const elements = {
+    lists: countBlocks(contentMarkdown, /^\s*(?:[-*+]|\d+[.)])\s+/),
+    tables: countBlocks(contentMarkdown, /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)+\|?\s*$/),
+    blockquotes: countBlocks(contentMarkdown, /^\s*>/),
+  };
+  const problems = headingProblems(headings);
+
+  const checks: SeoCheck[] = [];
+  const lengthOff = targetLength > 0 ? Math.abs(count - targetLength) / targetLength : 0;
+  checks.push(
+    check(
+      'length',
+      'Word count',
+      lengthOff <= 0.05 ? 'pass' : lengthOff <= 0.1 ? 'warn' : 'fail',
+      `${count} words, target ${targetLength} (${Math.round(lengthOff * 100)}% off)`
+    )
+  );
+
+  const primary = keywordStats[0];
+  if (primary) {
+    checks.push(
+      check('keyword-h1', 'Primary keyword in H1', primary.inH1 ? 'pass' : 'fail', `"${primary.keyword}" ${primary.inH1 ? 'is' : 'is not'} in the H1`),
+      check(
+        'keyword-intro',
+        'Primary keyword in first 100 words',
+        primary.inFirst100Words ? 'pass' : 'fail',
+        `"${primary.keyword}" ${primary.inFirst100Words ? 'appears' : 'does not appear'} in the first 100 words`
+      ),
+      check(
+        'keyword-meta-title',
+        'Primary keyword in meta title',
+        primary.inMetaTitle ? 'pass' : 'fail',
+        `"${primary.keyword}" ${primary.inMetaTitle ? 'is' : 'is not'} in the meta title`
+      ),
+      check(
+        'keyword-density',
+        'Primary keyword density',
+        rangeStatus(primary.density, DENSITY_RANGE, 0.5),
+        `${primary.density}% (target ${DENSITY_RANGE[0]}-${DENSITY_RANGE[1]}%)`
+      )
+    );
+  }
+  const unused = keywordStats.filter((stats) => stats.count === 0).map((stats) => stats.keyword);
+  checks.push(
+    check(
+      'keywords-used',
+      'All keywords used',
+      unused.length === 0 ? 'pass' : unused.length < keywordStats.length ? 'warn' : 'fail',
+      unused.length === 0 ? 'Every keyword appears in the article' : `Not used: ${unused.join(', ')}`
+    )
+  );
+
+  checks.push(
+    check('headings', 'Heading hierarchy', problems.length === 0 ? 'pass' : 'fail', problems.length === 0 ? 'H1 > H2 > H3 structure is clean' : problems.join('; ')),
+    check(
+      'meta-title',
+      'Meta title length',
+      rangeStatus(metaTitle.length, META_TITLE_RANGE, 10),
+      `${metaTitle.length} characters (target ${META_TITLE_RANGE[0]}-${META_TITLE_RANGE[1]})`
+    ),
+    check(
+      'meta-description',
+      'Meta description length',
+      rangeStatus(metaDescription.length, META_DESCRIPTION_RANGE, 20),
+      `${metaDescription.length} characters (target ${META_DESCRIPTION_RANGE[0]}-${META_DESCRIPTION_RANGE[1]})`
+    )
+  );
+
+  const questionShare = h2s.length > 0 ? questionH2s / h2s.length : 0;
+  checks.push(
+    check(
+      'question-h2',
+      'Question-style H2s',
+      questionShare >= QUESTION_H2_SHARE ? 'pass' : questionShare > 0 ? 'warn' : 'fail',
+      `${questionH2s} of ${h2s.length} H2s are questions (target ${QUESTION_H2_SHARE * 100}%)`
+    ),
+    check('lists', 'Lists', elements.lists >= 2 ? 'pass' : elements.lists === 1 ? 'warn' : 'fail', `${elements.lists} list(s) (target 2-3)`),
+    check('tables', 'Comparison table', elements.tables >= 1 ? 'pass' : 'warn', `${elements.tables} table(s) (at least 1 where applicable)`),
+    check('blockquotes', 'Key takeaway blockquotes', elements.blockquotes >= 1 ? 'pass' : 'warn', `${elements.blockquotes} blockquote(s) (target 1-2)`)
+  );
+
+  const points = checks.reduce((sum, c) => sum + (c.status === 'pass' ? 1 : c.status === 'warn' ? 0.5 : 0), 0);
+
+  return {
+    score: checks.length > 0 ? Math.round((points / checks.length) * 100) : 0,
+    wordCount: count,
+    targetLength,
+    keywords: keywordStats,
+    headings: {
+      h1: headings.filter((h) => h.level === 1).length,
+      h2: h2s.length,
+      h3: headings.filter((h) => h.level === 3).length,
+      questionH2Share: Math.round(questionShare * 100) / 100,
+      problems,
+    },
+    meta: { titleLength: metaTitle.length, descriptionLength: metaDescription.length },
+    elements,
+    checks,
+  };
+}
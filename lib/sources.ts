@@ -0,0 +1,87 @@
+/**
+ * Client-supplied source material - briefs, specs, interview notes and pasted HTML
+ * Text is extracted once when the job is created and stored with the job
+ */
+
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { extractMainText } from './scrape';
+import type { ScrapedPage, SourceDocument, SourceUpload } from './typing';
+
+// Per-document word cap - passage ranking picks the relevant parts later
+const MAX_SOURCE_WORDS = 20000;
+
+/**
+ * Cap text at MAX_SOURCE_WORDS words while keeping line breaks
+ */
+function capWords(text: string): string {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const words = normalized.split(/\s+/);
+  if (words.length <= MAX_SOURCE_WORDS) {
+    return normalized;
+  }
+
+  let count = 0;
+  const kept: string[] = [];
+  for (const line of normalized.split('\n')) {
+    const lineWords = line.split(/\s+/).filter(Boolean).length;
+    if (count + lineWords > MAX_SOURCE_WORDS) break;
+    kept.push(line);
+    count += lineWords;
+  }
+  return kept.join('\n') + '\n...';
+}
+
+/**
+ * Extract plain text from an uploaded or pasted source
+ */
+export async function extractSourceText(upload: SourceUpload): Promise<SourceDocument> {
+  let text: string;
+
+  switch (upload.type) {
+    case 'text':
+    case 'markdown':
+      text = upload.content;
+      break;
+
+    case 'html':
+      text = extractMainText(upload.content, MAX_SOURCE_WORDS).text;
+      break;
+
+    case 'docx': {
+      const result = await mammoth.extractRawText({ buffer: Buffer.from(upload.content, 'base64') });
+      text = result.value;
+      break;
+    }
+
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(Buffer.from(upload.content, 'base64')));
+      const result = await extractText(pdf, { mergePages: false });
+      text = result.text.join('\n\n');
+      break;
+    }
+
+    default:
+      throw new Error(`Unsupported source type: ${(upload as SourceUpload).type}`);
+  }
+
+  const capped = capWords(text);
+  if (capped.length < 20) {
+    throw new Error(`No text could be extracted from source "${upload.name}"`);
+  }
+
+  return { name: upload.name, type: upload.type, text: capped };
+}
+
+/**
+ * Convert a stored source document into a page for passage ranking
+ * Sources get a source: pseudo-URL so they can be told apart from crawled pages
+ */
+export function sourceToPage(source: SourceDocument, index: number): ScrapedPage {
+  return {
+    title: `${source.name} (${source.type})`,
+    url: `source:${index + 1}/${encodeURIComponent(source.name)}`,
+    text: source.text,
+    kind: 'source',
+  };
+}
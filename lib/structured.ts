@@ -0,0 +1,157 @@
+/**
+ * Structured model output
+ * Providers with tool use are asked to call a content tool; its input is
+ * validated field by field against a zod schema instead of being parsed out of
+ * ===MARKER=== text, so one malformed field can be repaired on its own
+ */
+
+import { z } from 'zod';
+import { formatFaq } from './faq';
+import type { ModelTool, ParsedSections } from './typing';
+
+export const CONTENT_TOOL_NAME = 'submit_content';
+
+const FaqItemSchema = z.object({
+  question: z.string().trim().min(1),
+  answer: z.string().trim().min(1),
+});
+
+export const GeneratedContentSchema = z.object({
+  metaTitle: z.string().trim().min(1).regex(/^[^\n]+$/, 'must be a single line'),
+  metaDescription: z.string().trim().min(1).regex(/^[^\n]+$/, 'must be a single line'),
+  contentMarkdown: z.string().trim().min(1),
+  faq: z.array(FaqItemSchema).min(1),
+  schema: z
+    .record(z.string(), z.unknown())
+    .refine((schema) => typeof schema['@context'] === 'string', 'must be a JSON-LD object with @context'),
+});
+
+export type GeneratedContent = z.infer<typeof GeneratedContentSchema>;
+export type ContentField = keyof GeneratedContent;
+
+/** Everything the single-pass generation produces */
+export const ARTICLE_FIELDS: ContentField[] = ['metaTitle', 'metaDescription', 'contentMarkdown', 'faq', 'schema'];
+
+/** The sectioned pipeline's final stage: everything except the article itself */
+export const ASSEMBLY_FIELDS: ContentField[] = ['metaTitle', 'metaDescription', 'faq', 'schema'];
+
+// JSON Schema shown to the model for each field (mirrors GeneratedContentSchema)
+const FIELD_JSON_SCHEMAS: Record<ContentField, Record<string, unknown>> = {
+  metaTitle: {
+    type: 'string',
+    description: 'Meta title, 50-60 characters, primary keyword front-loaded',
+  },
+  metaDescription: {
+    type: 'string',
+    description: 'Meta description, 150-160 characters, includes the primary keyword and a call-to-action',
+  },
+  contentMarkdown: {
+    type: 'string',
+    description: 'The full article in Markdown, starting with the H1 heading',
+  },
+  faq: {
+    type: 'array',
+    description: 'Frequently asked questions with complete answers',
+    items: {
+      type: 'object',
+      properties: {
+        question: { type: 'string' },
+        answer: { type: 'string' },
+      },
+      required: ['question', 'answer'],
+    },
+  },
+  schema: {
+    type: 'object',
+    description: 'JSON-LD object with "@context" and an "@graph" of Article and FAQPage nodes (an object, not a string)',
+  },
+};
+
+/**
+ * Whether generation should ask for structured output (STRUCTURED_OUTPUT, default true)
+ */
+export function isStructuredOutputEnabled(): boolean {
+  return process.env.STRUCTURED_OUTPUT !== 'false';
+}
+
+/**
+ * Tool definition asking for the given fields
+ */
+export function buildContentTool(fields: ContentField[]): ModelTool {
+  return {
+    name: CONTENT_TOOL_NAME,
+    description: 'Submit the finished SEO content. Call this exactly once with every required field.',
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(fields.map((field) => [field, FIELD_JSON_SCHEMAS[field]])),
+      required: fields,
+    },
+  };
+}
+
+/**
+ * Validate tool input field by field
+ * Valid fields are kept; invalid or missing ones are listed with their issues
+ */
+export function validateContent(
+  input: unknown,
+  fields: ContentField[]
+): { data: Partial<GeneratedContent>; invalid: ContentField[]; issues: string[] } {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const data: Partial<GeneratedContent> = {};
+  const invalid: ContentField[] = [];
+  const issues: string[] = [];
+
+  for (const field of fields) {
+    const result = GeneratedContentSchema.shape[field].safeParse(source[field]);
+    if (result.success) {
+      Object.assign(data, { [field]: result.data });
+    } else {
+      invalid.push(field);
+      issues.push(...result.error.errors.map((e) => `${[field, ...e.path].join('.')}: ${e.message}`));
+    }
+  }
+
+  return { data, invalid, issues };
+}
+
+/**
+ * Pick the given fields from raw tool input (for the repair prompt)
+ */
+export function pickFields(input: unknown, fields: ContentField[]): Record<string, unknown> {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  return Object.fromEntries(fields.filter((field) => field in source).map((field) => [field, source[field]]));
+}
+
+/**
+ * Render validated content in the ===MARKER=== format, so checkpoints and the
+ * sectioned pipeline keep a single text representation
+ */
+export function renderMarkerText(content: Partial<GeneratedContent>): string {
+  const blocks: string[] = [];
+  if (content.metaTitle !== undefined) blocks.push(`META TITLE: ${content.metaTitle}`);
+  if (content.metaDescription !== undefined) blocks.push(`META DESCRIPTION: ${content.metaDescription}`);
+  if (content.contentMarkdown !== undefined) {
+    blocks.push(`===CONTENT START===\n\n${content.contentMarkdown}\n\n===CONTENT END===`);
+  }
+  if (content.faq !== undefined) blocks.push(`===FAQ START===\n${formatFaq(content.faq)}\n===FAQ END===`);
+  if (content.schema !== undefined) {
+    blocks.push(`===SCHEMA START===\n\`\`\`json\n${JSON.stringify(content.schema, null, 2)}\n\`\`\`\n===SCHEMA END===`);
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * Convert validated content to the sections stored on the job
+ */
+export function toParsedSections(content: GeneratedContent): ParsedSections {
+  return {
+    metaTitle: content.metaTitle,
+    metaDescription: content.metaDescription,
+    contentMarkdown: content.contentMarkdown,
+    faqRaw: formatFaq(content.faq),
+    faq: content.faq,
+    schemaJsonString: JSON.stringify(content.schema, null, 2),
+    schemaJson: content.schema,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Supabase client shared by the Supabase job store, crawl cache and usage records
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Whether Supabase credentials are set
+ * The SQLite and in-memory job stores run without them; the crawl cache and
+ * usage records are Supabase-only and are skipped instead
+ */
+export function isSupabaseConfigured(): boolean {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+/**
+ * Get or create Supabase client
+ * IMPORTANT: Forces cache: 'no-store' to bypass Next.js Data Cache
+ */
+export function getSupabase(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment variables'
+    );
+  }
+
+  // Create client with fetch override to bypass Next.js Data Cache
+  return createClient(url, key, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+    db: {
+      schema: 'public',
+    },
+    global: {
+      // Force every supabase-js fetch to bypass Next.js Data Cache
+      fetch: (url: RequestInfo | URL, init?: RequestInit) =>
+        fetch(url, { ...init, cache: 'no-store' }),
+    },
+  });
+}
@@ -2,23 +2,69 @@
  * TypeScript interfaces for the SEO content creator application
  */
 
+export type SourceDocumentType = 'text' | 'markdown' | 'docx' | 'pdf' | 'html';
+
+export interface SourceUpload {
+  name: string;
+  type: SourceDocumentType;
+  content: string; // Raw text for text/markdown/html, base64 for docx/pdf
+}
+
+export interface SourceDocument {
+  name: string;
+  type: SourceDocumentType;
+  text: string; // Extracted plain text
+}
+
 export interface GeneratePayload {
-  url: string;
+  url?: string;
   topic: string;
   keywords: string;
   length: number;
   additionalNotes?: string;
+  sources?: SourceUpload[];
+  provider?: ProviderName;
 }
 
 export interface ScrapedPage {
   title: string;
   url: string;
   text: string;
+  fromCache?: boolean;
+  facts?: SiteFacts;
+  kind?: 'page' | 'source'; // 'source' for client-supplied documents
+}
+
+export interface SourcePage {
+  title: string;
+  url: string;
+  fromCache?: boolean; // Served from the crawl cache instead of a live fetch
+  kind?: 'page' | 'source';
 }
 
 export interface CrawlResult {
+  pages: SourcePage[];
+  documents: ScrapedPage[];
+  facts: SiteFacts; // Merged across all crawled pages, homepage first
+}
+
+export interface Passage {
+  id: number;
+  url: string;
+  title: string;
+  text: string;
+  position: number; // Index of the passage within its page
+}
+
+export interface RankedContext {
   context: string;
-  pages: Array<{ title: string; url: string }>;
+  pages: SourcePage[];
+  passages: Passage[];
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
 }
 
 export interface ParsedSections {
@@ -26,18 +72,71 @@ export interface ParsedSections {
   metaDescription: string;
   contentMarkdown: string;
   faqRaw: string;
+  faq: FaqItem[]; // Parsed from faqRaw; the FAQPage schema is built from these
   schemaJsonString: string;
   schemaJson: object;
 }
 
+export type JsonLdNode = Record<string, unknown>;
+
+// JSON-LD with every node under @graph, the shape the result's schema is written in
+export interface JsonLdGraph {
+  '@context': unknown;
+  '@graph': JsonLdNode[];
+}
+
 export interface GenerateResponse {
   jobId?: string;
   metaTitle: string;
   metaDescription: string;
   contentMarkdown: string;
   faqRaw: string;
+  faq?: FaqItem[]; // Absent for jobs created before FAQs were stored as pairs
   schemaJsonString: string;
-  pages: Array<{ title: string; url: string }>;
+  schemaReport?: SchemaReport; // Validation of the JSON-LD; absent for older jobs
+  seoReport?: SeoReport; // On-page SEO scorecard; absent for older jobs
+  groundingReport?: GroundingReport; // Claims checked against the site context; absent for older jobs
+  pages: SourcePage[];
+  warnings?: string[]; // Set when the output had to be repaired or partly regenerated, or failed acceptance checks
+  revisions?: RevisionAttempt[]; // Targeted revisions made because acceptance checks failed
+}
+
+export interface PostalAddressFacts {
+  streetAddress?: string;
+  addressLocality?: string;
+  addressRegion?: string;
+  postalCode?: string;
+  addressCountry?: string;
+  formatted: string; // Single-line address as shown to readers
+}
+
+export interface PriceFact {
+  item?: string; // What the price is for, when known
+  price: string; // As written on the site, e.g. "$450" or "450.00"
+  currency?: string;
+}
+
+export interface SiteFacts {
+  organizationName?: string;
+  legalName?: string;
+  description?: string;
+  url?: string;
+  logo?: string;
+  address?: PostalAddressFacts;
+  telephone?: string;
+  email?: string;
+  openingHours: string[];
+  socialProfiles: string[];
+  products: string[];
+  services: string[];
+  prices: PriceFact[];
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+  sitemaps: string[];
 }
 
 export interface LinkScore {
@@ -45,3 +144,230 @@ export interface LinkScore {
   score: number;
   text: string;
 }
+
+export type ProviderName = 'anthropic' | 'openai' | 'fixture';
+
+export interface ModelRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  model?: string; // Overrides the provider's default model
+  onText?: (text: string) => void; // Receives the full text so far while streaming
+  tool?: ModelTool; // Forces structured output through this tool
+  onToolInput?: (snapshot: unknown) => void; // Receives the partially parsed tool input while streaming
+  signal?: AbortSignal; // Aborts the in-flight request (job cancelled)
+}
+
+export interface ModelTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number; // Prompt tokens served from the provider's prompt cache
+  cacheWriteTokens: number; // Prompt tokens written to the prompt cache
+}
+
+export interface ModelResponse {
+  text: string;
+  model: string;
+  usage?: ModelUsage; // Omitted when the provider doesn't report it
+  toolInput?: unknown; // Input of the requested tool call, unvalidated; undefined when the model didn't call it
+}
+
+export interface ModelCallRecord extends ModelUsage {
+  stage: string; // Pipeline step that made the call (e.g. 'generate')
+  provider: ProviderName;
+  model: string;
+  latencyMs: number;
+  costUsd: number | null; // null when the model has no price configured
+  success: boolean;
+  error?: string;
+}
+
+export interface UsageTotals extends ModelUsage {
+  calls: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface ContentModelProvider {
+  name: ProviderName;
+  model: string; // Default model for requests that don't name one
+  fallbackModels: string[]; // Tried in order when the default model keeps failing
+  supportsTools: boolean; // False: generation falls back to the ===MARKER=== text format
+  generate(request: ModelRequest): Promise<ModelResponse>;
+}
+
+export interface OutlineSection {
+  heading: string; // H2 text
+  subheadings: string[]; // H3 texts
+  wordBudget: number;
+  keywords: string[]; // Keywords this section should carry
+  summary: string; // What the section covers
+}
+
+export interface ArticleOutline {
+  title: string; // H1
+  introduction: { wordBudget: number; keywords: string[]; summary: string };
+  sections: OutlineSection[];
+}
+
+// Checkpoint for the sectioned pipeline, saved on the job after every stage
+export interface GenerationState {
+  outline?: ArticleOutline;
+  sections: string[]; // Finished markdown; index 0 is the introduction
+  assembly?: string; // Meta, FAQ and schema output
+  model?: string; // Model of the latest call
+  fallback?: boolean; // A fallback model was used at some point
+}
+
+// Pipeline stages that save a checkpoint on the job, in run order
+export type JobStage = 'crawl' | 'generate' | 'parse' | 'revise';
+
+// Output of every finished stage; a retried job continues from the first stage without one
+export interface JobCheckpoints {
+  crawl?: { result: CrawlResult; at: number };
+  generate?: { text: string; model: string; fallback: boolean; parsed?: ParsedSections; at: number };
+  parse?: { parsed: ParsedSections; warnings: string[]; at: number }; // Warnings from parse recovery
+  revise?: { parsed: ParsedSections; unresolved: AcceptanceFailure[]; at: number }; // After acceptance revisions
+}
+
+export interface SchemaIssue {
+  severity: 'error' | 'warning'; // Errors make rich results ineligible; warnings are recommendations
+  type: string; // @type of the node the issue belongs to
+  path: string; // Property path from the JSON-LD root, e.g. @graph[1].mainEntity[0].name
+  message: string;
+}
+
+export interface SchemaReport {
+  valid: boolean; // No errors
+  errorCount: number;
+  warningCount: number;
+  types: string[]; // @types found at the top level
+  issues: SchemaIssue[];
+}
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: 'pass' | 'warn' | 'fail';
+  detail: string;
+}
+
+export interface KeywordStats {
+  keyword: string;
+  count: number;
+  density: number; // Percent of article words
+  inH1: boolean;
+  inFirst100Words: boolean;
+  inMetaTitle: boolean;
+}
+
+export interface SeoReport {
+  score: number; // 0-100
+  wordCount: number;
+  targetLength: number;
+  keywords: KeywordStats[];
+  headings: {
+    h1: number;
+    h2: number;
+    h3: number;
+    questionH2Share: number; // 0-1
+    problems: string[];
+  };
+  meta: {
+    titleLength: number;
+    descriptionLength: number;
+  };
+  elements: {
+    lists: number;
+    tables: number;
+    blockquotes: number;
+  };
+  checks: SeoCheck[];
+}
+
+export type AcceptanceCheck = 'length' | 'metaTitle' | 'metaDescription' | 'keywords' | 'forbiddenTopics';
+
+export interface AcceptanceFailure {
+  check: AcceptanceCheck;
+  message: string;
+  items?: string[]; // Unused keywords or mentioned forbidden topics
+}
+
+// One targeted revision call made because acceptance checks failed
+export interface RevisionAttempt {
+  attempt: number; // 1-based
+  failures: AcceptanceFailure[]; // What the revision was asked to fix
+  revised: string[]; // Parts replaced with the revision (e.g. contentMarkdown, metaTitle)
+  remaining: AcceptanceFailure[]; // Checks still failing afterwards
+  model?: string;
+  error?: string; // The revision call failed; the previous version was kept
+  at: string; // ISO timestamp
+}
+
+export type ClaimKind = 'number' | 'price' | 'timeframe' | 'entity' | 'superlative';
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface GroundingClaim {
+  text: string; // As written in the article
+  kind: ClaimKind;
+  status: ClaimStatus;
+  sourceUrl?: string; // Page that supports (or contradicts) the claim
+  evidence?: string; // Excerpt of that page
+}
+
+export interface GroundedSentence {
+  text: string; // Plain text of the sentence, as rendered
+  status: ClaimStatus; // Worst status of its claims
+  claims: GroundingClaim[];
+}
+
+export interface GroundingReport {
+  claimCount: number;
+  supported: number;
+  unsupported: number;
+  contradicted: number;
+  sentences: GroundedSentence[]; // Only sentences with at least one claim
+}
+
+// Progress of a batch (bulk generation), counted from its jobs' statuses
+export interface BatchProgress {
+  total: number;
+  queued: number; // Pending, including jobs waiting for a retry
+  running: number; // Crawling, generating or parsing
+  done: number; // Completed, with or without warnings
+  failed: number;
+  cancelled: number;
+}
+
+// One job of a batch, as listed by GET /api/batches/[batchId]
+export interface BatchJobSummary {
+  id: string;
+  url?: string;
+  topic: string;
+  status: string;
+  progress: number;
+  message: string;
+  error?: string;
+  seoScore?: number; // Completed jobs only
+}
+
+export interface BatchDetails {
+  id: string;
+  name: string;
+  createdAt: number;
+  jobCount: number;
+  progress: BatchProgress;
+  jobs: BatchJobSummary[];
+}
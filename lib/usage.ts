@@ -0,0 +1,115 @@
+/**
+ * Token usage and cost accounting
+ * Every model request is stored in the job store's job_calls. Rows keep the
+ * client domain and outlive the job itself, so daily and per-domain totals
+ * survive job cleanup
+ */
+
+import { getJobStore, type JobCall } from './job-store';
+import type { ModelCallRecord, UsageTotals } from './typing';
+
+export type { JobCall };
+
+export interface UsageBucket extends UsageTotals {
+  key: string; // Day (YYYY-MM-DD, UTC) or domain
+}
+
+export interface UsageSummary {
+  from: number;
+  to: number;
+  totals: UsageTotals;
+  byDay: UsageBucket[];
+  byDomain: UsageBucket[];
+}
+
+/**
+ * Hostname used to group usage by client, or null for source-only jobs
+ */
+export function domainFromUrl(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, call: ModelCallRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += call.inputTokens;
+  totals.outputTokens += call.outputTokens;
+  totals.cacheReadTokens += call.cacheReadTokens;
+  totals.cacheWriteTokens += call.cacheWriteTokens;
+  totals.costUsd += call.costUsd ?? 0;
+  totals.latencyMs += call.latencyMs;
+}
+
+/**
+ * Sum a list of calls
+ */
+export function sumUsage(calls: ModelCallRecord[]): UsageTotals {
+  const totals = emptyUsageTotals();
+  for (const call of calls) {
+    addToTotals(totals, call);
+  }
+  return totals;
+}
+
+/**
+ * Store one model call in the job store
+ */
+export async function recordModelCall(
+  jobId: string,
+  domain: string | null,
+  call: ModelCallRecord
+): Promise<void> {
+  await getJobStore().recordCall({ ...call, jobId, domain, createdAt: Date.now() });
+}
+
+/**
+ * All model calls for a job, oldest first, with totals
+ */
+export async function getJobUsage(jobId: string): Promise<{ calls: JobCall[]; totals: UsageTotals }> {
+  const calls = await getJobStore().listCalls({ jobId });
+  return { calls, totals: sumUsage(calls) };
+}
+
+/**
+ * Usage between two timestamps, summed per UTC day and per client domain
+ */
+export async function getUsageSummary(from: number, to: number): Promise<UsageSummary> {
+  const calls = await getJobStore().listCalls({ from, to });
+
+  const byDay = new Map<string, UsageTotals>();
+  const byDomain = new Map<string, UsageTotals>();
+  for (const call of calls) {
+    const day = new Date(call.createdAt).toISOString().slice(0, 10);
+    const domain = call.domain || '(no website)';
+    if (!byDay.has(day)) byDay.set(day, emptyUsageTotals());
+    if (!byDomain.has(domain)) byDomain.set(domain, emptyUsageTotals());
+    addToTotals(byDay.get(day)!, call);
+    addToTotals(byDomain.get(domain)!, call);
+  }
+
+  return {
+    from,
+    to,
+    totals: sumUsage(calls),
+    byDay: Array.from(byDay, ([key, totals]) => ({ key, ...totals })),
+    byDomain: Array.from(byDomain, ([key, totals]) => ({ key, ...totals })).sort(
+      (a, b) => b.costUsd - a.costUsd
+    ),
+  };
+}
@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Native module used by the SQLite job store - load it from node_modules at runtime
+    serverComponentsExternalPackages: ['better-sqlite3'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,8 @@
+-- Migration: Per-job content model provider
+-- Run this in your Supabase SQL Editor
+
+-- NULL means the server default (CONTENT_PROVIDER environment variable)
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS input_provider TEXT;
+
+COMMENT ON COLUMN jobs.input_provider IS 'Content model provider for this job (anthropic, openai, fixture); NULL uses CONTENT_PROVIDER';
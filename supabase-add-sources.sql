@@ -0,0 +1,11 @@
+-- Migration: Support client-supplied source documents
+-- Run this in your Supabase SQL Editor
+
+-- A job may now be created from source documents alone, without a website URL
+ALTER TABLE jobs
+ALTER COLUMN input_url DROP NOT NULL;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS input_sources JSONB;
+
+COMMENT ON COLUMN jobs.input_sources IS 'Client-supplied source documents (name, type, extracted text) merged into the site context';
@@ -0,0 +1,27 @@
+-- Migration: batches for bulk generation
+-- Run this in your Supabase SQL Editor
+
+-- A batch groups the jobs created from one CSV/JSON upload; its progress is
+-- counted from the jobs, which still run one by one through the queue
+CREATE TABLE IF NOT EXISTS batches (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  job_count INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_created_at ON batches(created_at);
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON batches
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS batch_id TEXT REFERENCES batches(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_batch_id ON jobs(batch_id) WHERE batch_id IS NOT NULL;
+
+COMMENT ON COLUMN jobs.batch_id IS 'Batch the job was submitted in (/api/batches); NULL for single jobs';
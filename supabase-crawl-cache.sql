@@ -0,0 +1,26 @@
+-- Migration: Add crawl_cache table for reusing scraped pages across jobs
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS crawl_cache (
+  url TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  text TEXT NOT NULL,
+  links JSONB NOT NULL DEFAULT '[]'::jsonb,
+  etag TEXT,
+  last_modified TEXT,
+  fetched_at BIGINT NOT NULL
+);
+
+-- Index for pruning old entries
+CREATE INDEX IF NOT EXISTS idx_crawl_cache_fetched_at ON crawl_cache(fetched_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE crawl_cache ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for service role (backend)
+CREATE POLICY "Allow all for service role" ON crawl_cache
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE crawl_cache IS 'Extracted page text per URL with HTTP validators for conditional revalidation';
@@ -0,0 +1,7 @@
+-- Migration: Remove anonymous read access to jobs
+-- Run this in your Supabase SQL Editor
+
+-- Jobs now hold client-supplied source documents (input_sources); with this
+-- policy anyone with the public anon key could read every job. The app only
+-- reads jobs with the service role key and serves status through its API
+DROP POLICY IF EXISTS "Allow anonymous read" ON jobs;
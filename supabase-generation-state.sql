@@ -0,0 +1,9 @@
+-- Migration: Checkpoints for the sectioned (outline-first) generation pipeline
+-- Run this in your Supabase SQL Editor
+
+-- Outline, finished sections and the assembly output of long articles, saved
+-- after every model call so a timed-out worker run resumes where it stopped
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS generation_state JSONB;
+
+COMMENT ON COLUMN jobs.generation_state IS 'Sectioned generation checkpoint (outline, sections, assembly); NULL for single-pass jobs';
@@ -0,0 +1,7 @@
+-- Migration: grounding check of article claims against the site context
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS result_grounding_report JSONB;
+
+COMMENT ON COLUMN jobs.result_grounding_report IS 'Claims (numbers, prices, timeframes, named entities, superlatives) marked supported, unsupported or contradicted with their source page';
@@ -0,0 +1,38 @@
+-- Migration: Add job_calls table for token usage and cost accounting
+-- Run this in your Supabase SQL Editor
+
+-- One row per model request. job_id is cleared (not cascaded) when old jobs
+-- are cleaned up, so usage history and per-domain totals are kept.
+CREATE TABLE IF NOT EXISTS job_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+  domain TEXT,
+  created_at BIGINT NOT NULL,
+  stage TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  cost_usd NUMERIC(12, 6),
+  success BOOLEAN NOT NULL,
+  error TEXT
+);
+
+-- Indexes for per-job lookups and date-range summaries
+CREATE INDEX IF NOT EXISTS idx_job_calls_job_id ON job_calls(job_id);
+CREATE INDEX IF NOT EXISTS idx_job_calls_created_at ON job_calls(created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE job_calls ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for service role (backend)
+CREATE POLICY "Allow all for service role" ON job_calls
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE job_calls IS 'Model requests per job: tokens, cache hits, latency and cost';
+COMMENT ON COLUMN job_calls.cost_usd IS 'Cost from the price table in lib/pricing.ts (MODEL_PRICES); NULL when the model has no price';
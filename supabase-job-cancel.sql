@@ -0,0 +1,9 @@
+-- Migration: cancelled status
+-- Run this in your Supabase SQL Editor
+
+-- Jobs stopped through /api/jobs/[jobId]/cancel finish as cancelled; their
+-- checkpoints are kept, so /api/jobs/[jobId]/rerun can pick them up again
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('pending', 'crawling', 'generating', 'parsing', 'completed', 'completed_with_warnings', 'failed', 'cancelled'));
@@ -0,0 +1,9 @@
+-- Migration: per-stage checkpoints so retried jobs resume instead of starting over
+-- Run this in your Supabase SQL Editor
+
+-- Crawl result, raw model text, parsed sections and revised sections, each saved
+-- when its stage finishes; a retry continues from the first stage without one
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS checkpoints JSONB;
+
+COMMENT ON COLUMN jobs.checkpoints IS 'Output of every finished pipeline stage (crawl, generate, parse, revise); dropped from a stage onward by /api/jobs/[jobId]/rerun';
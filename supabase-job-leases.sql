@@ -0,0 +1,73 @@
+-- Migration: atomic job claiming with leases
+-- Run this in your Supabase SQL Editor
+
+-- The worker that claimed a job and until when its claim holds (ms since epoch).
+-- Workers renew the lease with heartbeats; an expired lease means the worker died.
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at BIGINT;
+
+COMMENT ON COLUMN jobs.lease_owner IS 'Worker run that claimed the job; NULL when unclaimed';
+COMMENT ON COLUMN jobs.lease_expires_at IS 'Claim expiry (ms since epoch), renewed by worker heartbeats';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_lease
+ON jobs(status, lease_expires_at)
+WHERE status IN ('crawling', 'generating', 'parsing');
+
+-- Claim the oldest pending job (or p_job_id) that no live lease holds.
+-- FOR UPDATE SKIP LOCKED lets concurrent workers pass over a row another one is
+-- claiming, so a job can never be handed out twice. Returns the claimed row.
+CREATE OR REPLACE FUNCTION claim_job(
+  p_worker_id TEXT,
+  p_now BIGINT,
+  p_lease_ms BIGINT,
+  p_job_id TEXT DEFAULT NULL
+)
+RETURNS SETOF jobs
+LANGUAGE sql
+AS $$
+  UPDATE jobs
+  SET lease_owner = p_worker_id,
+      lease_expires_at = p_now + p_lease_ms,
+      attempts = attempts + 1,
+      last_attempt_at = p_now,
+      updated_at = p_now
+  WHERE id = (
+    SELECT id
+    FROM jobs
+    WHERE status = 'pending'
+      AND (lease_expires_at IS NULL OR lease_expires_at < p_now)
+      AND (p_job_id IS NULL OR id = p_job_id)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Requeue (or fail, after p_max_attempts) processing jobs whose lease expired.
+-- The lease is re-checked on the locked row, so a job whose heartbeat just
+-- renewed it is left alone. Returns the affected ids and their new status.
+CREATE OR REPLACE FUNCTION release_expired_jobs(p_now BIGINT, p_max_attempts INTEGER)
+RETURNS TABLE (id TEXT, status TEXT, attempts INTEGER)
+LANGUAGE sql
+AS $$
+  UPDATE jobs
+  SET status = CASE WHEN jobs.attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+      progress = 0,
+      message = CASE
+        WHEN jobs.attempts >= p_max_attempts THEN 'Job failed'
+        ELSE 'Retry attempt ' || (jobs.attempts + 1) || '/' || p_max_attempts || ' - Previous worker stopped responding'
+      END,
+      error = CASE
+        WHEN jobs.attempts >= p_max_attempts
+        THEN 'Job exceeded maximum retry attempts (' || p_max_attempts || '). The worker stopped responding.'
+        ELSE jobs.error
+      END,
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = p_now
+  WHERE jobs.status IN ('crawling', 'generating', 'parsing')
+    AND (jobs.lease_expires_at IS NULL OR jobs.lease_expires_at < p_now)
+  RETURNING jobs.id, jobs.status, jobs.attempts;
+$$;
@@ -0,0 +1,99 @@
+-- Migration: job priorities, fair scheduling across clients and per-domain concurrency
+-- Run this in your Supabase SQL Editor
+
+-- priority: higher is claimed first (default 0)
+-- client_key: who submitted the job ('key:<api key hash>', 'domain:<host>' or 'anonymous');
+--   within a priority, claims rotate between clients
+-- domain: host of input_url; a domain at its concurrency limit of leased jobs waits
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS client_key TEXT,
+ADD COLUMN IF NOT EXISTS domain TEXT;
+
+COMMENT ON COLUMN jobs.priority IS 'Higher priorities are claimed first';
+COMMENT ON COLUMN jobs.client_key IS 'Client the job counts against for round-robin claiming';
+COMMENT ON COLUMN jobs.domain IS 'Host of input_url, for per-domain concurrency limits';
+
+-- Existing jobs count against their site's domain
+UPDATE jobs
+SET domain = regexp_replace(lower(substring(input_url FROM '^https?://([^/:?#]+)')), '^www\.', '')
+WHERE domain IS NULL AND input_url IS NOT NULL;
+
+UPDATE jobs
+SET client_key = COALESCE('domain:' || domain, 'anonymous')
+WHERE client_key IS NULL;
+
+DROP INDEX IF EXISTS idx_jobs_status_created;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_pending_priority
+ON jobs(priority DESC, created_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_client_attempt ON jobs(client_key, last_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_domain_lease
+ON jobs(domain, lease_expires_at)
+WHERE lease_owner IS NOT NULL;
+
+-- The claim takes two more parameters; drop the old signature so calls can't
+-- resolve to it
+DROP FUNCTION IF EXISTS claim_job(TEXT, BIGINT, BIGINT, TEXT);
+
+-- Claim the next pending job (or p_job_id) that no live lease holds: the highest
+-- priority, then the client whose last claim is oldest, then the oldest job. A
+-- domain with as many leased jobs as its limit (p_domain_limits overrides
+-- p_domain_limit; 0 means no limit) is skipped unless the job is asked for by id.
+-- Claims take a transaction-level advisory lock so two of them can't both see a
+-- free slot on the same domain. Returns the claimed row.
+CREATE OR REPLACE FUNCTION claim_job(
+  p_worker_id TEXT,
+  p_now BIGINT,
+  p_lease_ms BIGINT,
+  p_job_id TEXT DEFAULT NULL,
+  p_domain_limit INTEGER DEFAULT 0,
+  p_domain_limits JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_job'));
+
+  RETURN QUERY
+  UPDATE jobs
+  SET lease_owner = p_worker_id,
+      lease_expires_at = p_now + p_lease_ms,
+      attempts = jobs.attempts + 1,
+      last_attempt_at = p_now,
+      updated_at = p_now
+  WHERE jobs.id = (
+    SELECT candidate.id
+    FROM jobs AS candidate
+    LEFT JOIN (
+      SELECT client_key, MAX(last_attempt_at) AS last_claimed_at
+      FROM jobs
+      WHERE last_attempt_at IS NOT NULL
+      GROUP BY client_key
+    ) AS served ON served.client_key IS NOT DISTINCT FROM candidate.client_key
+    WHERE candidate.status = 'pending'
+      AND (candidate.lease_expires_at IS NULL OR candidate.lease_expires_at < p_now)
+      AND (p_job_id IS NULL OR candidate.id = p_job_id)
+      AND (
+        p_job_id IS NOT NULL
+        OR candidate.domain IS NULL
+        OR COALESCE((p_domain_limits ->> candidate.domain)::INTEGER, p_domain_limit) <= 0
+        OR (
+          SELECT COUNT(*)
+          FROM jobs AS leased
+          WHERE leased.domain = candidate.domain
+            AND leased.lease_owner IS NOT NULL
+            AND leased.lease_expires_at >= p_now
+        ) < COALESCE((p_domain_limits ->> candidate.domain)::INTEGER, p_domain_limit)
+      )
+    ORDER BY candidate.priority DESC, served.last_claimed_at ASC NULLS FIRST, candidate.created_at
+    LIMIT 1
+    FOR UPDATE OF candidate SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
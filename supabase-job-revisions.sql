@@ -0,0 +1,7 @@
+-- Migration: acceptance check revisions recorded on the job
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS revisions JSONB;
+
+COMMENT ON COLUMN jobs.revisions IS 'Targeted revision attempts: failing acceptance checks, revised parts, checks still failing afterwards';
@@ -0,0 +1,14 @@
+-- Migration: completed_with_warnings status and the warnings column
+-- Run this in your Supabase SQL Editor
+
+-- Jobs whose model output had to be repaired or partly regenerated finish as
+-- completed_with_warnings instead of completed
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_status_check
+CHECK (status IN ('pending', 'crawling', 'generating', 'parsing', 'completed', 'completed_with_warnings', 'failed'));
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS warnings JSONB;
+
+COMMENT ON COLUMN jobs.warnings IS 'What was repaired or regenerated in the model output; NULL when nothing was';
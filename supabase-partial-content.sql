@@ -0,0 +1,9 @@
+-- Migration: Streamed partial content while a job is generating
+-- Run this in your Supabase SQL Editor
+
+-- Written every few seconds by the worker while the model streams its answer,
+-- cleared when the job completes or is queued for retry
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS partial_content TEXT;
+
+COMMENT ON COLUMN jobs.partial_content IS 'Model output streamed so far (live preview); NULL when not generating';
@@ -0,0 +1,8 @@
+-- Migration: FAQ stored as question/answer pairs
+-- Run this in your Supabase SQL Editor
+
+-- The FAQPage JSON-LD in result_schema_json_string is built from these pairs
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS result_faq JSONB;
+
+COMMENT ON COLUMN jobs.result_faq IS 'FAQ as [{question, answer}]; NULL for jobs created before this column';
@@ -0,0 +1,9 @@
+-- Migration: record why a schedule run failed
+-- Run this in your Supabase SQL Editor
+
+-- A run that fails to queue its jobs gives its topics back and stays due, so the
+-- next worker pass retries it; the error is kept here until a run succeeds
+ALTER TABLE schedules
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+COMMENT ON COLUMN schedules.last_error IS 'Why the last run failed to queue its jobs; cleared by a successful run';
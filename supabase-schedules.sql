@@ -0,0 +1,41 @@
+-- Migration: scheduled and recurring generation
+-- Run this in your Supabase SQL Editor
+
+-- A schedule queues jobs for topics from its list: once at run_at, or each time
+-- its cron rule (UTC) matches. The per-minute /api/worker cron creates the jobs
+-- of due schedules and moves next_run_at on
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  cron TEXT, -- NULL for a one-off schedule
+  run_at BIGINT, -- One-off run time; NULL for recurring rules
+  input JSONB NOT NULL, -- url, keywords, length, additionalNotes, provider
+  topics JSONB NOT NULL, -- [{topic, keywords?}]
+  next_topic INTEGER NOT NULL DEFAULT 0,
+  loop_topics BOOLEAN NOT NULL DEFAULT FALSE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  client_key TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at BIGINT, -- NULL while paused and once nothing is left to run
+  last_run_at BIGINT,
+  last_job_id TEXT,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(next_run_at) WHERE enabled;
+
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON schedules
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS schedule_id TEXT REFERENCES schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_schedule_id ON jobs(schedule_id) WHERE schedule_id IS NOT NULL;
+
+COMMENT ON COLUMN jobs.schedule_id IS 'Schedule that created the job (/api/schedules); NULL otherwise';
@@ -0,0 +1,7 @@
+-- Migration: schema.org validation report for the generated JSON-LD
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS result_schema_report JSONB;
+
+COMMENT ON COLUMN jobs.result_schema_report IS 'Local schema.org validation of result_schema_json_string (errors and warnings per property)';
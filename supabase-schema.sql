@@ -1,43 +1,215 @@
 -- Job Queue Table for SEO Content Creator
 -- Run this in your Supabase SQL Editor
 
+-- Batches: jobs created together from one CSV/JSON upload (bulk generation)
+CREATE TABLE IF NOT EXISTS batches (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at BIGINT NOT NULL,
+  job_count INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_created_at ON batches(created_at);
+
+-- A schedule queues jobs for topics from its list: once at run_at, or each time
+-- its cron rule (UTC) matches. The per-minute /api/worker cron creates the jobs
+-- of due schedules and moves next_run_at on
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  cron TEXT, -- NULL for a one-off schedule
+  run_at BIGINT, -- One-off run time; NULL for recurring rules
+  input JSONB NOT NULL, -- url, keywords, length, additionalNotes, provider
+  topics JSONB NOT NULL, -- [{topic, keywords?}]
+  next_topic INTEGER NOT NULL DEFAULT 0,
+  loop_topics BOOLEAN NOT NULL DEFAULT FALSE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  client_key TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at BIGINT, -- NULL while paused and once nothing is left to run
+  last_run_at BIGINT,
+  last_job_id TEXT,
+  last_error TEXT, -- Why the last run failed to queue its jobs
+  run_count INTEGER NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(next_run_at) WHERE enabled;
+
 CREATE TABLE IF NOT EXISTS jobs (
   id TEXT PRIMARY KEY,
-  status TEXT NOT NULL CHECK (status IN ('pending', 'crawling', 'generating', 'parsing', 'completed', 'failed')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'crawling', 'generating', 'parsing', 'completed', 'completed_with_warnings', 'failed', 'cancelled')),
   progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
   message TEXT NOT NULL,
   created_at BIGINT NOT NULL,
   updated_at BIGINT NOT NULL,
   attempts INTEGER NOT NULL DEFAULT 0,
   last_attempt_at BIGINT,
+  batch_id TEXT REFERENCES batches(id) ON DELETE CASCADE, -- NULL for single jobs
+  schedule_id TEXT REFERENCES schedules(id) ON DELETE SET NULL, -- Schedule that created the job
+
+  -- Scheduling: higher priorities first, claims rotate between clients within a
+  -- priority, and a domain at its concurrency limit waits
+  priority INTEGER NOT NULL DEFAULT 0,
+  client_key TEXT, -- 'key:<api key hash>', 'domain:<host>' or 'anonymous'
+  domain TEXT, -- Host of input_url
 
   -- Input data
-  input_url TEXT NOT NULL,
+  input_url TEXT,
   input_topic TEXT NOT NULL,
   input_keywords JSONB NOT NULL,
   input_length INTEGER NOT NULL,
   input_additional_notes TEXT,
+  input_sources JSONB,
+  input_provider TEXT, -- NULL uses the CONTENT_PROVIDER default
 
   -- Result data (nullable until completed)
   result_meta_title TEXT,
   result_meta_description TEXT,
   result_content_markdown TEXT,
   result_faq_raw TEXT,
+  result_faq JSONB, -- [{question, answer}]; the FAQPage schema is built from these
   result_schema_json_string TEXT,
+  result_schema_report JSONB, -- schema.org validation errors and warnings
+  result_seo_report JSONB, -- On-page SEO scorecard
+  result_grounding_report JSONB, -- Article claims checked against the site context
   result_pages JSONB,
 
+  -- Model output streamed so far while generating (live preview)
+  partial_content TEXT,
+
+  -- Sectioned generation checkpoint: outline, finished sections, assembly output
+  generation_state JSONB,
+
+  -- Output of every finished pipeline stage (crawl, generate, parse, revise)
+  checkpoints JSONB,
+
+  -- Repairs made to the model output (completed_with_warnings)
+  warnings JSONB,
+
+  -- Targeted revisions made because acceptance checks failed
+  revisions JSONB,
+
+  -- Claim held by the worker processing the job, renewed by heartbeats
+  lease_owner TEXT,
+  lease_expires_at BIGINT,
+
   -- Error message (nullable unless failed)
   error TEXT
 );
 
--- Index for finding pending jobs quickly
-CREATE INDEX IF NOT EXISTS idx_jobs_status_created
-ON jobs(status, created_at)
+-- Index for finding pending jobs quickly, in claim order
+CREATE INDEX IF NOT EXISTS idx_jobs_pending_priority
+ON jobs(priority DESC, created_at)
 WHERE status = 'pending';
 
 -- Index for retrieving jobs by ID
 CREATE INDEX IF NOT EXISTS idx_jobs_id ON jobs(id);
 
+-- Index for finding processing jobs whose lease expired
+CREATE INDEX IF NOT EXISTS idx_jobs_status_lease
+ON jobs(status, lease_expires_at)
+WHERE status IN ('crawling', 'generating', 'parsing');
+
+-- Index for counting and listing a batch's jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_batch_id ON jobs(batch_id) WHERE batch_id IS NOT NULL;
+
+-- Index for listing a schedule's jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_schedule_id ON jobs(schedule_id) WHERE schedule_id IS NOT NULL;
+
+-- Indexes for round-robin claiming (each client's last claim) and domain limits
+CREATE INDEX IF NOT EXISTS idx_jobs_client_attempt ON jobs(client_key, last_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_domain_lease
+ON jobs(domain, lease_expires_at)
+WHERE lease_owner IS NOT NULL;
+
+-- Claim the next pending job (or p_job_id) that no live lease holds: the highest
+-- priority, then the client whose last claim is oldest, then the oldest job. A
+-- domain with as many leased jobs as its limit (p_domain_limits overrides
+-- p_domain_limit; 0 means no limit) is skipped unless the job is asked for by id.
+-- Claims take a transaction-level advisory lock so two of them can't both see a
+-- free slot on the same domain. Returns the claimed row.
+CREATE OR REPLACE FUNCTION claim_job(
+  p_worker_id TEXT,
+  p_now BIGINT,
+  p_lease_ms BIGINT,
+  p_job_id TEXT DEFAULT NULL,
+  p_domain_limit INTEGER DEFAULT 0,
+  p_domain_limits JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_job'));
+
+  RETURN QUERY
+  UPDATE jobs
+  SET lease_owner = p_worker_id,
+      lease_expires_at = p_now + p_lease_ms,
+      attempts = jobs.attempts + 1,
+      last_attempt_at = p_now,
+      updated_at = p_now
+  WHERE jobs.id = (
+    SELECT candidate.id
+    FROM jobs AS candidate
+    LEFT JOIN (
+      SELECT client_key, MAX(last_attempt_at) AS last_claimed_at
+      FROM jobs
+      WHERE last_attempt_at IS NOT NULL
+      GROUP BY client_key
+    ) AS served ON served.client_key IS NOT DISTINCT FROM candidate.client_key
+    WHERE candidate.status = 'pending'
+      AND (candidate.lease_expires_at IS NULL OR candidate.lease_expires_at < p_now)
+      AND (p_job_id IS NULL OR candidate.id = p_job_id)
+      AND (
+        p_job_id IS NOT NULL
+        OR candidate.domain IS NULL
+        OR COALESCE((p_domain_limits ->> candidate.domain)::INTEGER, p_domain_limit) <= 0
+        OR (
+          SELECT COUNT(*)
+          FROM jobs AS leased
+          WHERE leased.domain = candidate.domain
+            AND leased.lease_owner IS NOT NULL
+            AND leased.lease_expires_at >= p_now
+        ) < COALESCE((p_domain_limits ->> candidate.domain)::INTEGER, p_domain_limit)
+      )
+    ORDER BY candidate.priority DESC, served.last_claimed_at ASC NULLS FIRST, candidate.created_at
+    LIMIT 1
+    FOR UPDATE OF candidate SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+-- Requeue (or fail, after p_max_attempts) processing jobs whose lease expired.
+-- The lease is re-checked on the locked row, so a job whose heartbeat just
+-- renewed it is left alone. Returns the affected ids and their new status.
+CREATE OR REPLACE FUNCTION release_expired_jobs(p_now BIGINT, p_max_attempts INTEGER)
+RETURNS TABLE (id TEXT, status TEXT, attempts INTEGER)
+LANGUAGE sql
+AS $$
+  UPDATE jobs
+  SET status = CASE WHEN jobs.attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+      progress = 0,
+      message = CASE
+        WHEN jobs.attempts >= p_max_attempts THEN 'Job failed'
+        ELSE 'Retry attempt ' || (jobs.attempts + 1) || '/' || p_max_attempts || ' - Previous worker stopped responding'
+      END,
+      error = CASE
+        WHEN jobs.attempts >= p_max_attempts
+        THEN 'Job exceeded maximum retry attempts (' || p_max_attempts || '). The worker stopped responding.'
+        ELSE jobs.error
+      END,
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = p_now
+  WHERE jobs.status IN ('crawling', 'generating', 'parsing')
+    AND (jobs.lease_expires_at IS NULL OR jobs.lease_expires_at < p_now)
+  RETURNING jobs.id, jobs.status, jobs.attempts;
+$$;
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
 
@@ -47,8 +219,69 @@ CREATE POLICY "Allow all for service role" ON jobs
   USING (auth.role() = 'service_role')
   WITH CHECK (auth.role() = 'service_role');
 
--- Policy: Allow anonymous users to read their own jobs (if needed)
--- This is optional - you can remove if you only want backend access
-CREATE POLICY "Allow anonymous read" ON jobs
-  FOR SELECT
-  USING (true);
+-- No anonymous read policy: jobs hold client source documents (input_sources),
+-- so only the backend reads them; the app serves job status through its API
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON batches
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON schedules
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Crawl cache: extracted page text per URL, reused across jobs
+CREATE TABLE IF NOT EXISTS crawl_cache (
+  url TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  text TEXT NOT NULL,
+  links JSONB NOT NULL DEFAULT '[]'::jsonb,
+  facts JSONB,
+  etag TEXT,
+  last_modified TEXT,
+  fetched_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_cache_fetched_at ON crawl_cache(fetched_at);
+
+ALTER TABLE crawl_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON crawl_cache
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Model calls: token usage, latency and cost per request (kept after job cleanup)
+CREATE TABLE IF NOT EXISTS job_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+  domain TEXT,
+  created_at BIGINT NOT NULL,
+  stage TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  cost_usd NUMERIC(12, 6),
+  success BOOLEAN NOT NULL,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_calls_job_id ON job_calls(job_id);
+CREATE INDEX IF NOT EXISTS idx_job_calls_created_at ON job_calls(created_at);
+
+ALTER TABLE job_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role" ON job_calls
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
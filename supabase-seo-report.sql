@@ -0,0 +1,7 @@
+-- Migration: on-page SEO scorecard for completed jobs
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS result_seo_report JSONB;
+
+COMMENT ON COLUMN jobs.result_seo_report IS 'On-page SEO scorecard: word count, keyword placement and density, headings, meta lengths, formatted elements';
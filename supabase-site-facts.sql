@@ -0,0 +1,7 @@
+-- Migration: Add site facts to the crawl cache
+-- Run this in your Supabase SQL Editor (after supabase-crawl-cache.sql)
+
+ALTER TABLE crawl_cache
+ADD COLUMN IF NOT EXISTS facts JSONB;
+
+COMMENT ON COLUMN crawl_cache.facts IS 'Business facts (name, NAP, social profiles, products, prices) extracted from the page';
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { pickClaimCandidate, type ClaimCandidate } from '../lib/job-store/rows';
+
+const job = (id: string, fields: Partial<ClaimCandidate> = {}): ClaimCandidate => ({
+  id,
+  priority: 0,
+  client_key: null,
+  domain: null,
+  created_at: 0,
+  ...fields,
+});
+
+const pick = (
+  candidates: ClaimCandidate[],
+  leasedByDomain: Record<string, number> = {},
+  lastClaimedByClient: Record<string, number> = {},
+  options = {}
+) => pickClaimCandidate(candidates, leasedByDomain, lastClaimedByClient, options)?.id;
+
+describe('pickClaimCandidate', () => {
+  it('claims the highest priority first', () => {
+    assert.equal(pick([job('low', { created_at: 1 }), job('high', { priority: 5, created_at: 2 })]), 'high');
+  });
+
+  it('prefers the client whose last claim is oldest, never-claimed clients first', () => {
+    const candidates = [
+      job('busy', { client_key: 'a', created_at: 1 }),
+      job('idle', { client_key: 'b', created_at: 2 }),
+      job('new', { client_key: 'c', created_at: 3 }),
+    ];
+    assert.equal(pick(candidates, {}, { a: 200, b: 100 }), 'new');
+    assert.equal(pick(candidates.slice(0, 2), {}, { a: 200, b: 100 }), 'idle');
+  });
+
+  it('falls back to the oldest job', () => {
+    assert.equal(pick([job('newer', { created_at: 2 }), job('older', { created_at: 1 })]), 'older');
+  });
+
+  it('skips domains at their leased-job limit', () => {
+    const candidates = [
+      job('full', { domain: 'a.test', created_at: 1 }),
+      job('free', { domain: 'b.test', created_at: 2 }),
+    ];
+    assert.equal(pick(candidates, { 'a.test': 1 }, {}, { domainLimit: 1 }), 'free');
+    assert.equal(pick(candidates, { 'a.test': 1 }, {}, { domainLimit: 2 }), 'full');
+    assert.equal(pick(candidates, { 'a.test': 1 }, {}, { domainLimit: 2, domainLimits: { 'a.test': 1 } }), 'free');
+    assert.equal(pick(candidates.slice(0, 1), { 'a.test': 1 }, {}, { domainLimit: 1 }), undefined);
+  });
+
+  it('claims a job forced by id regardless of order and domain limits', () => {
+    const candidates = [job('first', { priority: 5 }), job('forced', { domain: 'a.test' })];
+    assert.equal(pick(candidates, { 'a.test': 3 }, {}, { jobId: 'forced', domainLimit: 1 }), 'forced');
+  });
+});
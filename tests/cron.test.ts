@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextCronRun, parseCron } from '../lib/cron';
+
+const at = (iso: string) => Date.parse(iso);
+const next = (expression: string, after: string) => {
+  const run = nextCronRun(parseCron(expression), at(after));
+  return run === null ? null : new Date(run).toISOString();
+};
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('0,30 9-17/4 1 * *');
+    assert.deepEqual([...cron.minutes], [0, 30]);
+    assert.deepEqual([...cron.hours], [9, 13, 17]);
+    assert.deepEqual([...cron.daysOfMonth], [1]);
+    assert.equal(cron.months.size, 12);
+  });
+
+  it('accepts month and day names, and 7 as Sunday', () => {
+    const cron = parseCron('0 9 * jan-mar mon,sun,7');
+    assert.deepEqual([...cron.months], [1, 2, 3]);
+    assert.deepEqual([...cron.daysOfWeek].sort(), [0, 1]);
+  });
+
+  it('expands macros', () => {
+    assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+  });
+
+  it('rejects invalid expressions', () => {
+    assert.throws(() => parseCron('* * * *'), /5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /Invalid minute "60"/);
+    assert.throws(() => parseCron('0 5-1 * * *'), /Invalid hour range/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid step/);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute strictly after the given time (UTC)', () => {
+    assert.equal(next('0 9 * * *', '2026-03-02T08:59:30Z'), '2026-03-02T09:00:00.000Z');
+    assert.equal(next('0 9 * * *', '2026-03-02T09:00:00Z'), '2026-03-03T09:00:00.000Z');
+    assert.equal(next('*/15 * * * *', '2026-03-02T10:07:00Z'), '2026-03-02T10:15:00.000Z');
+  });
+
+  it('moves across months and years', () => {
+    assert.equal(next('0 0 1 * *', '2026-01-31T12:00:00Z'), '2026-02-01T00:00:00.000Z');
+    assert.equal(next('@yearly', '2026-06-01T00:00:00Z'), '2027-01-01T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-03-02 is a Monday; the 15th comes after the next Friday
+    assert.equal(next('0 0 15 * fri', '2026-03-02T00:00:00Z'), '2026-03-06T00:00:00.000Z');
+  });
+
+  it('returns null when the expression never matches', () => {
+    assert.equal(next('0 0 30 feb *', '2026-01-01T00:00:00Z'), null);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { repairJson } from '../lib/parse';
+
+describe('repairJson', () => {
+  it('leaves valid JSON untouched', () => {
+    const input = '{"name": "It’s “quoted”"}';
+    assert.deepEqual(repairJson(input), { json: { name: 'It’s “quoted”' }, jsonString: input, repairs: [] });
+  });
+
+  it('replaces smart quotes that delimit strings', () => {
+    const { json, repairs } = repairJson('{“@type”: “Article”, "headline": “Tips”}');
+    assert.deepEqual(json, { '@type': 'Article', headline: 'Tips' });
+    assert.deepEqual(repairs, ['replaced smart quotes in schema JSON']);
+  });
+
+  it('keeps smart quotes inside string content', () => {
+    const { json } = repairJson('{"headline": "The “best” plumber", “name”: “Say “hi” now”,}');
+    assert.deepEqual(json, { headline: 'The “best” plumber', name: 'Say “hi” now' });
+  });
+
+  it('removes trailing commas', () => {
+    const { json, repairs } = repairJson('{"a": [1, 2,], "b": {"c": 3,},}');
+    assert.deepEqual(json, { a: [1, 2], b: { c: 3 } });
+    assert.deepEqual(repairs, ['removed trailing commas in schema JSON']);
+  });
+
+  it('throws when the JSON cannot be repaired', () => {
+    assert.throws(() => repairJson('{"a": '), /Invalid JSON in SCHEMA block/);
+  });
+});